@@ -1,5 +1,8 @@
 // server.ts - Next.js Standalone + Socket.IO
 import { setupSocket } from '@/lib/socket';
+import { jobScheduler } from '@/lib/scheduler/scheduler';
+import { registerDefaultJobs } from '@/lib/scheduler/jobs';
+import { asycudaDirectoryWatcher } from '@/lib/integrations/asycuda-watcher';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import next from 'next';
@@ -42,6 +45,19 @@ async function createCustomServer() {
 
     setupSocket(io);
 
+    // Background jobs; every replica polls, leases make sure each run happens once
+    if (process.env.JOB_SCHEDULER_ENABLED !== 'false') {
+      registerDefaultJobs();
+      await jobScheduler.start();
+    }
+
+    // ASYCUDA XML exports dropped into this directory are imported as declarations
+    if (process.env.ASYCUDA_IMPORT_DIR) {
+      await asycudaDirectoryWatcher.start(process.env.ASYCUDA_IMPORT_DIR, {
+        score: process.env.ASYCUDA_IMPORT_SCORE === 'true'
+      });
+    }
+
     // Start the server
     server.listen(currentPort, hostname, () => {
       console.log(`> Ready on http://${hostname}:${currentPort}`);
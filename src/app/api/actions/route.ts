@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const ACTION_TYPES = ['ALLOW', 'HOLD', 'STOP', 'ESCALATE'];
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/**
+ * Recent actions, newest first. Pages are addressed by the id of the last action
+ * of the previous page (next_cursor), so rows inserted meanwhile do not shift pages.
+ */
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const cursor = searchParams.get('cursor');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const actionTypes = (searchParams.get('action') || '')
+      .split(',')
+      .map(type => type.trim().toUpperCase())
+      .filter(Boolean);
+    const port = searchParams.get('port');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const policyVersion = searchParams.get('policy_version');
+    const actor = searchParams.get('actor');
+
+    const invalidType = actionTypes.find(type => !ACTION_TYPES.includes(type));
+    if (invalidType) {
+      return NextResponse.json(
+        { error: `Invalid action type: ${invalidType}` },
+        { status: 400 }
+      );
+    }
+
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json(
+        { error: "from and to must be valid dates" },
+        { status: 400 }
+      );
+    }
+
+    const where: any = {};
+    if (actionTypes.length > 0) where.action = { in: actionTypes };
+    if (port) where.declaration = { arrival_port: port };
+    if (policyVersion) where.policy_version = policyVersion;
+    if (actor) where.actor_id = actor;
+    if (fromDate || toDate) {
+      where.created_at = {
+        ...(fromDate ? { gte: fromDate } : {}),
+        ...(toDate ? { lte: toDate } : {})
+      };
+    }
+
+    const actions = await db.action.findMany({
+      where,
+      include: {
+        declaration: {
+          select: {
+            declaration_id: true,
+            arrival_port: true,
+            channel: true,
+            status: true,
+            consignee_name: true,
+            lodgement_ts: true
+          }
+        }
+      },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    });
+
+    const hasMore = actions.length > limit;
+    const page = hasMore ? actions.slice(0, limit) : actions;
+    const now = Date.now();
+
+    return NextResponse.json({
+      actions: page.map(action => {
+        const expiresAt = action.ttl_minutes
+          ? new Date(action.created_at.getTime() + action.ttl_minutes * 60 * 1000)
+          : null;
+
+        return {
+          id: action.id,
+          declaration_id: action.declaration.declaration_id,
+          action: action.action,
+          reason: action.reason,
+          actor_id: action.actor_id,
+          policy_version: action.policy_version,
+          rule_ids: action.rule_ids,
+          created_at: action.created_at,
+          ttl_minutes: action.ttl_minutes,
+          expires_at: expiresAt,
+          remaining_ttl_minutes: expiresAt
+            ? Math.max(0, Math.ceil((expiresAt.getTime() - now) / 60000))
+            : null,
+          declaration: action.declaration
+        };
+      }),
+      next_cursor: hasMore ? page[page.length - 1].id : null,
+      has_more: hasMore,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Error fetching actions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withObservability(withAuth(handler, ['action:read']), 'actions_api');
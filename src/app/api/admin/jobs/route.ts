@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { jobScheduler, JobNotFoundError } from "@/lib/scheduler/scheduler";
+import { registerDefaultJobs } from "@/lib/scheduler/jobs";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+registerDefaultJobs();
+
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'status';
+
+    if (action === 'status') {
+      return await getJobStatus();
+    } else if (action === 'run') {
+      return await runJob(request);
+    } else if (action === 'update') {
+      return await updateJob(request);
+    } else {
+      return NextResponse.json(
+        { error: "Invalid action parameter" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error("Jobs API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+async function getJobStatus() {
+  await jobScheduler.syncDefinitions();
+  const jobs = await jobScheduler.getJobStatuses();
+
+  return NextResponse.json({
+    jobs,
+    total: jobs.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function runJob(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to run a job" },
+      { status: 405 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const name = searchParams.get('name');
+
+  if (!name) {
+    return NextResponse.json(
+      { error: "name parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  await jobScheduler.syncDefinitions();
+  const ran = await jobScheduler.runJob(name, { force: true });
+  if (!ran) {
+    return NextResponse.json(
+      { error: `Job ${name} is already running` },
+      { status: 409 }
+    );
+  }
+
+  const job = (await jobScheduler.getJobStatuses()).find(status => status.name === name);
+
+  return NextResponse.json({
+    message: `Job ${name} ran`,
+    job,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function updateJob(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to update a job" },
+      { status: 405 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const name = searchParams.get('name');
+  const body = await request.json();
+  const { enabled, interval_seconds, max_attempts } = body;
+
+  if (!name) {
+    return NextResponse.json(
+      { error: "name parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  if (interval_seconds !== undefined && (!Number.isInteger(interval_seconds) || interval_seconds < 10)) {
+    return NextResponse.json(
+      { error: "interval_seconds must be an integer of at least 10" },
+      { status: 400 }
+    );
+  }
+
+  if (max_attempts !== undefined && (!Number.isInteger(max_attempts) || max_attempts < 1)) {
+    return NextResponse.json(
+      { error: "max_attempts must be a positive integer" },
+      { status: 400 }
+    );
+  }
+
+  const user = (request as any).user;
+  const job = await jobScheduler.updateJob(name, {
+    enabled: typeof enabled === 'boolean' ? enabled : undefined,
+    intervalSeconds: interval_seconds,
+    maxAttempts: max_attempts
+  }, user.email);
+
+  return NextResponse.json({
+    message: `Job ${name} updated`,
+    job,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withObservability(withAuth(handler, ['jobs:read']), 'scheduled_jobs');
+export const POST = withObservability(withAuth(handler, ['jobs:write']), 'scheduled_jobs');
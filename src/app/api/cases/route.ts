@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { notificationService } from "@/lib/notifications/service";
+import { consoleEvents } from "@/lib/socket";
 import { v4 as uuidv4 } from "uuid";
 
 export async function POST(request: NextRequest) {
@@ -63,6 +65,26 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    if (body.assigned_to) {
+      consoleEvents.publish("case.assigned", {
+        case_id: caseId,
+        declaration_id,
+        type,
+        expected_recovery,
+        assigned_to: body.assigned_to,
+        opened_at: caseRecord.opened_at
+      }, {
+        port: declaration.arrival_port,
+        assignees: [body.assigned_to]
+      });
+
+      await notificationService.notify("CASE_ASSIGNED", {
+        recipients: [body.assigned_to],
+        data: { case_id: caseId, declaration_id, type, expected_recovery },
+        entityId: caseId
+      });
+    }
+
     return NextResponse.json({
       message: "Case opened successfully",
       case: {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { withAuth, requirePermission } from "@/lib/auth/middleware";
 import { withIdempotency } from "@/lib/middleware/idempotency";
+import { decisionService } from "@/lib/policy/decision";
 
 export const POST = withAuth(
   requirePermission("canMakeDecisions")(
@@ -20,17 +21,9 @@ export const POST = withAuth(
             );
           }
 
-          // Get declaration with risk scores
-          const declaration = await db.declaration.findUnique({
-            where: { declaration_id },
-            include: { 
-              items: true,
-              risk_scores: {
-                orderBy: { created_at: 'desc' },
-                take: 1
-              }
-            }
-          });
+          // Evaluate the active policy pack against the latest risk score
+          const user = (request as any).user;
+          const { declaration, riskScore, decision } = await decisionService.decide(declaration_id, user);
 
           if (!declaration) {
             return NextResponse.json(
@@ -39,62 +32,22 @@ export const POST = withAuth(
             );
           }
 
-          // Get latest risk score
-          const riskScore = declaration.risk_scores[0];
-          if (!riskScore) {
+          if (!riskScore || !decision) {
             return NextResponse.json(
               { error: "No risk score found for declaration" },
               { status: 400 }
             );
           }
 
-          // Parse reason codes
-          const reasonCodes = riskScore.reason_codes ? JSON.parse(riskScore.reason_codes) : [];
-
-          // Policy engine for HOLD/STOP decisioning
-          let action = "ALLOW";
-          let reason = "";
-          let ttlMinutes = null;
-
-          // Policy rules
-          if (riskScore.undervaluation >= 0.85) {
-            action = "HOLD";
-            reason = "Severe undervaluation detected";
-            ttlMinutes = 720;
-          } else if (riskScore.doc_forgery >= 0.80) {
-            action = "STOP";
-            reason = "High confidence document forgery";
-            ttlMinutes = 1440;
-          } else if (riskScore.network_risk >= 0.75) {
-            action = "HOLD";
-            reason = "Network risk detected";
-            ttlMinutes = 480;
-          } else if (riskScore.overall >= 0.7) {
-            action = "HOLD";
-            reason = "High overall risk score";
-            ttlMinutes = 240;
-          } else if (riskScore.overall < 0.25) {
-            action = "ALLOW";
-            reason = "Low risk declaration";
-          }
-
           // Create action record
-          const actionRecord = await db.action.create({
-            data: {
-              declaration_id: declaration.id,
-              action,
-              reason,
-              policy_version: "2025-11-02-01",
-              ttl_minutes: ttlMinutes
-            }
-          });
+          const actionRecord = await decisionService.recordDecision(declaration.id, decision, user?.email);
 
           // Update declaration status
           await db.declaration.update({
             where: { id: declaration.id },
             data: {
-              status: action === "ALLOW" ? "RELEASED" : "HELD",
-              channel: action === "ALLOW" ? "GREEN" : action === "STOP" ? "RED" : "YELLOW"
+              status: decision.action === "ALLOW" ? "RELEASED" : "HELD",
+              channel: decision.channel
             }
           });
 
@@ -104,7 +57,7 @@ export const POST = withAuth(
               event_id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
               declaration_id: declaration.id,
               actor: "system",
-              action: `DECISION_${action}`,
+              action: `DECISION_${decision.action}`,
               payload_hash: request.headers.get('Idempotency-Key') || null
             }
           });
@@ -113,12 +66,14 @@ export const POST = withAuth(
             declaration_id,
             ts: new Date().toISOString(),
             decision: {
-              action,
-              ttl_minutes: ttlMinutes
+              action: decision.action,
+              ttl_minutes: decision.ttl_minutes
             },
-            reason,
-            reason_codes: reasonCodes,
-            policy_version: "2025-11-02-01",
+            reason: decision.reason,
+            reason_codes: riskScore.reason_codes,
+            rule_ids: decision.rule_ids,
+            matched_lines: decision.matched_lines,
+            policy_version: decision.policy_version,
             action_id: actionRecord.id
           });
 
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { assessmentService, AssessmentError } from "@/lib/assessment/service";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const ASSESSMENT_ERROR_STATUS: Record<AssessmentError['code'], number> = {
+  NOT_FOUND: 404
+};
+
+// GET returns the current version's assessment (assessing it on first request); POST re-assesses
+const handler = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const user = (request as any).user;
+
+    if (request.method === 'POST') {
+      const assessment = await assessmentService.assess(id, user.email);
+
+      return NextResponse.json({
+        message: "Declaration re-assessed",
+        assessment,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const assessment = await assessmentService.getCurrent(id, user.email);
+
+    return NextResponse.json({
+      assessment,
+      ...(searchParams.get('history') === 'true'
+        ? { history: await assessmentService.getHistory(id) }
+        : {}),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (error instanceof AssessmentError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ASSESSMENT_ERROR_STATUS[error.code] }
+      );
+    }
+
+    console.error("Declaration assessment error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withObservability(withAuth(handler, ['declaration:read']), 'declaration_assessment');
+export const POST = withObservability(withAuth(handler, ['declaration:write']), 'declaration_assessment');
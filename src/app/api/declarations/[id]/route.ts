@@ -0,0 +1,281 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+import { declarationLifecycle, DeclarationLifecycleError } from "@/lib/declarations/lifecycle";
+import { declarationAmendmentSchema, validateBusinessRules } from "@/lib/validation/schemas";
+import { hsNomenclature } from "@/lib/tariff/nomenclature";
+import { fxRateService, FxRateError } from "@/lib/fx/rates";
+import type { WorkflowActor } from "@/lib/workflow/state-machine";
+
+const LIFECYCLE_ERROR_STATUS: Record<DeclarationLifecycleError['code'], number> = {
+  NOT_FOUND: 404,
+  INVALID_STATE: 409,
+  UNCHANGED: 409,
+  WORKFLOW_OPEN: 409,
+  CONFLICT: 409,
+  FORBIDDEN: 403
+};
+
+function getActor(request: NextRequest): WorkflowActor {
+  const user = (request as any).user;
+  return { id: user.email, role: user.role };
+}
+
+const handler = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'detail';
+
+    if (action === 'detail') {
+      return await getDeclaration(id);
+    } else if (action === 'versions') {
+      return await getVersions(id);
+    } else if (action === 'diff') {
+      return await diffVersions(request, id);
+    } else if (action === 'amend') {
+      return await amendDeclaration(request, id);
+    } else if (action === 'cancel') {
+      return await requestCancellation(request, id);
+    } else if (action === 'approve-cancellation' || action === 'reject-cancellation') {
+      return await decideCancellation(request, id, action === 'approve-cancellation');
+    } else {
+      return NextResponse.json(
+        { error: "Invalid action parameter" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    if (error instanceof DeclarationLifecycleError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: LIFECYCLE_ERROR_STATUS[error.code] }
+      );
+    }
+
+    console.error("Declaration API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+async function getDeclaration(id: string) {
+  const declaration = await db.declaration.findUnique({
+    where: { declaration_id: id },
+    include: {
+      items: {
+        orderBy: { line_no: 'asc' }
+      },
+      risk_scores: {
+        orderBy: { created_at: 'desc' }
+      },
+      actions: {
+        orderBy: { created_at: 'desc' }
+      },
+      payments: {
+        orderBy: { created_at: 'desc' }
+      },
+      cases: {
+        orderBy: { opened_at: 'desc' }
+      },
+      audit: {
+        orderBy: { created_at: 'asc' }
+      }
+    }
+  });
+
+  if (!declaration) {
+    return NextResponse.json(
+      { error: "Declaration not found" },
+      { status: 404 }
+    );
+  }
+
+  const { items, risk_scores, actions, payments, cases, audit, ...summary } = declaration;
+
+  return NextResponse.json({
+    declaration: {
+      ...summary,
+      consignee_phones: summary.consignee_phones ? JSON.parse(summary.consignee_phones) : [],
+      consignee_emails: summary.consignee_emails ? JSON.parse(summary.consignee_emails) : [],
+      transshipment_ports: summary.transshipment_ports ? JSON.parse(summary.transshipment_ports) : []
+    },
+    items,
+    risk_scores: {
+      latest: risk_scores[0] || null,
+      history: risk_scores
+    },
+    actions,
+    payments,
+    cases,
+    audit_trail: audit,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function getVersions(id: string) {
+  const history = await declarationLifecycle.getVersions(id);
+
+  return NextResponse.json({
+    declaration_id: id,
+    ...history,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function diffVersions(request: NextRequest, id: string) {
+  const { searchParams } = new URL(request.url);
+  const from = parseInt(searchParams.get('from') || '');
+  const to = parseInt(searchParams.get('to') || '');
+
+  if (isNaN(from) || isNaN(to)) {
+    return NextResponse.json(
+      { error: "from and to version numbers are required" },
+      { status: 400 }
+    );
+  }
+
+  const changes = await declarationLifecycle.diffVersions(id, from, to);
+
+  return NextResponse.json({
+    declaration_id: id,
+    from_version: from,
+    to_version: to,
+    changes,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function amendDeclaration(request: NextRequest, id: string) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to amend a declaration" },
+      { status: 405 }
+    );
+  }
+
+  let body = await request.json();
+  if (Array.isArray(body?.items)) {
+    // Foreign-currency invoice values are converted at the rate on the (possibly amended) lodgement date
+    const current = await db.declaration.findUnique({
+      where: { declaration_id: id },
+      select: { lodgement_ts: true }
+    });
+    try {
+      body = await fxRateService.convertInvoiceValues(
+        body,
+        body.lodgement_ts ? new Date(body.lodgement_ts) : current?.lodgement_ts
+      );
+    } catch (error) {
+      if (!(error instanceof FxRateError)) throw error;
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 422 }
+      );
+    }
+  }
+
+  const parsed = declarationAmendmentSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      },
+      { status: 400 }
+    );
+  }
+
+  const businessRuleErrors = validateBusinessRules(parsed.data);
+  if (businessRuleErrors.length > 0) {
+    return NextResponse.json(
+      { error: 'Business rule validation failed', details: businessRuleErrors },
+      { status: 422 }
+    );
+  }
+
+  if (parsed.data.items) {
+    const current = await db.declaration.findUnique({
+      where: { declaration_id: id },
+      select: { lodgement_ts: true }
+    });
+    const lodgement = parsed.data.lodgement_ts ? new Date(parsed.data.lodgement_ts) : current?.lodgement_ts;
+    const hsErrors = await hsNomenclature.validateDeclaredCodes(parsed.data.items, lodgement || new Date());
+    if (hsErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'HS code validation failed', details: hsErrors },
+        { status: 422 }
+      );
+    }
+  }
+
+  const result = await declarationLifecycle.amend(id, parsed.data, getActor(request));
+
+  return NextResponse.json({
+    message: `Declaration amended to version ${result.version}`,
+    ...result,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function requestCancellation(request: NextRequest, id: string) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to request a cancellation" },
+      { status: 405 }
+    );
+  }
+
+  const body = await request.json();
+  if (!body.reason || typeof body.reason !== 'string') {
+    return NextResponse.json(
+      { error: "A cancellation reason is required" },
+      { status: 400 }
+    );
+  }
+
+  const cancellation = await declarationLifecycle.requestCancellation(id, body.reason, getActor(request));
+
+  return NextResponse.json({
+    message: "Cancellation requested; awaiting approval",
+    cancellation,
+    timestamp: new Date().toISOString()
+  }, { status: 202 });
+}
+
+async function decideCancellation(request: NextRequest, id: string, approve: boolean) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: `Use POST to ${approve ? 'approve' : 'reject'} a cancellation` },
+      { status: 405 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const cancellation = await declarationLifecycle.decideCancellation(id, approve, getActor(request), body.notes);
+
+  return NextResponse.json({
+    message: approve ? "Declaration cancelled" : "Cancellation rejected",
+    cancellation,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withObservability(
+  withAuth(handler, ['declaration:read']),
+  'declaration_detail'
+);
+
+export const POST = withObservability(
+  withAuth(handler, ['declaration:write']),
+  'declaration_detail'
+);
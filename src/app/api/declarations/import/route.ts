@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { bulkImportService, ImportFormat, ImportJobError } from "@/lib/declarations/bulk-import";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const IMPORT_ERROR_STATUS: Record<ImportJobError['code'], number> = {
+  NOT_FOUND: 404,
+  CONTENT_MISMATCH: 409,
+  ALREADY_COMPLETED: 409,
+  INVALID_FORMAT: 400
+};
+
+// The payload is the raw file body; the format comes from ?format= or the content type
+function detectFormat(request: NextRequest): ImportFormat | null {
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get('format') || '').toUpperCase();
+  if (format === 'CSV' || format === 'NDJSON') return format;
+
+  const contentType = request.headers.get('content-type') || '';
+  if (contentType.includes('text/csv')) return 'CSV';
+  if (contentType.includes('ndjson') || contentType.includes('jsonl')) return 'NDJSON';
+  return null;
+}
+
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (request.method === 'GET') {
+      const jobId = searchParams.get('job_id');
+      if (!jobId) {
+        return NextResponse.json(
+          { error: "job_id parameter is required" },
+          { status: 400 }
+        );
+      }
+
+      const job = await bulkImportService.getJob(jobId);
+      return NextResponse.json({
+        job,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const format = detectFormat(request);
+    if (!format) {
+      return NextResponse.json(
+        { error: "Specify format=csv or format=ndjson, or send text/csv or application/x-ndjson" },
+        { status: 400 }
+      );
+    }
+
+    const content = await request.text();
+    if (!content.trim()) {
+      return NextResponse.json(
+        { error: "Import payload is empty" },
+        { status: 400 }
+      );
+    }
+
+    const user = (request as any).user;
+    const job = await bulkImportService.import(content, {
+      format,
+      sourceName: searchParams.get('source') || undefined,
+      score: searchParams.get('score') === 'true',
+      chunkSize: parseInt(searchParams.get('chunk_size') || '') || undefined,
+      resumeJobId: searchParams.get('resume_job_id') || undefined,
+      createdBy: user.email,
+      createdByRole: user.role
+    });
+
+    return NextResponse.json({
+      message: job.status === 'COMPLETED'
+        ? `Imported ${job.succeeded} declarations, ${job.failed} failed`
+        : `Import stopped after ${job.processed_records} of ${job.total_records} records; resume with resume_job_id=${job.id}`,
+      job,
+      timestamp: new Date().toISOString()
+    }, { status: job.status === 'COMPLETED' ? 200 : 500 });
+
+  } catch (error) {
+    if (error instanceof ImportJobError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: IMPORT_ERROR_STATUS[error.code] }
+      );
+    }
+
+    console.error("Declaration import error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withObservability(withAuth(handler, ['declaration:read']), 'declaration_import');
+export const POST = withObservability(withAuth(handler, ['declaration:write']), 'declaration_import');
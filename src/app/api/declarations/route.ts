@@ -5,6 +5,8 @@ import { withAuth } from "@/middleware/auth";
 import { withIdempotency } from "@/lib/middleware/idempotency";
 import { withValidation } from "@/lib/validation/middleware";
 import { declarationSchema } from "@/lib/validation/schemas";
+import { hsNomenclature } from "@/lib/tariff/nomenclature";
+import { fxRateService, FxRateError } from "@/lib/fx/rates";
 import { withObservability } from "@/lib/observability/middleware";
 
 const handler = withValidation(
@@ -25,6 +27,14 @@ const handler = withValidation(
         );
       }
 
+      const hsErrors = await hsNomenclature.validateDeclaredCodes(items, new Date(lodgement_ts));
+      if (hsErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'HS code validation failed', details: hsErrors },
+          { status: 422 }
+        );
+      }
+
       // Create declaration with items
       const declaration = await db.declaration.create({
         data: {
@@ -55,6 +65,8 @@ const handler = withValidation(
               gross_weight_kg: item.gross_weight_kg || null,
               net_weight_kg: item.net_weight_kg || null,
               invoice_value_usd: item.invoice_value_usd,
+              invoice_currency: item.invoice_currency || null,
+              invoice_value: item.invoice_value ?? null,
               incoterm: item.incoterm || null,
               country_origin: item.country_origin || null,
               brand: item.brand || null,
@@ -80,9 +92,158 @@ const handler = withValidation(
         { status: 500 }
       );
     }
+  },
+  {
+    // Items invoiced in other currencies get invoice_value_usd at the official rate on lodgement
+    preprocess: async (body: any) => {
+      try {
+        return { data: await fxRateService.convertInvoiceValues(body) };
+      } catch (error) {
+        if (error instanceof FxRateError) return { error: error.message };
+        throw error;
+      }
+    }
   }
 );
 
+const SORT_FIELDS = ['lodgement_ts', 'created_at', 'declaration_id', 'arrival_port', 'status'];
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/**
+ * Search declarations. Item filters (HS prefix, origin and description terms) must
+ * all match the same item line. Pages are addressed by the id of the last row of
+ * the previous page.
+ */
+const listHandler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const cursor = searchParams.get('cursor');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || `${DEFAULT_LIMIT}`) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const sort = searchParams.get('sort') || 'lodgement_ts';
+    const order = searchParams.get('order') === 'asc' ? 'asc' : 'desc';
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const minRisk = searchParams.get('min_risk');
+    const hsPrefix = searchParams.get('hs_prefix');
+    const origin = searchParams.get('origin');
+    const query = searchParams.get('q');
+
+    if (!SORT_FIELDS.includes(sort)) {
+      return NextResponse.json(
+        { error: `sort must be one of ${SORT_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json(
+        { error: "from and to must be valid dates" },
+        { status: 400 }
+      );
+    }
+
+    const minRiskScore = minRisk !== null ? parseFloat(minRisk) : null;
+    if (minRiskScore !== null && (isNaN(minRiskScore) || minRiskScore < 0 || minRiskScore > 1)) {
+      return NextResponse.json(
+        { error: "min_risk must be a number between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    const where: any = {};
+    for (const field of ['status', 'channel', 'arrival_port', 'consignee_tin', 'declarant_license_id']) {
+      const value = searchParams.get(field);
+      if (value) where[field] = value;
+    }
+
+    if (fromDate || toDate) {
+      where.lodgement_ts = {
+        ...(fromDate ? { gte: fromDate } : {}),
+        ...(toDate ? { lte: toDate } : {})
+      };
+    }
+
+    // Any scoring run at or above the minimum counts, not only the latest one
+    if (minRiskScore !== null) {
+      where.risk_scores = { some: { overall: { gte: minRiskScore } } };
+    }
+
+    const itemConditions: any[] = [];
+    if (hsPrefix) itemConditions.push({ declared_hs: { startsWith: hsPrefix.replace(/\D/g, '') } });
+    if (origin) itemConditions.push({ country_origin: origin.toUpperCase() });
+    if (query) {
+      query.split(/\s+/).filter(Boolean).forEach(term => {
+        itemConditions.push({ declared_desc: { contains: term, mode: 'insensitive' } });
+      });
+    }
+    if (itemConditions.length > 0) {
+      where.items = { some: { AND: itemConditions } };
+    }
+
+    const declarations = await db.declaration.findMany({
+      where,
+      include: {
+        items: {
+          select: { line_no: true, declared_hs: true, declared_desc: true, invoice_value_usd: true, country_origin: true },
+          orderBy: { line_no: 'asc' }
+        },
+        risk_scores: {
+          select: { overall: true, created_at: true },
+          orderBy: { created_at: 'desc' },
+          take: 1
+        },
+        _count: {
+          select: { actions: true, cases: true }
+        }
+      },
+      orderBy: [{ [sort]: order }, { id: order }],
+      take: limit + 1,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    });
+
+    const hasMore = declarations.length > limit;
+    const page = hasMore ? declarations.slice(0, limit) : declarations;
+
+    return NextResponse.json({
+      declarations: page.map(declaration => ({
+        id: declaration.id,
+        declaration_id: declaration.declaration_id,
+        arrival_port: declaration.arrival_port,
+        lodgement_ts: declaration.lodgement_ts,
+        channel: declaration.channel,
+        status: declaration.status,
+        consignee_tin: declaration.consignee_tin,
+        consignee_name: declaration.consignee_name,
+        declarant_license_id: declaration.declarant_license_id,
+        item_count: declaration.items.length,
+        total_invoice_value_usd: declaration.items.reduce((sum, item) => sum + item.invoice_value_usd, 0),
+        items: declaration.items,
+        latest_risk_score: declaration.risk_scores[0]?.overall ?? null,
+        action_count: declaration._count.actions,
+        case_count: declaration._count.cases
+      })),
+      next_cursor: hasMore ? page[page.length - 1].id : null,
+      has_more: hasMore,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Error searching declarations:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withObservability(
+  withAuth(listHandler, ['declaration:read']),
+  'declarations'
+);
+
 export const POST = withObservability(
   withAuth(
     withIdempotency(handler, 'declarations'), 
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fxRateService, FxRateError, DEFAULT_FX_SOURCE } from "@/lib/fx/rates";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'list';
+
+    if (action === 'list') {
+      return await listRates(request);
+    } else if (action === 'rate') {
+      return await getRate(request);
+    } else if (action === 'convert') {
+      return await convertAmount(request);
+    } else if (action === 'load') {
+      return await loadRates(request);
+    } else {
+      return NextResponse.json(
+        { error: "Invalid action parameter" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    if (error instanceof FxRateError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'RATE_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    console.error("FX rate API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+async function listRates(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const from = parseDate(searchParams.get('from'));
+  const to = parseDate(searchParams.get('to'));
+
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { error: "Invalid from or to date" },
+      { status: 400 }
+    );
+  }
+
+  const rates = await fxRateService.listRates({
+    currency: searchParams.get('currency') || undefined,
+    from,
+    to,
+    limit: parseInt(searchParams.get('limit') || '') || undefined
+  });
+
+  return NextResponse.json({
+    rates,
+    total: rates.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function getRate(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const currency = searchParams.get('currency');
+  const date = parseDate(searchParams.get('date')) ?? new Date();
+
+  if (!currency) {
+    return NextResponse.json(
+      { error: "currency parameter is required" },
+      { status: 400 }
+    );
+  }
+  if (isNaN(date.getTime())) {
+    return NextResponse.json(
+      { error: "Invalid date" },
+      { status: 400 }
+    );
+  }
+
+  const rate = await fxRateService.getRate(currency, date, searchParams.get('source') || DEFAULT_FX_SOURCE);
+
+  return NextResponse.json({
+    ...rate,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function convertAmount(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const amount = Number(searchParams.get('amount'));
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  const date = parseDate(searchParams.get('date')) ?? new Date();
+
+  if (!from || !to || searchParams.get('amount') === null || isNaN(amount)) {
+    return NextResponse.json(
+      { error: "amount, from and to parameters are required" },
+      { status: 400 }
+    );
+  }
+  if (isNaN(date.getTime())) {
+    return NextResponse.json(
+      { error: "Invalid date" },
+      { status: 400 }
+    );
+  }
+
+  const conversion = await fxRateService.convert(amount, from, to, date);
+
+  return NextResponse.json({
+    original_amount: amount,
+    ...conversion,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function loadRates(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to load exchange rates" },
+      { status: 405 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const content = await request.text();
+  if (!content.trim()) {
+    return NextResponse.json(
+      { error: "CSV payload is empty" },
+      { status: 400 }
+    );
+  }
+
+  const user = (request as any).user;
+  const result = await fxRateService.loadCsv(content, {
+    source: searchParams.get('source') || undefined,
+    dryRun: searchParams.get('dry_run') === 'true',
+    loadedBy: user.email
+  });
+
+  if (result.errors.length > 0) {
+    return NextResponse.json({
+      error: "Rate file has errors; nothing was loaded",
+      result,
+      timestamp: new Date().toISOString()
+    }, { status: 422 });
+  }
+
+  return NextResponse.json({
+    message: result.dry_run ? "Rate file validated" : `Loaded ${result.loaded} exchange rates`,
+    result,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withObservability(withAuth(handler, ['declaration:read']), 'fx_rates');
+export const POST = withObservability(withAuth(handler, ['fx:write']), 'fx_rates');
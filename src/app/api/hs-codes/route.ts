@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hsNomenclature, HsLevel } from "@/lib/tariff/nomenclature";
+import { hsNomenclatureLoader } from "@/lib/tariff/loader";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const HS_LEVELS: HsLevel[] = ['CHAPTER', 'HEADING', 'SUBHEADING', 'TARIFF_LINE'];
+
+function parseAsOf(request: NextRequest): Date | null {
+  const { searchParams } = new URL(request.url);
+  const asOf = searchParams.get('as_of');
+  if (!asOf) return new Date();
+
+  const date = new Date(asOf);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'lookup';
+
+    if (action === 'lookup') {
+      return await lookupCode(request);
+    } else if (action === 'children') {
+      return await getChildren(request);
+    } else if (action === 'search') {
+      return await searchCodes(request);
+    } else if (action === 'load') {
+      return await loadNomenclature(request);
+    } else {
+      return NextResponse.json(
+        { error: "Invalid action parameter" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("HS code API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+async function lookupCode(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get('code');
+  const asOf = parseAsOf(request);
+
+  if (!code) {
+    return NextResponse.json(
+      { error: "code parameter is required" },
+      { status: 400 }
+    );
+  }
+  if (!asOf) {
+    return NextResponse.json(
+      { error: "Invalid as_of date" },
+      { status: 400 }
+    );
+  }
+
+  const result = await hsNomenclature.lookup(code, asOf);
+  if (!result) {
+    return NextResponse.json(
+      { error: `HS code ${code} not found in the nomenclature in force on ${asOf.toISOString().substring(0, 10)}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    ...result,
+    children: await hsNomenclature.getChildren(result.entry.code, asOf),
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function getChildren(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const asOf = parseAsOf(request);
+
+  if (!asOf) {
+    return NextResponse.json(
+      { error: "Invalid as_of date" },
+      { status: 400 }
+    );
+  }
+
+  const entries = await hsNomenclature.getChildren(searchParams.get('code'), asOf);
+
+  return NextResponse.json({
+    code: searchParams.get('code'),
+    entries,
+    total: entries.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function searchCodes(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('q');
+  const level = searchParams.get('level')?.toUpperCase() as HsLevel | undefined;
+  const asOf = parseAsOf(request);
+
+  if (!query || query.trim().length < 2) {
+    return NextResponse.json(
+      { error: "q parameter of at least 2 characters is required" },
+      { status: 400 }
+    );
+  }
+  if (level && !HS_LEVELS.includes(level)) {
+    return NextResponse.json(
+      { error: `level must be one of: ${HS_LEVELS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (!asOf) {
+    return NextResponse.json(
+      { error: "Invalid as_of date" },
+      { status: 400 }
+    );
+  }
+
+  const entries = await hsNomenclature.search(query.trim(), {
+    level,
+    limit: parseInt(searchParams.get('limit') || '') || undefined,
+    asOf
+  });
+
+  return NextResponse.json({
+    query,
+    entries,
+    total: entries.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function loadNomenclature(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to load the HS nomenclature" },
+      { status: 405 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const content = await request.text();
+  if (!content.trim()) {
+    return NextResponse.json(
+      { error: "CSV payload is empty" },
+      { status: 400 }
+    );
+  }
+
+  const user = (request as any).user;
+  const result = await hsNomenclatureLoader.loadCsv(content, {
+    effectiveFrom: searchParams.get('effective_from') || undefined,
+    dryRun: searchParams.get('dry_run') === 'true',
+    loadedBy: user.email
+  });
+
+  if (result.errors.length > 0) {
+    return NextResponse.json({
+      error: "Nomenclature file has errors; nothing was loaded",
+      result,
+      timestamp: new Date().toISOString()
+    }, { status: 422 });
+  }
+
+  return NextResponse.json({
+    message: result.dry_run ? "Nomenclature load validated" : "Nomenclature loaded successfully",
+    result,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withObservability(withAuth(handler, ['declaration:read']), 'hs_codes');
+export const POST = withObservability(withAuth(handler, ['tariff:write']), 'hs_codes');
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { asycudaAdapter, AsycudaAdapterError } from "@/lib/integrations/asycuda";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+// Webhook for the clearance system's SAD XML exports; the body is the raw XML message
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const content = await request.text();
+
+    if (!content.trim()) {
+      return NextResponse.json(
+        { error: "XML payload is empty" },
+        { status: 400 }
+      );
+    }
+
+    // dry_run maps and validates without storing, for checking an export against the adapter
+    if (searchParams.get('dry_run') === 'true') {
+      const declarations = await asycudaAdapter.parse(content);
+
+      return NextResponse.json({
+        received: declarations.length,
+        valid: declarations.filter(declaration => declaration.errors.length === 0).length,
+        declarations,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const user = (request as any).user;
+    const result = await asycudaAdapter.ingest(content, {
+      source: searchParams.get('source') || 'webhook',
+      score: searchParams.get('score') === 'true',
+      actor: { id: user.email, role: user.role }
+    });
+
+    return NextResponse.json({
+      message: `Accepted ${result.accepted.length} of ${result.received} declarations`,
+      ...result,
+      timestamp: new Date().toISOString()
+    }, { status: result.accepted.length === 0 ? 422 : 200 });
+
+  } catch (error) {
+    if (error instanceof AsycudaAdapterError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+
+    console.error("ASYCUDA webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const POST = withObservability(withAuth(handler, ['declaration:write']), 'asycuda_webhook');
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { moneySavedCalculator } from "@/lib/attribution/calculator";
+import { FxRateError } from "@/lib/fx/rates";
 import { withAuth } from "@/middleware/auth";
 import { withObservability } from "@/lib/observability/middleware";
 
@@ -11,6 +12,7 @@ const handler = async (request: NextRequest) => {
     const groupBy = searchParams.get('groupBy') || 'source';
     const includeVerifiedOnly = searchParams.get('verifiedOnly') === 'true';
     const minConfidence = parseFloat(searchParams.get('minConfidence') || '0.5');
+    const currency = searchParams.get('currency') || undefined;
 
     if (!from || !to) {
       return NextResponse.json(
@@ -21,13 +23,14 @@ const handler = async (request: NextRequest) => {
 
     const calculation = await moneySavedCalculator.calculateMoneySaved(from, to, {
       includeVerifiedOnly,
-      minConfidence
+      minConfidence,
+      reportingCurrency: currency
     });
 
     // Get detailed report if requested
     let detailedReport = null;
     if (groupBy !== 'source') {
-      detailedReport = await moneySavedCalculator.getAttributionReport(from, to, groupBy as any);
+      detailedReport = await moneySavedCalculator.getAttributionReport(from, to, groupBy as any, currency);
     }
 
     return NextResponse.json({
@@ -38,12 +41,20 @@ const handler = async (request: NextRequest) => {
         to,
         groupBy,
         includeVerifiedOnly,
-        minConfidence
+        minConfidence,
+        currency: calculation.calculation_metadata.currency
       },
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
+    if (error instanceof FxRateError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'INVALID_CURRENCY' ? 400 : 422 }
+      );
+    }
+
     console.error("Error calculating money saved KPI:", error);
     return NextResponse.json(
       { error: "Internal server error" },
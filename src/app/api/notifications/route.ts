@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { notificationService, NotificationPreferencesError } from "@/lib/notifications/service";
+import { hasPermission } from "@/lib/auth";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const DEFAULT_INBOX_LIMIT = 50;
+const MAX_INBOX_LIMIT = 200;
+const DEFAULT_DELIVERIES_LIMIT = 100;
+const MAX_DELIVERIES_LIMIT = 500;
+
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'inbox';
+
+    if (action === 'inbox') {
+      return await getInbox(request);
+    } else if (action === 'read') {
+      return await markRead(request);
+    } else if (action === 'preferences') {
+      return await handlePreferences(request);
+    } else if (action === 'deliveries') {
+      return await getDeliveries(request);
+    } else {
+      return NextResponse.json(
+        { error: "Invalid action parameter" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Notifications API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+async function getInbox(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const user = (request as any).user;
+
+  const inbox = await notificationService.getInbox(user.email, {
+    unreadOnly: searchParams.get('unread') === 'true',
+    limit: Math.min(Math.max(parseInt(searchParams.get('limit') || `${DEFAULT_INBOX_LIMIT}`) || DEFAULT_INBOX_LIMIT, 1), MAX_INBOX_LIMIT)
+  });
+
+  return NextResponse.json({
+    ...inbox,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function markRead(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to mark notifications as read" },
+      { status: 405 }
+    );
+  }
+
+  const user = (request as any).user;
+  const body = await request.json().catch(() => ({}));
+
+  if (body.ids !== undefined && !Array.isArray(body.ids)) {
+    return NextResponse.json(
+      { error: "ids must be an array of notification ids" },
+      { status: 400 }
+    );
+  }
+
+  const updated = await notificationService.markRead(user.email, body.ids);
+
+  return NextResponse.json({
+    updated,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function handlePreferences(request: NextRequest) {
+  const user = (request as any).user;
+
+  if (request.method !== 'POST') {
+    const preferences = await notificationService.getPreferences(user.email);
+    return NextResponse.json({
+      preferences,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const body = await request.json();
+
+  try {
+    const preferences = await notificationService.updatePreferences(user.email, {
+      channels: body.channels,
+      event_channels: body.event_channels,
+      phone: body.phone,
+      webhook_url: body.webhook_url,
+      quiet_hours_start: body.quiet_hours_start,
+      quiet_hours_end: body.quiet_hours_end,
+      timezone: body.timezone
+    });
+
+    return NextResponse.json({
+      message: "Notification preferences updated",
+      preferences,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (!(error instanceof NotificationPreferencesError)) throw error;
+    return NextResponse.json(
+      { error: error.message },
+      { status: 400 }
+    );
+  }
+}
+
+// Delivery log for all users, restricted to notification administrators
+async function getDeliveries(request: NextRequest) {
+  const user = (request as any).user;
+  if (!hasPermission(user.permissions, 'notifications:read')) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const deliveries = await notificationService.getDeliveries({
+    recipient: searchParams.get('recipient') || undefined,
+    eventType: searchParams.get('event_type') || undefined,
+    status: searchParams.get('status') || undefined,
+    limit: Math.min(Math.max(parseInt(searchParams.get('limit') || `${DEFAULT_DELIVERIES_LIMIT}`) || DEFAULT_DELIVERIES_LIMIT, 1), MAX_DELIVERIES_LIMIT)
+  });
+
+  return NextResponse.json({
+    deliveries,
+    total: deliveries.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withObservability(withAuth(handler), 'notifications_api');
+export const POST = withObservability(withAuth(handler), 'notifications_api');
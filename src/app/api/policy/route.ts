@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PolicyEngine, defaultPolicyPack, PolicyPack } from "@/lib/policy/engine";
+import { PolicyPackStatus, PolicyPackStoreError, policyPackStore, DEFAULT_POLICY_ENVIRONMENT } from "@/lib/policy/store";
+import { policyPackLinter } from "@/lib/policy/linter";
+import { policySimulator } from "@/lib/policy/simulation";
 import { withAuth } from "@/middleware/auth";
 
-let policyEngine = new PolicyEngine(defaultPolicyPack);
-
 const handler = async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
@@ -12,11 +12,25 @@ const handler = async (request: NextRequest) => {
     if (action === 'evaluate') {
       return await evaluatePolicy(request);
     } else if (action === 'get') {
-      return await getPolicyPack();
+      return await getPolicyPack(request);
     } else if (action === 'update') {
       return await updatePolicyPack(request);
+    } else if (action === 'lint') {
+      return await lintPolicyPack(request);
     } else if (action === 'rules') {
       return await manageRules(request);
+    } else if (action === 'versions') {
+      return await listVersions(request);
+    } else if (action === 'version') {
+      return await getVersion(request);
+    } else if (action === 'approve') {
+      return await transitionVersion(request, 'approve');
+    } else if (action === 'activate') {
+      return await transitionVersion(request, 'activate');
+    } else if (action === 'rollback') {
+      return await transitionVersion(request, 'rollback');
+    } else if (action === 'simulate') {
+      return await simulatePolicy(request);
     } else {
       return NextResponse.json(
         { error: "Invalid action parameter" },
@@ -24,6 +38,13 @@ const handler = async (request: NextRequest) => {
       );
     }
   } catch (error) {
+    if (error instanceof PolicyPackStoreError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'NOT_FOUND' ? 404 : 409 }
+      );
+    }
+
     console.error("Policy API error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -32,6 +53,11 @@ const handler = async (request: NextRequest) => {
   }
 };
 
+function getEnvironment(request: NextRequest): string {
+  const { searchParams } = new URL(request.url);
+  return searchParams.get('environment') || DEFAULT_POLICY_ENVIRONMENT;
+}
+
 async function evaluatePolicy(request: NextRequest) {
   const body = await request.json();
   const { declaration, riskScores, items } = body;
@@ -50,27 +76,32 @@ async function evaluatePolicy(request: NextRequest) {
     timestamp: new Date().toISOString()
   };
 
+  const policyEngine = await policyPackStore.getActiveEngine(getEnvironment(request));
   const result = policyEngine.evaluate(context);
 
   return NextResponse.json({
     result,
     context,
+    policy_version: policyEngine.getPolicyPack().version,
     timestamp: new Date().toISOString()
   });
 }
 
-async function getPolicyPack() {
-  const policyPack = policyEngine.getPolicyPack();
-  
+async function getPolicyPack(request: NextRequest) {
+  const active = await policyPackStore.getActive(getEnvironment(request));
+
   return NextResponse.json({
-    policyPack,
+    policyPack: active.policyPack,
+    version: active.version,
+    status: active.status,
+    activated_at: active.activated_at,
     timestamp: new Date().toISOString()
   });
 }
 
 async function updatePolicyPack(request: NextRequest) {
   const body = await request.json();
-  const { policyPack } = body;
+  const { policyPack, based_on } = body;
 
   if (!policyPack) {
     return NextResponse.json(
@@ -79,19 +110,52 @@ async function updatePolicyPack(request: NextRequest) {
     );
   }
 
-  // Validate policy pack structure
-  if (!policyPack.version || !policyPack.rules || !Array.isArray(policyPack.rules)) {
+  const lint = policyPackLinter.lint(policyPack);
+  if (!lint.valid) {
     return NextResponse.json(
-      { error: "Invalid policy pack structure" },
+      { error: "Policy pack failed validation", findings: lint.findings },
       { status: 400 }
     );
   }
 
-  policyEngine.updatePolicyPack(policyPack);
+  const user = (request as any).user;
+  const draft = await policyPackStore.createDraft(policyPack, user.email, {
+    environment: getEnvironment(request),
+    basedOn: based_on
+  });
 
   return NextResponse.json({
-    message: "Policy pack updated successfully",
-    policyPack,
+    message: "Policy pack saved as draft",
+    version: draft.version,
+    status: draft.status,
+    policyPack: draft.policyPack,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function lintPolicyPack(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to lint a policy pack" },
+      { status: 405 }
+    );
+  }
+
+  const body = await request.json();
+  const { policyPack } = body;
+
+  if (!policyPack) {
+    return NextResponse.json(
+      { error: "Policy pack data is required" },
+      { status: 400 }
+    );
+  }
+
+  const lint = policyPackLinter.lint(policyPack);
+
+  return NextResponse.json({
+    valid: lint.valid,
+    findings: lint.findings,
     timestamp: new Date().toISOString()
   });
 }
@@ -100,6 +164,7 @@ async function manageRules(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const ruleAction = searchParams.get('ruleAction');
   const ruleId = searchParams.get('ruleId');
+  const baseVersion = searchParams.get('baseVersion') || undefined;
 
   if (!ruleAction || !ruleId) {
     return NextResponse.json(
@@ -108,33 +173,156 @@ async function manageRules(request: NextRequest) {
     );
   }
 
-  let success = false;
-  let message = "";
+  if (ruleAction !== 'enable' && ruleAction !== 'disable') {
+    return NextResponse.json(
+      { error: "Invalid ruleAction. Use 'enable' or 'disable'" },
+      { status: 400 }
+    );
+  }
+
+  // Rule changes produce a new draft version; it takes effect once approved and activated
+  const user = (request as any).user;
+  const draft = await policyPackStore.toggleRule(ruleId, ruleAction === 'enable', user.email, {
+    environment: getEnvironment(request),
+    baseVersion
+  });
 
-  switch (ruleAction) {
-    case 'enable':
-      success = policyEngine.enableRule(ruleId);
-      message = success ? `Rule ${ruleId} enabled successfully` : `Rule ${ruleId} not found`;
-      break;
-    case 'disable':
-      success = policyEngine.disableRule(ruleId);
-      message = success ? `Rule ${ruleId} disabled successfully` : `Rule ${ruleId} not found`;
-      break;
-    default:
+  return NextResponse.json({
+    success: true,
+    message: `Rule ${ruleId} ${ruleAction}d in draft version ${draft.version}`,
+    ruleId,
+    ruleAction,
+    version: draft.version,
+    based_on: draft.based_on,
+    status: draft.status,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function simulatePolicy(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to run a policy simulation" },
+      { status: 405 }
+    );
+  }
+
+  const body = await request.json();
+  const { candidate_version, candidate_pack, baseline_version, days = 30, max_flips } = body;
+
+  if (!candidate_version && !candidate_pack) {
+    return NextResponse.json(
+      { error: "Either candidate_version or candidate_pack is required" },
+      { status: 400 }
+    );
+  }
+
+  if (candidate_pack) {
+    const lint = policyPackLinter.lint(candidate_pack);
+    if (!lint.valid) {
       return NextResponse.json(
-        { error: "Invalid ruleAction. Use 'enable' or 'disable'" },
+        { error: "Candidate pack failed validation", findings: lint.findings },
         { status: 400 }
       );
+    }
+  }
+
+  if (typeof days !== 'number' || days <= 0 || days > 365) {
+    return NextResponse.json(
+      { error: "days must be a number between 1 and 365" },
+      { status: 400 }
+    );
   }
 
+  const report = await policySimulator.simulate({
+    days,
+    environment: getEnvironment(request),
+    baselineVersion: baseline_version,
+    candidateVersion: candidate_version,
+    candidatePack: candidate_pack,
+    maxFlips: max_flips
+  });
+
   return NextResponse.json({
-    success,
-    message,
-    ruleId,
-    ruleAction,
+    report,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function listVersions(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status') as PolicyPackStatus | null;
+
+  const versions = await policyPackStore.listVersions(getEnvironment(request), status || undefined);
+
+  return NextResponse.json({
+    versions,
+    total: versions.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function getVersion(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const version = searchParams.get('version');
+
+  if (!version) {
+    return NextResponse.json(
+      { error: "version parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const stored = await policyPackStore.getVersion(version, getEnvironment(request));
+
+  return NextResponse.json({
+    ...stored,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function transitionVersion(request: NextRequest, transition: 'approve' | 'activate' | 'rollback') {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: `Use POST to ${transition} a policy pack version` },
+      { status: 405 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const version = searchParams.get('version');
+
+  if (!version) {
+    return NextResponse.json(
+      { error: "version parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const user = (request as any).user;
+  const environment = getEnvironment(request);
+
+  let stored;
+  switch (transition) {
+    case 'approve':
+      stored = await policyPackStore.approve(version, user.email, environment);
+      break;
+    case 'activate':
+      stored = await policyPackStore.activate(version, user.email, environment);
+      break;
+    case 'rollback':
+      stored = await policyPackStore.rollback(version, user.email, environment);
+      break;
+  }
+
+  return NextResponse.json({
+    message: `Policy pack version ${version} ${transition === 'rollback' ? 'rolled back to' : `${transition}d`}`,
+    version: stored.version,
+    status: stored.status,
+    environment,
     timestamp: new Date().toISOString()
   });
 }
 
 export const GET = withAuth(handler, ['policy:read']);
-export const POST = withAuth(handler, ['policy:write']);
\ No newline at end of file
+export const POST = withAuth(handler, ['policy:write']);
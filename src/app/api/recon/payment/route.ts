@@ -1,25 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { paymentMatcher, PaymentMatchingError } from "@/lib/recon/matching";
 
+const MATCHING_ERROR_STATUS: Record<PaymentMatchingError['code'], number> = {
+  NOT_FOUND: 404,
+  INVALID_CURRENCY: 400,
+  RATE_NOT_FOUND: 422,
+  ASSESSMENT_INCOMPLETE: 422
+};
+
+// The payment status is derived by the matcher; a status sent by the caller is ignored
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
     // Validate required fields
-    const { declaration_id, bank_ref, assessed, paid, fx_rate, status } = body;
+    const { declaration_id, bank_ref, assessed, paid, currency, fx_rate } = body;
     
-    if (!declaration_id || !bank_ref || assessed === undefined || paid === undefined || !status) {
+    if (!declaration_id || !bank_ref || typeof paid !== 'number') {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    // Validate status
-    const validStatuses = ["MATCH", "SHORT", "OVER", "DELAYED"];
-    if (!validStatuses.includes(status)) {
+    const paidAt = body.paid_at ? new Date(body.paid_at) : undefined;
+    if (paidAt && isNaN(paidAt.getTime())) {
       return NextResponse.json(
-        { error: "Invalid status" },
+        { error: "Invalid paid_at date" },
         { status: 400 }
       );
     }
@@ -44,94 +52,28 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Get declaration
-    const declaration = await db.declaration.findUnique({
-      where: { declaration_id }
-    });
-
-    if (!declaration) {
-      return NextResponse.json(
-        { error: "Declaration not found" },
-        { status: 404 }
-      );
-    }
-
-    // Calculate delta
-    const delta = paid - assessed;
-
-    // Create payment record
-    const payment = await db.payment.create({
-      data: {
-        declaration_id: declaration.id,
-        assessed,
-        paid,
-        fx_rate: fx_rate || null,
-        status,
-        bank_ref
-      }
-    });
-
-    // Create audit record
-    await db.audit.create({
-      data: {
-        event_id: `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        declaration_id: declaration.id,
-        actor: "system",
-        action: "PAYMENT_RECONCILED",
-        payload_hash: idempotencyKey || JSON.stringify({ bank_ref, status, delta })
-      }
-    });
-
-    // If payment is SHORT or DELAYED, create a PCA case automatically
-    if ((status === "SHORT" || status === "DELAYED") && Math.abs(delta) > 1000) {
-      const existingCase = await db.case.findFirst({
-        where: {
-          declaration_id: declaration.id,
-          status: "OPEN"
-        }
-      });
-
-      if (!existingCase) {
-        const caseId = `CASE-RECON-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
-        
-        await db.case.create({
-          data: {
-            case_id: caseId,
-            declaration_id: declaration.id,
-            type: "PCA",
-            expected_recovery: Math.abs(delta),
-            status: "OPEN"
-          }
-        });
-
-        // Create audit record for auto-generated case
-        await db.audit.create({
-          data: {
-            event_id: `case_auto_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            declaration_id: declaration.id,
-            actor: "system",
-            action: "CASE_AUTO_CREATED",
-            payload_hash: JSON.stringify({ case_id: caseId, reason: "Payment reconciliation" })
-          }
-        });
-      }
-    }
+    const payment = await paymentMatcher.reconcile(
+      { declaration_id, bank_ref, paid, currency, fx_rate, assessed, paid_at: paidAt },
+      { actor: "system", idempotencyKey: idempotencyKey || undefined }
+    );
 
     return NextResponse.json({
       message: "Payment reconciliation processed",
-      payment: {
-        declaration_id,
-        bank_ref,
-        assessed,
-        paid,
-        delta,
-        fx_rate,
-        status,
-        created_at: payment.created_at
-      }
+      payment
     });
 
   } catch (error) {
+    if (error instanceof PaymentMatchingError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          ...(error.details ? { unresolved: error.details } : {})
+        },
+        { status: MATCHING_ERROR_STATUS[error.code] }
+      );
+    }
+
     console.error("Error in payment reconciliation:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -188,16 +130,32 @@ export async function GET(request: NextRequest) {
       orderBy: { created_at: 'desc' }
     });
 
+    // Instalments accumulate, so only the latest payment per declaration says what was assessed and paid.
+    // Amounts are in the payment currency and are only added up within a currency.
+    const totalsByCurrency: Record<string, { declarations: number; assessed: number; paid: number; delta: number }> = {};
+    const counted = new Set<string>();
+    for (const payment of payments) {
+      if (counted.has(payment.declaration_id)) continue;
+      counted.add(payment.declaration_id);
+
+      const cumulativePaid = payment.cumulative_paid ?? payment.paid;
+      const totals = totalsByCurrency[payment.currency] || { declarations: 0, assessed: 0, paid: 0, delta: 0 };
+      totals.declarations++;
+      totals.assessed += payment.assessed;
+      totals.paid += cumulativePaid;
+      totals.delta += cumulativePaid - payment.assessed;
+      totalsByCurrency[payment.currency] = totals;
+    }
+
     // Calculate summary statistics
     const summary = {
       total_payments: payments.length,
-      total_assessed: payments.reduce((sum, p) => sum + p.assessed, 0),
-      total_paid: payments.reduce((sum, p) => sum + p.paid, 0),
-      total_delta: payments.reduce((sum, p) => sum + (p.paid - p.assessed), 0),
+      totals_by_currency: totalsByCurrency,
       match_count: payments.filter(p => p.status === 'MATCH').length,
       short_count: payments.filter(p => p.status === 'SHORT').length,
       over_count: payments.filter(p => p.status === 'OVER').length,
-      delayed_count: payments.filter(p => p.status === 'DELAYED').length
+      delayed_count: payments.filter(p => p.status === 'DELAYED').length,
+      duplicate_ref_count: payments.filter(p => p.flags?.includes('DUPLICATE_BANK_REF')).length
     };
 
     return NextResponse.json({
@@ -207,9 +165,14 @@ export async function GET(request: NextRequest) {
         bank_ref: payment.bank_ref,
         assessed: payment.assessed,
         paid: payment.paid,
-        delta: payment.paid - payment.assessed,
+        cumulative_paid: payment.cumulative_paid ?? payment.paid,
+        delta: (payment.cumulative_paid ?? payment.paid) - payment.assessed,
+        currency: payment.currency,
         fx_rate: payment.fx_rate,
         status: payment.status,
+        flags: payment.flags ? JSON.parse(payment.flags) : [],
+        paid_at: payment.paid_at,
+        due_at: payment.due_at,
         created_at: payment.created_at,
         arrival_port: payment.declaration?.arrival_port,
         lodgement_ts: payment.declaration?.lodgement_ts
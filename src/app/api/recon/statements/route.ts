@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { statementImportService } from "@/lib/recon/statement-import";
+import { StatementParseError, StatementFormat } from "@/lib/recon/statements";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const STATEMENT_FORMATS: StatementFormat[] = ['CAMT053', 'MT940'];
+
+// Treasury's daily bank statements; the body is the raw camt.053 XML or MT940 file
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format')?.toUpperCase().replace(/[^A-Z0-9]/g, '') as StatementFormat | undefined;
+    const content = await request.text();
+
+    if (!content.trim()) {
+      return NextResponse.json(
+        { error: "Statement file is empty" },
+        { status: 400 }
+      );
+    }
+    if (format && !STATEMENT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${STATEMENT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const user = (request as any).user;
+    const result = await statementImportService.import(content, {
+      format,
+      dryRun: searchParams.get('dry_run') === 'true',
+      actor: user.email
+    });
+
+    return NextResponse.json({
+      message: result.dry_run
+        ? `Statement checked: ${result.reconciled.length} of ${result.credits} credits would be reconciled`
+        : `Reconciled ${result.reconciled.length} of ${result.credits} credits; ${result.suspense.length} sent to suspense`,
+      result,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (error instanceof StatementParseError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+
+    console.error("Bank statement import error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const POST = withObservability(withAuth(handler, ['recon:write']), 'bank_statement_import');
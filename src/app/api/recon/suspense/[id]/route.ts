@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { suspenseQueue, SuspenseError } from "@/lib/recon/suspense";
+import { PaymentMatchingError } from "@/lib/recon/matching";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const SUSPENSE_ERROR_STATUS: Record<SuspenseError['code'], number> = {
+  NOT_FOUND: 404,
+  INVALID_STATE: 409
+};
+
+const MATCHING_ERROR_STATUS: Record<PaymentMatchingError['code'], number> = {
+  NOT_FOUND: 404,
+  INVALID_CURRENCY: 400,
+  RATE_NOT_FOUND: 422,
+  ASSESSMENT_INCOMPLETE: 422
+};
+
+const handler = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'detail';
+
+    if (action === 'detail') {
+      return NextResponse.json({
+        entry: await suspenseQueue.get(id),
+        timestamp: new Date().toISOString()
+      });
+    } else if (action === 'assign') {
+      return await assignEntry(request, id);
+    } else if (action === 'dismiss') {
+      return await dismissEntry(request, id);
+    } else {
+      return NextResponse.json(
+        { error: "Invalid action parameter" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    if (error instanceof SuspenseError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SUSPENSE_ERROR_STATUS[error.code] }
+      );
+    }
+    if (error instanceof PaymentMatchingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: MATCHING_ERROR_STATUS[error.code] }
+      );
+    }
+
+    console.error("Suspense entry error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+async function assignEntry(request: NextRequest, id: string) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to assign a suspense entry" },
+      { status: 405 }
+    );
+  }
+
+  const body = await request.json();
+  if (!body.declaration_id || typeof body.declaration_id !== 'string') {
+    return NextResponse.json(
+      { error: "declaration_id is required" },
+      { status: 400 }
+    );
+  }
+
+  const user = (request as any).user;
+  const result = await suspenseQueue.assign(id, body.declaration_id, user.email, body.notes);
+
+  return NextResponse.json({
+    message: `Entry reconciled against ${body.declaration_id} as ${result.payment.status}`,
+    ...result,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function dismissEntry(request: NextRequest, id: string) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to dismiss a suspense entry" },
+      { status: 405 }
+    );
+  }
+
+  const body = await request.json();
+  if (!body.notes || typeof body.notes !== 'string') {
+    return NextResponse.json(
+      { error: "notes explaining the dismissal are required" },
+      { status: 400 }
+    );
+  }
+
+  const user = (request as any).user;
+  const entry = await suspenseQueue.dismiss(id, user.email, body.notes);
+
+  return NextResponse.json({
+    message: "Suspense entry dismissed",
+    entry,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withObservability(withAuth(handler, ['recon:read']), 'suspense_entry');
+export const POST = withObservability(withAuth(handler, ['recon:write']), 'suspense_entry');
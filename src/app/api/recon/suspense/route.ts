@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { suspenseQueue, SuspenseReason, SuspenseStatus } from "@/lib/recon/suspense";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const SUSPENSE_STATUSES: SuspenseStatus[] = ['OPEN', 'RESOLVED', 'DISMISSED'];
+const SUSPENSE_REASONS: SuspenseReason[] = ['NO_MATCH', 'AMBIGUOUS', 'REJECTED'];
+
+// Review queue of statement credits that could not be matched to a declaration
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status')?.toUpperCase() as SuspenseStatus | undefined;
+    const reason = searchParams.get('reason')?.toUpperCase() as SuspenseReason | undefined;
+
+    if (status && !SUSPENSE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${SUSPENSE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (reason && !SUSPENSE_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { error: `reason must be one of: ${SUSPENSE_REASONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await suspenseQueue.list({
+      status,
+      reason,
+      limit: parseInt(searchParams.get('limit') || '') || undefined,
+      offset: parseInt(searchParams.get('offset') || '') || undefined
+    });
+
+    return NextResponse.json({
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error("Suspense queue error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withObservability(withAuth(handler, ['recon:read']), 'suspense_queue');
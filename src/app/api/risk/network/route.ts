@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { networkRiskService } from "@/lib/risk/network";
+import { withAuth } from "@/middleware/auth";
+import { withObservability } from "@/lib/observability/middleware";
+
+const REBUILD_BATCH_SIZE = 200;
+
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'neighbours';
+
+    if (action === 'neighbours') {
+      return await getNeighbours(request);
+    } else if (action === 'assess') {
+      return await assessDeclaration(request);
+    } else if (action === 'rebuild') {
+      return await rebuildGraph(request);
+    } else {
+      return NextResponse.json(
+        { error: "Invalid action parameter" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Network risk API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+async function getNeighbours(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const declarationId = searchParams.get('declaration_id');
+
+  if (!declarationId) {
+    return NextResponse.json(
+      { error: "declaration_id parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const neighbours = await networkRiskService.getNeighbours(declarationId);
+
+  return NextResponse.json({
+    declaration_id: declarationId,
+    neighbours,
+    total: neighbours.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Re-index one declaration and explain its network score without storing a risk score
+async function assessDeclaration(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to assess network risk" },
+      { status: 405 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const declarationId = searchParams.get('declaration_id');
+  if (!declarationId) {
+    return NextResponse.json(
+      { error: "declaration_id parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const declaration = await db.declaration.findUnique({ where: { declaration_id: declarationId } });
+  if (!declaration) {
+    return NextResponse.json(
+      { error: "Declaration not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    declaration_id: declarationId,
+    ...(await networkRiskService.assess(declaration)),
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Index every declaration, e.g. after loading history or changing the resolution rules
+async function rebuildGraph(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to rebuild the entity graph" },
+      { status: 405 }
+    );
+  }
+
+  let indexed = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const declarations = await db.declaration.findMany({
+      orderBy: { id: 'asc' },
+      take: REBUILD_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+    if (declarations.length === 0) break;
+
+    for (const declaration of declarations) {
+      await networkRiskService.indexDeclaration(declaration);
+    }
+    indexed += declarations.length;
+    cursor = declarations[declarations.length - 1].id;
+  }
+
+  const user = (request as any).user;
+  await db.audit.create({
+    data: {
+      event_id: `network_rebuild_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      actor: user.email,
+      action: 'NETWORK_GRAPH_REBUILT',
+      payload_hash: JSON.stringify({ indexed })
+    }
+  });
+
+  return NextResponse.json({
+    message: `Indexed ${indexed} declarations`,
+    indexed,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withObservability(withAuth(handler, ['risk:read']), 'network_risk');
+export const POST = withObservability(withAuth(handler, ['risk:write']), 'network_risk');
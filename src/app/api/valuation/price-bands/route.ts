@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { priceBandBuilder } from "@/lib/valuation/band-builder";
+import { withAuth } from "@/middleware/auth";
+
+const handler = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || 'list';
+
+    if (action === 'list') {
+      return await listBands(request);
+    } else if (action === 'build') {
+      return await buildBands(request);
+    } else {
+      return NextResponse.json(
+        { error: "Invalid action parameter" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Price band API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+async function listBands(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const bands = await priceBandBuilder.listBands({
+    hs6: searchParams.get('hs6') || undefined,
+    origin: searchParams.get('origin') || undefined,
+    version: searchParams.get('version') || undefined,
+    limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : undefined
+  });
+
+  return NextResponse.json({
+    bands,
+    total: bands.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function buildBands(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to build price bands" },
+      { status: 405 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { window_days, min_sample_count, winsor_lower, winsor_upper, dry_run = false } = body;
+
+  if (winsor_lower !== undefined && winsor_upper !== undefined && winsor_lower >= winsor_upper) {
+    return NextResponse.json(
+      { error: "winsor_lower must be less than winsor_upper" },
+      { status: 400 }
+    );
+  }
+
+  const user = (request as any).user;
+  const result = await priceBandBuilder.buildBands({
+    windowDays: window_days,
+    minSampleCount: min_sample_count,
+    winsorLower: winsor_lower,
+    winsorUpper: winsor_upper,
+    dryRun: dry_run,
+    builtBy: user.email
+  });
+
+  return NextResponse.json({
+    message: dry_run ? "Price band build simulated" : "Price bands built successfully",
+    result,
+    timestamp: new Date().toISOString()
+  });
+}
+
+export const GET = withAuth(handler, ['risk:read']);
+export const POST = withAuth(handler, ['risk:write']);
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { holdStopWorkflowManager } from "@/lib/workflow/manager";
+import { holdStopWorkflowManager, WorkflowConcurrencyError, WorkflowNotFoundError } from "@/lib/workflow/manager";
+import { escalationEngine } from "@/lib/workflow/escalation";
+import { WorkflowActor, WorkflowTransitionError, workflowStateMachine } from "@/lib/workflow/state-machine";
 import { withAuth } from "@/middleware/auth";
 import { withObservability } from "@/lib/observability/middleware";
 
@@ -10,6 +12,8 @@ const handler = async (request: NextRequest) => {
 
     if (action === 'create') {
       return await createWorkflow(request);
+    } else if (action === 'get') {
+      return await getWorkflow(request);
     } else if (action === 'release') {
       return await releaseWorkflow(request);
     } else if (action === 'escalate') {
@@ -20,6 +24,10 @@ const handler = async (request: NextRequest) => {
       return await getWorkflowStats(request);
     } else if (action === 'check-expired') {
       return await checkExpiredWorkflows();
+    } else if (action === 'roster') {
+      return await getDutyRoster(request);
+    } else if (action === 'assign-duty') {
+      return await assignDuty(request);
     } else {
       return NextResponse.json(
         { error: "Invalid action parameter" },
@@ -27,6 +35,27 @@ const handler = async (request: NextRequest) => {
       );
     }
   } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, workflow_id: error.workflowId, transition: error.transition },
+        { status: error.code === 'FORBIDDEN' ? 403 : 409 }
+      );
+    }
+
+    if (error instanceof WorkflowNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof WorkflowConcurrencyError) {
+      return NextResponse.json(
+        { error: error.message, workflow_id: error.workflowId },
+        { status: 409 }
+      );
+    }
+
     console.error("Workflow API error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -35,6 +64,11 @@ const handler = async (request: NextRequest) => {
   }
 };
 
+function getActor(request: NextRequest): WorkflowActor {
+  const user = (request as any).user;
+  return { id: user.email, role: user.role };
+}
+
 async function createWorkflow(request: NextRequest) {
   const body = await request.json();
   const { 
@@ -70,8 +104,8 @@ async function createWorkflow(request: NextRequest) {
     user.email,
     {
       priority,
-      sla_minutes,
-      assigned_to,
+      slaMinutes: sla_minutes,
+      assignedTo: assigned_to,
       ruleIds: rule_ids,
       metadata
     }
@@ -84,6 +118,35 @@ async function createWorkflow(request: NextRequest) {
   });
 }
 
+async function getWorkflow(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const workflowId = searchParams.get('workflow_id');
+
+  if (!workflowId) {
+    return NextResponse.json(
+      { error: "workflow_id parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const workflow = await holdStopWorkflowManager.getWorkflow(workflowId);
+  if (!workflow) {
+    return NextResponse.json(
+      { error: "Workflow not found" },
+      { status: 404 }
+    );
+  }
+
+  const actions = await holdStopWorkflowManager.getWorkflowActions(workflowId);
+
+  return NextResponse.json({
+    workflow,
+    actions,
+    available_transitions: workflowStateMachine.availableTransitions(workflow, getActor(request)),
+    timestamp: new Date().toISOString()
+  });
+}
+
 async function releaseWorkflow(request: NextRequest) {
   const body = await request.json();
   const { workflow_id, reason, notes } = body;
@@ -95,24 +158,28 @@ async function releaseWorkflow(request: NextRequest) {
     );
   }
 
-  const user = (request as any).user;
-  const success = await holdStopWorkflowManager.releaseWorkflow(
+  const workflow = await holdStopWorkflowManager.releaseWorkflow(
     workflow_id,
-    user.email,
+    getActor(request),
     reason,
     notes
   );
 
-  if (!success) {
-    return NextResponse.json(
-      { error: "Failed to release workflow" },
-      { status: 500 }
-    );
+  // CRITICAL workflows stay in place until a second officer authorises the release
+  if (workflow.status !== 'RELEASED') {
+    return NextResponse.json({
+      message: "Release authorisation recorded; a second officer must authorise the release",
+      workflow_id,
+      status: workflow.status,
+      awaiting_second_authorisation: true,
+      timestamp: new Date().toISOString()
+    }, { status: 202 });
   }
 
   return NextResponse.json({
     message: "Workflow released successfully",
     workflow_id,
+    status: workflow.status,
     timestamp: new Date().toISOString()
   });
 }
@@ -128,24 +195,17 @@ async function escalateWorkflow(request: NextRequest) {
     );
   }
 
-  const user = (request as any).user;
-  const success = await holdStopWorkflowManager.escalateWorkflow(
+  const workflow = await holdStopWorkflowManager.escalateWorkflow(
     workflow_id,
-    user.email,
+    getActor(request),
     reason,
     escalation_level
   );
 
-  if (!success) {
-    return NextResponse.json(
-      { error: "Failed to escalate workflow" },
-      { status: 500 }
-    );
-  }
-
   return NextResponse.json({
     message: "Workflow escalated successfully",
     workflow_id,
+    escalation_level: workflow.escalation_level,
     timestamp: new Date().toISOString()
   });
 }
@@ -168,25 +228,18 @@ async function reviewWorkflow(request: NextRequest) {
     );
   }
 
-  const user = (request as any).user;
-  const success = await holdStopWorkflowManager.reviewWorkflow(
+  const workflow = await holdStopWorkflowManager.reviewWorkflow(
     workflow_id,
-    user.email,
+    getActor(request),
     outcome,
     notes
   );
 
-  if (!success) {
-    return NextResponse.json(
-      { error: "Failed to review workflow" },
-      { status: 500 }
-    );
-  }
-
   return NextResponse.json({
     message: "Workflow reviewed successfully",
     workflow_id,
     outcome,
+    status: workflow.status,
     timestamp: new Date().toISOString()
   });
 }
@@ -214,5 +267,55 @@ async function checkExpiredWorkflows() {
   });
 }
 
+async function getDutyRoster(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const level = searchParams.get('level') || undefined;
+
+  const roster = await escalationEngine.getRoster({ level });
+
+  return NextResponse.json({
+    roster,
+    total: roster.length,
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function assignDuty(request: NextRequest) {
+  if (request.method !== 'POST') {
+    return NextResponse.json(
+      { error: "Use POST to assign duty" },
+      { status: 405 }
+    );
+  }
+
+  const body = await request.json();
+  const { level, user_email, starts_at, ends_at } = body;
+
+  if (!level || !user_email || !starts_at || !ends_at) {
+    return NextResponse.json(
+      { error: "Missing required fields: level, user_email, starts_at, ends_at" },
+      { status: 400 }
+    );
+  }
+
+  const startsAt = new Date(starts_at);
+  const endsAt = new Date(ends_at);
+  if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+    return NextResponse.json(
+      { error: "starts_at and ends_at must be valid dates with ends_at after starts_at" },
+      { status: 400 }
+    );
+  }
+
+  const user = (request as any).user;
+  const assignment = await escalationEngine.assignDuty(level, user_email, startsAt, endsAt, user.email);
+
+  return NextResponse.json({
+    message: "Duty assigned successfully",
+    assignment,
+    timestamp: new Date().toISOString()
+  });
+}
+
 export const GET = withObservability(withAuth(handler, ['workflow:read']), 'workflow_api');
 export const POST = withObservability(withAuth(handler, ['workflow:write']), 'workflow_api');
\ No newline at end of file
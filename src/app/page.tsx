@@ -1,12 +1,16 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useConsoleEvents } from "@/hooks/use-console-events";
+import { useAuthToken } from "@/hooks/use-auth-token";
 import { 
   TrendingUp, 
   DollarSign, 
@@ -51,23 +55,127 @@ interface CaseData {
 }
 
 interface ActionData {
+  id: string;
   declaration_id: string;
   action: string;
   reason: string;
   created_at: string;
   ttl_minutes?: number;
+  remaining_ttl_minutes?: number | null;
+  declaration?: {
+    arrival_port: string;
+  };
 }
 
+interface ActionFilters {
+  action: string;
+  port: string;
+  from: string;
+  to: string;
+}
+
+const authHeaders = (token: string | null): HeadersInit => {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
 export default function FRISDashboard() {
+  const { token, signIn, signOut } = useAuthToken();
+  const [credentials, setCredentials] = useState({ email: '', password: '' });
+  const [signInError, setSignInError] = useState<string | null>(null);
   const [kpiData, setKpiData] = useState<KPIData | null>(null);
   const [cases, setCases] = useState<CaseData[]>([]);
   const [actions, setActions] = useState<ActionData[]>([]);
+  const [actionFilters, setActionFilters] = useState<ActionFilters>({ action: 'HOLD,STOP', port: '', from: '', to: '' });
+  const [actionsCursor, setActionsCursor] = useState<string | null>(null);
+  const [actionsLoading, setActionsLoading] = useState(false);
+  const [actionsError, setActionsError] = useState<string | null>(null);
+  const actionsRequest = useRef(0); // bumped on every reload, so responses for older filters are dropped
   const [loading, setLoading] = useState(true);
+  const actionsSentinel = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     loadDashboardData();
   }, []);
 
+  useEffect(() => {
+    loadActions(true);
+  }, [actionFilters, token]);
+
+  // Load the next page when the end of the actions table scrolls into view
+  useEffect(() => {
+    const sentinel = actionsSentinel.current;
+    if (!sentinel || !actionsCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !actionsLoading) {
+        loadActions(false);
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [actionsCursor, actionsLoading]);
+
+  // New HOLD/STOP actions are pushed by the officer console as they are recorded
+  const { connected: live } = useConsoleEvents(token, ['action.created'], (event) => {
+    const action = event.data as ActionData;
+    const types = actionFilters.action === 'ALL' ? [] : actionFilters.action.split(',');
+    if (types.length > 0 && !types.includes(action.action)) return;
+    if (actionFilters.port && event.port?.toUpperCase() !== actionFilters.port.toUpperCase()) return;
+    if (actionFilters.from || actionFilters.to) return; // a fixed date range is not extended by live events
+
+    setActions(current => [
+      { ...action, remaining_ttl_minutes: action.ttl_minutes, declaration: { arrival_port: event.port || '' } },
+      ...current.filter(existing => existing.id !== action.id)
+    ]);
+  });
+
+  const loadActions = async (reset: boolean) => {
+    const requestId = reset ? ++actionsRequest.current : actionsRequest.current;
+    const isStale = () => requestId !== actionsRequest.current;
+
+    if (!token) {
+      setActions([]);
+      setActionsCursor(null);
+      setActionsError(null);
+      return;
+    }
+
+    setActionsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: '25' });
+      if (actionFilters.action !== 'ALL') params.set('action', actionFilters.action);
+      if (actionFilters.port) params.set('port', actionFilters.port);
+      if (actionFilters.from) params.set('from', new Date(actionFilters.from).toISOString());
+      if (actionFilters.to) params.set('to', new Date(`${actionFilters.to}T23:59:59`).toISOString());
+      if (!reset && actionsCursor) params.set('cursor', actionsCursor);
+
+      const response = await fetch(`/api/actions?${params}`, { headers: authHeaders(token) });
+      const result = await response.json().catch(() => ({}));
+      if (isStale()) return;
+
+      if (response.status === 401) {
+        // Expired or revoked token; show the sign-in form again
+        signOut();
+      } else if (response.ok) {
+        setActions(current => (reset ? result.actions : [...current, ...result.actions]));
+        setActionsCursor(result.next_cursor);
+        setActionsError(null);
+      } else {
+        if (reset) {
+          setActions([]);
+          setActionsCursor(null);
+        }
+        setActionsError(response.status === 403
+          ? 'Your role does not have permission to view enforcement actions'
+          : result.error || 'Actions could not be loaded');
+      }
+    } catch (error) {
+      console.error('Error loading actions:', error);
+    } finally {
+      if (!isStale()) setActionsLoading(false);
+    }
+  };
+
   const loadDashboardData = async () => {
     try {
       // Load KPI data
@@ -84,24 +192,6 @@ export default function FRISDashboard() {
         setCases(casesResult.cases || []);
       }
 
-      // Load recent actions (mock data for now)
-      setActions([
-        {
-          declaration_id: "DEC-2025-001",
-          action: "HOLD",
-          reason: "Severe undervaluation detected",
-          created_at: "2025-07-21T10:30:00Z",
-          ttl_minutes: 720
-        },
-        {
-          declaration_id: "DEC-2025-002",
-          action: "STOP",
-          reason: "Document forgery detected",
-          created_at: "2025-07-21T09:15:00Z",
-          ttl_minutes: 1440
-        }
-      ]);
-
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -109,6 +199,17 @@ export default function FRISDashboard() {
     }
   };
 
+  const handleSignIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSignInError(null);
+    try {
+      await signIn(credentials.email, credentials.password);
+      setCredentials({ email: '', password: '' });
+    } catch (error) {
+      setSignInError(error instanceof Error ? error.message : 'Sign in failed');
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-NG', {
       style: 'currency',
@@ -142,11 +243,42 @@ export default function FRISDashboard() {
             Fraud & Revenue Intelligence System - Nigeria Customs Service
           </p>
         </div>
-        <Button onClick={loadDashboardData} variant="outline">
-          Refresh Data
-        </Button>
+        <div className="flex items-center gap-2">
+          {token ? (
+            <Button onClick={signOut} variant="ghost">
+              Sign out
+            </Button>
+          ) : (
+            <form onSubmit={handleSignIn} className="flex items-center gap-2">
+              <Input
+                type="email"
+                placeholder="Email"
+                autoComplete="username"
+                value={credentials.email}
+                onChange={(e) => setCredentials(current => ({ ...current, email: e.target.value }))}
+              />
+              <Input
+                type="password"
+                placeholder="Password"
+                autoComplete="current-password"
+                value={credentials.password}
+                onChange={(e) => setCredentials(current => ({ ...current, password: e.target.value }))}
+              />
+              <Button type="submit">Sign in</Button>
+            </form>
+          )}
+          <Button onClick={() => { loadDashboardData(); loadActions(true); }} variant="outline">
+            Refresh Data
+          </Button>
+        </div>
       </div>
 
+      {signInError && (
+        <Alert variant="destructive">
+          <AlertDescription>{signInError}</AlertDescription>
+        </Alert>
+      )}
+
       {/* KPI Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
@@ -222,26 +354,73 @@ export default function FRISDashboard() {
           {/* Recent Actions */}
           <Card>
             <CardHeader>
-              <CardTitle>Recent HOLD/STOP Actions</CardTitle>
+              <CardTitle className="flex items-center gap-2">
+                Recent HOLD/STOP Actions
+                <Badge variant={live ? 'default' : 'outline'}>{live ? 'Live' : 'Offline'}</Badge>
+              </CardTitle>
               <CardDescription>
                 Latest fraud prevention actions taken by the system
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                <Select
+                  value={actionFilters.action}
+                  onValueChange={(value) => setActionFilters(current => ({ ...current, action: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Action" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="HOLD,STOP">HOLD and STOP</SelectItem>
+                    <SelectItem value="HOLD">HOLD</SelectItem>
+                    <SelectItem value="STOP">STOP</SelectItem>
+                    <SelectItem value="ESCALATE">ESCALATE</SelectItem>
+                    <SelectItem value="ALL">All actions</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Port"
+                  value={actionFilters.port}
+                  onChange={(e) => setActionFilters(current => ({ ...current, port: e.target.value }))}
+                />
+                <Input
+                  type="date"
+                  value={actionFilters.from}
+                  onChange={(e) => setActionFilters(current => ({ ...current, from: e.target.value }))}
+                />
+                <Input
+                  type="date"
+                  value={actionFilters.to}
+                  onChange={(e) => setActionFilters(current => ({ ...current, to: e.target.value }))}
+                />
+              </div>
+              <div className="max-h-[480px] overflow-y-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Declaration ID</TableHead>
+                    <TableHead>Port</TableHead>
                     <TableHead>Action</TableHead>
                     <TableHead>Reason</TableHead>
                     <TableHead>Time</TableHead>
-                    <TableHead>TTL</TableHead>
+                    <TableHead>TTL Remaining</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {actions.map((action, index) => (
-                    <TableRow key={index}>
+                  {actions.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        {!token
+                          ? 'Sign in to see recent actions'
+                          : actionsLoading ? 'Loading actions...' : actionsError || 'No actions match these filters'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {actions.map((action) => (
+                    <TableRow key={action.id}>
                       <TableCell className="font-medium">{action.declaration_id}</TableCell>
+                      <TableCell>{action.declaration?.arrival_port || '-'}</TableCell>
                       <TableCell>
                         <Badge variant={action.action === 'STOP' ? 'destructive' : 'default'}>
                           {action.action}
@@ -252,12 +431,19 @@ export default function FRISDashboard() {
                         {new Date(action.created_at).toLocaleString()}
                       </TableCell>
                       <TableCell>
-                        {action.ttl_minutes ? `${action.ttl_minutes} min` : 'N/A'}
+                        {action.ttl_minutes
+                          ? `${action.remaining_ttl_minutes ?? action.ttl_minutes} / ${action.ttl_minutes} min`
+                          : 'N/A'}
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
+              <div ref={actionsSentinel} className="h-4" />
+              {actionsLoading && actions.length > 0 && (
+                <p className="text-center text-sm text-muted-foreground py-2">Loading more...</p>
+              )}
+              </div>
             </CardContent>
           </Card>
 
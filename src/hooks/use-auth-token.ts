@@ -0,0 +1,47 @@
+import * as React from "react"
+
+export const TOKEN_STORAGE_KEY = "fris_token"
+
+/**
+ * Access token of the signed-in officer, kept in localStorage so it survives reloads.
+ * Signing in stores the token from /api/auth/login; signing out, or a 401 from the
+ * API, clears it. Other tabs pick up the change through the storage event.
+ */
+export function useAuthToken() {
+  const [token, setTokenState] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    setTokenState(window.localStorage.getItem(TOKEN_STORAGE_KEY))
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === TOKEN_STORAGE_KEY) setTokenState(event.newValue)
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [])
+
+  const setToken = React.useCallback((value: string | null) => {
+    if (value) {
+      window.localStorage.setItem(TOKEN_STORAGE_KEY, value)
+    } else {
+      window.localStorage.removeItem(TOKEN_STORAGE_KEY)
+    }
+    setTokenState(value)
+  }, [])
+
+  const signIn = React.useCallback(async (email: string, password: string) => {
+    const response = await fetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok || !result.token) {
+      throw new Error(result.error || "Sign in failed")
+    }
+    setToken(result.token)
+  }, [setToken])
+
+  const signOut = React.useCallback(() => setToken(null), [setToken])
+
+  return { token, signIn, signOut }
+}
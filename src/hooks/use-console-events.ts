@@ -0,0 +1,51 @@
+import * as React from "react"
+import { io, Socket } from "socket.io-client"
+import type { ConsoleEvent, ConsoleEventType, ConsoleSubscription } from "@/lib/socket"
+
+/**
+ * Live officer console feed. Connects with the officer's JWT and calls the handler
+ * for each event of the given types; does nothing until the user has signed in.
+ */
+export function useConsoleEvents(
+  token: string | null,
+  types: ConsoleEventType[],
+  onEvent: (event: ConsoleEvent) => void,
+  subscription?: ConsoleSubscription
+) {
+  const [connected, setConnected] = React.useState(false)
+  const handlerRef = React.useRef(onEvent)
+  handlerRef.current = onEvent
+
+  const typesKey = types.join(",")
+  const subscriptionKey = JSON.stringify(subscription || {})
+
+  React.useEffect(() => {
+    if (!token) return
+
+    const socket: Socket = io("/console", {
+      path: "/api/socketio",
+      auth: { token },
+    })
+
+    socket.on("connect", () => {
+      setConnected(true)
+      if (subscription) {
+        socket.emit("subscribe", subscription)
+      }
+    })
+    socket.on("disconnect", () => setConnected(false))
+    socket.on("connect_error", (error) => {
+      console.error("Console connection failed:", error.message)
+    })
+
+    const listener = (event: ConsoleEvent) => handlerRef.current(event)
+    typesKey.split(",").forEach((type) => socket.on(type, listener))
+
+    return () => {
+      socket.disconnect()
+      setConnected(false)
+    }
+  }, [token, typesKey, subscriptionKey])
+
+  return { connected }
+}
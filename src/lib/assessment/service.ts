@@ -0,0 +1,312 @@
+import { db } from '@/lib/db';
+import { hsNomenclature, TariffRates } from '@/lib/tariff/nomenclature';
+
+export class AssessmentError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND') {
+    super(message);
+    this.name = 'AssessmentError';
+  }
+}
+
+export interface AssessmentLine {
+  line_no: number;
+  hs_code: string;
+  incoterm: string; // as declared; CIF when not declared
+  invoice_value_usd: number;
+  inland_transport_usd: number;
+  freight_usd: number;
+  insurance_usd: number;
+  customs_value_usd: number;
+  duty_rate: number; // percentages, from the tariff in force on lodgement
+  levy_rate: number;
+  surcharge_rate: number; // percentage of duty
+  vat_rate: number;
+  duty_usd: number;
+  levy_usd: number;
+  surcharge_usd: number;
+  vat_usd: number;
+  total_usd: number;
+}
+
+export interface AssessmentResult {
+  id?: string; // set once stored
+  declaration_id: string;
+  declaration_version: number;
+  tariff_as_of: string;
+  currency: string;
+  status: 'COMPLETE' | 'INCOMPLETE';
+  customs_value: number;
+  duty: number;
+  levy: number;
+  surcharge: number;
+  vat: number;
+  total: number;
+  lines: AssessmentLine[];
+  unresolved: { line_no: number; hs_code: string; reason: string }[];
+  assessed_by?: string;
+  created_at?: string;
+}
+
+interface AssessableItem {
+  line_no?: number;
+  declared_hs: string;
+  invoice_value_usd: number;
+  incoterm?: string | null;
+}
+
+class AssessmentService {
+  // Valuation uplifts used when the declaration carries no actual freight or insurance costs
+  private config = {
+    freightRate: 0.1, // freight as a share of the FOB value
+    insuranceRate: 0.01, // insurance as a share of cost and freight
+    inlandTransportRate: 0.05, // EXW: carriage to the port of loading, as a share of the EXW value
+    surchargeRate: 7 // percent of import duty
+  };
+
+  /**
+   * Convert an invoice value to CIF. EXW adds inland transport, then freight and
+   * insurance are added as needed; CIF, and DDP which already includes them, are
+   * taken as declared.
+   */
+  getCustomsValue(invoiceValue: number, incoterm?: string | null) {
+    const term = (incoterm || 'CIF').toUpperCase();
+    let inlandTransport = 0;
+    let freight = 0;
+    let insurance = 0;
+
+    if (term === 'EXW') {
+      inlandTransport = invoiceValue * this.config.inlandTransportRate;
+    }
+    if (term === 'EXW' || term === 'FOB') {
+      freight = (invoiceValue + inlandTransport) * this.config.freightRate;
+    }
+    if (term === 'EXW' || term === 'FOB' || term === 'CFR') {
+      insurance = (invoiceValue + inlandTransport + freight) * this.config.insuranceRate;
+    }
+
+    return {
+      inland_transport_usd: roundMoney(inlandTransport),
+      freight_usd: roundMoney(freight),
+      insurance_usd: roundMoney(insurance),
+      customs_value_usd: roundMoney(invoiceValue + inlandTransport + freight + insurance)
+    };
+  }
+
+  // Duty, levies, surcharge and VAT together as a fraction of the customs value
+  getCombinedRate(rates: TariffRates): number {
+    const duty = rates.duty_rate / 100;
+    const chargesBeforeVat = duty + rates.levy_rate / 100 + duty * this.config.surchargeRate / 100;
+    return chargesBeforeVat + (1 + chargesBeforeVat) * rates.vat_rate / 100;
+  }
+
+  /**
+   * Assess items without storing anything. Duty and levies are charged on the customs
+   * value, the surcharge on duty, and VAT on the customs value plus all of those.
+   */
+  async calculate(
+    items: AssessableItem[],
+    asOf: Date
+  ): Promise<Pick<AssessmentResult, 'status' | 'customs_value' | 'duty' | 'levy' | 'surcharge' | 'vat' | 'total' | 'lines' | 'unresolved'>> {
+    const ratesByCode = new Map<string, TariffRates | null>();
+    const lines: AssessmentLine[] = [];
+    const unresolved: AssessmentResult['unresolved'] = [];
+
+    for (const [index, item] of items.entries()) {
+      const lineNo = item.line_no || index + 1;
+
+      if (!ratesByCode.has(item.declared_hs)) {
+        ratesByCode.set(item.declared_hs, await hsNomenclature.getRates(item.declared_hs, asOf));
+      }
+      const rates = ratesByCode.get(item.declared_hs);
+
+      if (!rates) {
+        unresolved.push({
+          line_no: lineNo,
+          hs_code: item.declared_hs,
+          reason: (await hsNomenclature.getEntry(item.declared_hs, asOf))
+            ? 'No tariff rates defined for this code'
+            : 'Code not in the nomenclature in force on lodgement'
+        });
+        continue;
+      }
+
+      const value = this.getCustomsValue(item.invoice_value_usd, item.incoterm);
+      const customsValue = value.customs_value_usd;
+      const duty = customsValue * rates.duty_rate / 100;
+      const levy = customsValue * rates.levy_rate / 100;
+      const surcharge = duty * this.config.surchargeRate / 100;
+      const vat = (customsValue + duty + levy + surcharge) * rates.vat_rate / 100;
+
+      lines.push({
+        line_no: lineNo,
+        hs_code: item.declared_hs,
+        incoterm: (item.incoterm || 'CIF').toUpperCase(),
+        invoice_value_usd: item.invoice_value_usd,
+        ...value,
+        duty_rate: rates.duty_rate,
+        levy_rate: rates.levy_rate,
+        surcharge_rate: this.config.surchargeRate,
+        vat_rate: rates.vat_rate,
+        duty_usd: roundMoney(duty),
+        levy_usd: roundMoney(levy),
+        surcharge_usd: roundMoney(surcharge),
+        vat_usd: roundMoney(vat),
+        total_usd: roundMoney(duty + levy + surcharge + vat)
+      });
+    }
+
+    const sum = (field: keyof AssessmentLine) => roundMoney(lines.reduce((total, line) => total + (line[field] as number), 0));
+
+    return {
+      status: unresolved.length === 0 ? 'COMPLETE' : 'INCOMPLETE',
+      customs_value: sum('customs_value_usd'),
+      duty: sum('duty_usd'),
+      levy: sum('levy_usd'),
+      surcharge: sum('surcharge_usd'),
+      vat: sum('vat_usd'),
+      total: sum('total_usd'),
+      lines,
+      unresolved
+    };
+  }
+
+  // Assess the declaration as it stands now and store the result
+  async assess(declarationId: string, assessedBy: string): Promise<AssessmentResult> {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: declarationId },
+      include: { items: { orderBy: { line_no: 'asc' } } }
+    });
+    if (!declaration) {
+      throw new AssessmentError(`Declaration ${declarationId} not found`, 'NOT_FOUND');
+    }
+
+    const result = await this.calculate(declaration.items, declaration.lodgement_ts);
+
+    const assessment = await db.assessment.create({
+      data: {
+        declaration_id: declaration.id,
+        declaration_version: declaration.version,
+        tariff_as_of: declaration.lodgement_ts,
+        customs_value: result.customs_value,
+        duty: result.duty,
+        levy: result.levy,
+        surcharge: result.surcharge,
+        vat: result.vat,
+        total: result.total,
+        status: result.status,
+        lines: JSON.stringify(result.lines),
+        unresolved: result.unresolved.length > 0 ? JSON.stringify(result.unresolved) : null,
+        assessed_by: assessedBy
+      }
+    });
+
+    await db.audit.create({
+      data: {
+        event_id: `assessment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        declaration_id: declaration.id,
+        actor: assessedBy,
+        action: 'DECLARATION_ASSESSED',
+        payload_hash: JSON.stringify({
+          assessment_id: assessment.id,
+          version: declaration.version,
+          status: result.status,
+          total: result.total,
+          currency: assessment.currency
+        })
+      }
+    });
+
+    return this.toResult(assessment, declarationId);
+  }
+
+  /**
+   * The stored assessment of the declaration's current version, assessing it first
+   * when there is none, e.g. after an amendment.
+   */
+  async getCurrent(declarationId: string, assessedBy: string): Promise<AssessmentResult> {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: declarationId },
+      select: { id: true, version: true }
+    });
+    if (!declaration) {
+      throw new AssessmentError(`Declaration ${declarationId} not found`, 'NOT_FOUND');
+    }
+
+    return (await this.findCurrent({ ...declaration, declaration_id: declarationId }))
+      || this.assess(declarationId, assessedBy);
+  }
+
+  /**
+   * The stored assessment of the declaration's current version, or null when it has
+   * not been assessed. Never assesses, so read-only callers write nothing.
+   */
+  async findCurrent(declaration: { id: string; declaration_id: string; version: number }): Promise<AssessmentResult | null> {
+    const latest = await db.assessment.findFirst({
+      where: { declaration_id: declaration.id, declaration_version: declaration.version },
+      orderBy: { created_at: 'desc' }
+    });
+
+    return latest ? this.toResult(latest, declaration.declaration_id) : null;
+  }
+
+  async getHistory(declarationId: string): Promise<AssessmentResult[]> {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: declarationId },
+      select: { id: true }
+    });
+    if (!declaration) {
+      throw new AssessmentError(`Declaration ${declarationId} not found`, 'NOT_FOUND');
+    }
+
+    const assessments = await db.assessment.findMany({
+      where: { declaration_id: declaration.id },
+      orderBy: { created_at: 'desc' }
+    });
+    return assessments.map(assessment => this.toResult(assessment, declarationId));
+  }
+
+  /**
+   * Highest combined rate among the subheadings of the code's heading, i.e. the most a
+   * misclassification within the heading could have avoided.
+   */
+  async getHeadingRateCeiling(code: string, asOf: Date): Promise<number | null> {
+    const headingCode = code.replace(/\D/g, '').substring(0, 4);
+    if (headingCode.length !== 4) return null;
+
+    let ceiling: number | null = null;
+    for (const subheading of await hsNomenclature.getChildren(headingCode, asOf)) {
+      const rates = await hsNomenclature.getRates(subheading.code, asOf);
+      if (rates) {
+        ceiling = Math.max(ceiling ?? 0, this.getCombinedRate(rates));
+      }
+    }
+    return ceiling;
+  }
+
+  private toResult(assessment: any, declarationId: string): AssessmentResult {
+    return {
+      id: assessment.id,
+      declaration_id: declarationId,
+      declaration_version: assessment.declaration_version,
+      tariff_as_of: assessment.tariff_as_of.toISOString(),
+      currency: assessment.currency,
+      status: assessment.status,
+      customs_value: assessment.customs_value,
+      duty: assessment.duty,
+      levy: assessment.levy,
+      surcharge: assessment.surcharge,
+      vat: assessment.vat,
+      total: assessment.total,
+      lines: JSON.parse(assessment.lines),
+      unresolved: assessment.unresolved ? JSON.parse(assessment.unresolved) : [],
+      assessed_by: assessment.assessed_by,
+      created_at: assessment.created_at.toISOString()
+    };
+  }
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const assessmentService = new AssessmentService();
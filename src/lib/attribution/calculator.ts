@@ -1,4 +1,7 @@
 import { db } from '@/lib/db';
+import { hsNomenclature } from '@/lib/tariff/nomenclature';
+import { assessmentService } from '@/lib/assessment/service';
+import { fxRateService, FxRateError, BASE_CURRENCY } from '@/lib/fx/rates';
 
 export interface MoneySavedAttribution {
   id: string;
@@ -6,6 +9,8 @@ export interface MoneySavedAttribution {
   source: 'ACTION' | 'CASE' | 'RECONCILIATION' | 'BAND_ADJUSTMENT';
   amount: number;
   currency: string;
+  original_amount?: number; // set when the amount was converted into the reporting currency
+  original_currency?: string;
   confidence_score: number;
   attribution_factors: AttributionFactor[];
   rule_ids: string[];
@@ -35,10 +40,14 @@ export interface MoneySavedCalculation {
   calculation_metadata: {
     period_start: string;
     period_end: string;
+    currency: string;
     baseline_revenue: number;
     actual_revenue: number;
     uplift_percentage: number;
     confidence_level: number;
+    // Attributions with no exchange rate for their day, which the totals leave out
+    excluded_attributions: number;
+    excluded_amount_by_currency: Record<string, number>;
   };
 }
 
@@ -50,6 +59,7 @@ class MoneySavedCalculator {
       includeVerifiedOnly?: boolean;
       minConfidence?: number;
       sources?: string[];
+      reportingCurrency?: string;
     } = {}
   ): Promise<MoneySavedCalculation> {
     const {
@@ -57,14 +67,18 @@ class MoneySavedCalculator {
       minConfidence = 0.5,
       sources = ['ACTION', 'CASE', 'RECONCILIATION', 'BAND_ADJUSTMENT']
     } = options;
+    const reportingCurrency = fxRateService.normaliseCurrency(options.reportingCurrency || BASE_CURRENCY);
 
     // Get all relevant attributions for the period
-    const attributions = await this.getAttributionsForPeriod(
-      periodStart,
-      periodEnd,
-      includeVerifiedOnly,
-      minConfidence,
-      sources
+    const { converted: attributions, excluded } = await this.toReportingCurrency(
+      await this.getAttributionsForPeriod(
+        periodStart,
+        periodEnd,
+        includeVerifiedOnly,
+        minConfidence,
+        sources
+      ),
+      reportingCurrency
     );
 
     // Calculate breakdown by source
@@ -95,7 +109,12 @@ class MoneySavedCalculator {
     const totalMoneySaved = Object.values(breakdown).reduce((sum, amount) => sum + amount, 0);
 
     // Get baseline revenue for comparison
-    const baselineRevenue = await this.getBaselineRevenue(periodStart, periodEnd);
+    const baselineRevenue = (await fxRateService.convert(
+      await this.getBaselineRevenue(periodStart, periodEnd),
+      BASE_CURRENCY,
+      reportingCurrency,
+      new Date(periodEnd)
+    )).amount;
     const actualRevenue = baselineRevenue + totalMoneySaved;
     const upliftPercentage = baselineRevenue > 0 ? (totalMoneySaved / baselineRevenue) * 100 : 0;
 
@@ -109,10 +128,16 @@ class MoneySavedCalculator {
       calculation_metadata: {
         period_start: periodStart,
         period_end: periodEnd,
+        currency: reportingCurrency,
         baseline_revenue: baselineRevenue,
         actual_revenue: actualRevenue,
         uplift_percentage: upliftPercentage,
-        confidence_level: confidenceLevel
+        confidence_level: confidenceLevel,
+        excluded_attributions: excluded.length,
+        excluded_amount_by_currency: excluded.reduce((totals, attribution) => ({
+          ...totals,
+          [attribution.currency]: (totals[attribution.currency] || 0) + attribution.amount
+        }), {} as Record<string, number>)
       }
     };
   }
@@ -151,11 +176,14 @@ class MoneySavedCalculator {
       }
     });
 
+    // Heading rate ceilings by heading and tariff date, looked up once per calculation
+    const headingCeilings = new Map<string, Promise<number | null>>();
+
     for (const action of actions) {
       const declaration = action.declaration;
       if (!declaration) continue;
 
-      const attribution = await this.calculateActionAttribution(action, declaration);
+      const attribution = await this.calculateActionAttribution(action, declaration, headingCeilings);
       if (attribution && attribution.confidence_score >= minConfidence) {
         attributions.push(attribution);
       }
@@ -229,18 +257,24 @@ class MoneySavedCalculator {
             items: true
           }
         }
-      }
+      },
+      orderBy: { created_at: 'desc' }
     });
 
+    // Instalments accumulate, so only the latest payment per declaration says what is still outstanding
+    const reconciled = new Set<string>();
     for (const payment of payments) {
-      const delta = payment.assessed - payment.paid;
+      if (reconciled.has(payment.declaration_id)) continue;
+      reconciled.add(payment.declaration_id);
+
+      const delta = payment.assessed - (payment.cumulative_paid ?? payment.paid);
       if (delta > 0) {
         const attribution: MoneySavedAttribution = {
           id: `payment_${payment.bank_ref}`,
           declaration_id: payment.declaration?.declaration_id || '',
           source: 'RECONCILIATION',
           amount: delta,
-          currency: 'NGN',
+          currency: payment.currency,
           confidence_score: 0.8,
           attribution_factors: [
             {
@@ -266,12 +300,17 @@ class MoneySavedCalculator {
     });
   }
 
-  private async calculateActionAttribution(action: any, declaration: any): Promise<MoneySavedAttribution | null> {
+  private async calculateActionAttribution(
+    action: any,
+    declaration: any,
+    headingCeilings: Map<string, Promise<number | null>>
+  ): Promise<MoneySavedAttribution | null> {
     const riskScore = declaration.risk_scores?.[0];
     if (!riskScore) return null;
 
     // Estimate additional revenue that would have been lost without this action
     const totalDeclaredValue = declaration.items.reduce((sum: number, item: any) => sum + item.invoice_value_usd, 0);
+    const { dutyRate, tariffDifference } = await this.getAssessedRates(declaration, totalDeclaredValue, headingCeilings);
     
     // Calculate potential undervaluation based on risk score
     let estimatedAdditionalRevenue = 0;
@@ -279,7 +318,7 @@ class MoneySavedCalculator {
     const ruleIds: string[] = [];
 
     if (riskScore.undervaluation > 0.5) {
-      const undervaluationAmount = totalDeclaredValue * riskScore.undervaluation * 0.2; // Assume 20% duty rate
+      const undervaluationAmount = totalDeclaredValue * riskScore.undervaluation * dutyRate;
       estimatedAdditionalRevenue += undervaluationAmount;
       
       factors.push({
@@ -292,7 +331,7 @@ class MoneySavedCalculator {
     }
 
     if (riskScore.misclassification > 0.5) {
-      const misclassificationAmount = totalDeclaredValue * riskScore.misclassification * 0.15; // Assume 15% tariff difference
+      const misclassificationAmount = totalDeclaredValue * riskScore.misclassification * tariffDifference;
       estimatedAdditionalRevenue += misclassificationAmount;
       
       factors.push({
@@ -314,15 +353,93 @@ class MoneySavedCalculator {
       declaration_id: declaration.declaration_id,
       source: 'ACTION',
       amount: estimatedAdditionalRevenue,
-      currency: 'NGN',
+      currency: 'USD', // estimated from invoice values
       confidence_score: confidenceScore,
       attribution_factors: factors,
-      rule_ids,
+      rule_ids: ruleIds,
       created_at: action.created_at.toISOString(),
       verified: false
     };
   }
 
+  /**
+   * Convert each attribution at the official rate on the day it arose. Attributions without
+   * a rate for that day are returned as excluded rather than mixed in unconverted, so the
+   * caller can report what the totals leave out.
+   */
+  private async toReportingCurrency(
+    attributions: MoneySavedAttribution[],
+    reportingCurrency: string
+  ): Promise<{ converted: MoneySavedAttribution[]; excluded: MoneySavedAttribution[] }> {
+    const converted: MoneySavedAttribution[] = [];
+    const excluded: MoneySavedAttribution[] = [];
+
+    for (const attribution of attributions) {
+      if (attribution.currency === reportingCurrency) {
+        converted.push(attribution);
+        continue;
+      }
+
+      try {
+        const conversion = await fxRateService.convert(
+          attribution.amount,
+          attribution.currency,
+          reportingCurrency,
+          new Date(attribution.created_at)
+        );
+        converted.push({
+          ...attribution,
+          amount: conversion.amount,
+          currency: reportingCurrency,
+          original_amount: attribution.amount,
+          original_currency: attribution.currency
+        });
+      } catch (error) {
+        if (!(error instanceof FxRateError)) throw error;
+        console.warn(`Attribution ${attribution.id} left out of ${reportingCurrency} totals: ${error.message}`);
+        excluded.push(attribution);
+      }
+    }
+
+    return { converted, excluded };
+  }
+
+  /**
+   * Effective tax rate from the declaration's assessment, and the value-weighted gap to
+   * the highest rate in each item's heading. Falls back to flat 20% and 15% until the
+   * declaration can be fully assessed.
+   */
+  private async getAssessedRates(
+    declaration: any,
+    totalDeclaredValue: number,
+    headingCeilings: Map<string, Promise<number | null>>
+  ): Promise<{ dutyRate: number; tariffDifference: number }> {
+    const fallback = { dutyRate: 0.2, tariffDifference: 0.15 };
+    if (totalDeclaredValue <= 0 || !(await hsNomenclature.isLoaded())) return fallback;
+
+    // Only stored assessments: the KPI is read-only and must not assess declarations itself
+    const assessment = await assessmentService.findCurrent(declaration);
+    if (!assessment || assessment.status !== 'COMPLETE') return fallback;
+
+    let weightedDifference = 0;
+    for (const line of assessment.lines) {
+      const key = `${line.hs_code.replace(/\D/g, '').substring(0, 4)}@${assessment.tariff_as_of}`;
+      if (!headingCeilings.has(key)) {
+        headingCeilings.set(key, assessmentService.getHeadingRateCeiling(line.hs_code, new Date(assessment.tariff_as_of)));
+      }
+      const ceiling = await headingCeilings.get(key)!;
+      if (ceiling === null) return fallback;
+
+      const declaredRate = line.customs_value_usd > 0 ? line.total_usd / line.customs_value_usd : 0;
+      weightedDifference += Math.max(ceiling - declaredRate, 0) * line.customs_value_usd;
+    }
+
+    return {
+      dutyRate: assessment.total / totalDeclaredValue,
+      tariffDifference: weightedDifference / totalDeclaredValue
+    };
+  }
+
   private async getBaselineRevenue(periodStart: string, periodEnd: string): Promise<number> {
     // In a real implementation, this would query historical data
     // For now, return a reasonable baseline
@@ -353,16 +470,19 @@ class MoneySavedCalculator {
   async getAttributionReport(
     periodStart: string,
     periodEnd: string,
-    groupBy: 'source' | 'day' | 'rule' = 'source'
+    groupBy: 'source' | 'day' | 'rule' = 'source',
+    reportingCurrency?: string
   ): Promise<any> {
-    const calculation = await this.calculateMoneySaved(periodStart, periodEnd);
+    const calculation = await this.calculateMoneySaved(periodStart, periodEnd, { reportingCurrency });
 
     if (groupBy === 'source') {
       return {
         period: { start: periodStart, end: periodEnd },
         total: calculation.total_money_saved,
+        currency: calculation.calculation_metadata.currency,
         breakdown: calculation.breakdown,
-        confidence: calculation.calculation_metadata.confidence_level
+        confidence: calculation.calculation_metadata.confidence_level,
+        excluded_attributions: calculation.calculation_metadata.excluded_attributions
       };
     }
 
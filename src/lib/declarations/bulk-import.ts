@@ -0,0 +1,503 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import { declarationSchema, validateData, validateBusinessRules } from '@/lib/validation/schemas';
+import { riskScoringService } from '@/lib/risk/scoring';
+import { decisionService } from '@/lib/policy/decision';
+import { parseCsvRows } from '@/lib/csv';
+import { hsNomenclature } from '@/lib/tariff/nomenclature';
+import { fxRateService, FxRateError } from '@/lib/fx/rates';
+import { declarationLifecycle, DeclarationLifecycleError, DeclarationAmendment } from '@/lib/declarations/lifecycle';
+import type { WorkflowActor } from '@/lib/workflow/state-machine';
+
+export type ImportFormat = 'CSV' | 'NDJSON';
+
+export class ImportJobError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND' | 'CONTENT_MISMATCH' | 'ALREADY_COMPLETED' | 'INVALID_FORMAT') {
+    super(message);
+    this.name = 'ImportJobError';
+  }
+}
+
+export interface ImportRowError {
+  rows: number[]; // 1-based CSV data rows or NDJSON lines the record came from
+  declaration_id?: string;
+  field?: string;
+  message: string;
+}
+
+export interface ImportRecord {
+  rows: number[];
+  data: any;
+}
+
+export interface ImportOptions {
+  format: ImportFormat;
+  sourceName?: string;
+  score?: boolean;
+  chunkSize?: number;
+  resumeJobId?: string;
+  createdBy: string;
+  createdByRole: string;
+}
+
+export type StoreOutcome = 'CREATED' | 'AMENDED' | 'UNCHANGED';
+
+export interface ImportJobSummary {
+  id: string;
+  format: ImportFormat;
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  total_records: number;
+  processed_records: number;
+  succeeded: number;
+  failed: number;
+  errors: ImportRowError[];
+  last_error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 100;
+const MAX_CHUNK_SIZE = 500;
+const MAX_STORED_ERRORS = 1000;
+
+const CSV_NUMERIC_ITEM_COLUMNS = ['line_no', 'qty', 'gross_weight_kg', 'net_weight_kg', 'invoice_value_usd', 'invoice_value', 'year'];
+// Item columns repeat on every row; header columns are taken from the first row of a declaration
+const CSV_ITEM_COLUMNS = [
+  'line_no', 'declared_hs', 'declared_desc', 'qty', 'uom', 'gross_weight_kg', 'net_weight_kg',
+  'invoice_value_usd', 'invoice_currency', 'invoice_value', 'incoterm', 'country_origin', 'brand', 'model', 'year'
+];
+// Multi-valued CSV cells separate values with "|"
+const CSV_LIST_SEPARATOR = '|';
+
+class BulkImportService {
+  /**
+   * Import declarations from CSV or NDJSON. New declarations are created in chunks, each
+   * chunk in its own transaction, and the job's checkpoint advances after every chunk.
+   * Records for existing declarations are applied as amendments, which version, audit and
+   * re-score them; cancelled declarations and those under an open STOP are reported as
+   * row errors. A failed import is resumed by sending the same content with its job id;
+   * records before the checkpoint are skipped.
+   */
+  async import(content: string, options: ImportOptions): Promise<ImportJobSummary> {
+    const { records, errors: parseErrors } = options.format === 'CSV'
+      ? this.parseCsv(content)
+      : this.parseNdjson(content);
+    const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+    const chunkSize = Math.min(Math.max(options.chunkSize || DEFAULT_CHUNK_SIZE, 1), MAX_CHUNK_SIZE);
+
+    const job = options.resumeJobId
+      ? await this.loadResumableJob(options.resumeJobId, contentHash)
+      : await db.importJob.create({
+          data: {
+            format: options.format,
+            source_name: options.sourceName || null,
+            content_hash: contentHash,
+            total_records: records.length,
+            failed: parseErrors.length,
+            errors: JSON.stringify(parseErrors.slice(0, MAX_STORED_ERRORS)),
+            score: !!options.score,
+            chunk_size: chunkSize,
+            created_by: options.createdBy
+          }
+        });
+
+    const errors: ImportRowError[] = job.errors ? JSON.parse(job.errors) : [];
+    let { processed_records: processed, succeeded, failed } = job;
+
+    try {
+      for (let start = processed; start < records.length; start += chunkSize) {
+        const chunk = records.slice(start, start + chunkSize);
+        const valid: ImportRecord[] = [];
+
+        for (const record of chunk) {
+          const recordErrors = await this.validateRecord(record);
+          if (recordErrors.length > 0) {
+            errors.push(...recordErrors);
+            failed++;
+          } else {
+            valid.push(record);
+          }
+        }
+
+        // A declaration that already exists, or appears twice in the chunk, is amended after the creates
+        const existing = new Set((await db.declaration.findMany({
+          where: { declaration_id: { in: valid.map(record => record.data.declaration_id) } },
+          select: { declaration_id: true }
+        })).map(declaration => declaration.declaration_id));
+        const creates: ImportRecord[] = [];
+        const amendments: ImportRecord[] = [];
+        for (const record of valid) {
+          if (existing.has(record.data.declaration_id)) {
+            amendments.push(record);
+          } else {
+            existing.add(record.data.declaration_id);
+            creates.push(record);
+          }
+        }
+
+        await db.$transaction(creates.map(record => this.createDeclaration(record.data)));
+
+        if (job.score) {
+          for (const record of creates) {
+            await this.scoreDeclaration(record.data.declaration_id, options.createdBy);
+          }
+        }
+
+        let stored = valid.length;
+        for (const record of amendments) {
+          try {
+            await this.storeDeclaration(
+              record.data,
+              { id: options.createdBy, role: options.createdByRole },
+              `Re-imported by import job ${job.id}`
+            );
+          } catch (error) {
+            if (!(error instanceof DeclarationLifecycleError)) throw error;
+            errors.push({ rows: record.rows, declaration_id: record.data.declaration_id, message: error.message });
+            failed++;
+            stored--;
+          }
+        }
+
+        processed = start + chunk.length;
+        succeeded += stored;
+
+        await db.importJob.update({
+          where: { id: job.id },
+          data: {
+            processed_records: processed,
+            succeeded,
+            failed,
+            errors: JSON.stringify(errors.slice(0, MAX_STORED_ERRORS))
+          }
+        });
+      }
+
+      await db.importJob.update({
+        where: { id: job.id },
+        data: { status: 'COMPLETED', last_error: null }
+      });
+    } catch (error) {
+      // processed_records still points at the chunk's first record, but its creates are already
+      // committed: on resume they are found as existing declarations and, like amendments already
+      // applied, come out as unchanged amendments
+      await db.importJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'FAILED',
+          last_error: error instanceof Error ? error.message : String(error)
+        }
+      });
+    }
+
+    return this.getJob(job.id);
+  }
+
+  async getJob(jobId: string): Promise<ImportJobSummary> {
+    const job = await db.importJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new ImportJobError(`Import job ${jobId} not found`, 'NOT_FOUND');
+    }
+
+    return {
+      id: job.id,
+      format: job.format as ImportFormat,
+      status: job.status as ImportJobSummary['status'],
+      total_records: job.total_records,
+      processed_records: job.processed_records,
+      succeeded: job.succeeded,
+      failed: job.failed,
+      errors: job.errors ? JSON.parse(job.errors) : [],
+      last_error: job.last_error,
+      created_at: job.created_at.toISOString(),
+      updated_at: job.updated_at.toISOString()
+    };
+  }
+
+  /**
+   * One row per item; rows sharing a declaration_id form one declaration. Header
+   * columns are read from the first row of each declaration.
+   */
+  parseCsv(content: string): { records: ImportRecord[]; errors: ImportRowError[] } {
+    const rows = parseCsvRows(content);
+    const errors: ImportRowError[] = [];
+    if (rows.length === 0) {
+      return { records: [], errors };
+    }
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    const missing = ['declaration_id', 'arrival_port', 'lodgement_ts', 'declared_hs']
+      .filter(column => !header.includes(column));
+    // Item values come in USD, or in the invoice currency for conversion at the official rate
+    if (!header.includes('invoice_value_usd') && !(header.includes('invoice_currency') && header.includes('invoice_value'))) {
+      missing.push('invoice_value_usd (or invoice_currency and invoice_value)');
+    }
+    if (missing.length > 0) {
+      throw new ImportJobError(`CSV is missing required columns: ${missing.join(', ')}`, 'INVALID_FORMAT');
+    }
+
+    const grouped = new Map<string, ImportRecord>();
+    rows.slice(1).forEach((cells, index) => {
+      const rowNumber = index + 1;
+      if (cells.every(cell => cell.trim() === '')) return;
+
+      const row: Record<string, string> = {};
+      header.forEach((column, columnIndex) => {
+        row[column] = (cells[columnIndex] ?? '').trim();
+      });
+
+      if (!row.declaration_id) {
+        errors.push({ rows: [rowNumber], field: 'declaration_id', message: 'declaration_id is required' });
+        return;
+      }
+
+      let record = grouped.get(row.declaration_id);
+      if (!record) {
+        record = { rows: [], data: this.csvHeaderToDeclaration(row) };
+        grouped.set(row.declaration_id, record);
+      }
+
+      record.rows.push(rowNumber);
+      record.data.items.push(this.csvRowToItem(row));
+    });
+
+    return { records: Array.from(grouped.values()), errors };
+  }
+
+  parseNdjson(content: string): { records: ImportRecord[]; errors: ImportRowError[] } {
+    const records: ImportRecord[] = [];
+    const errors: ImportRowError[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '') return;
+      try {
+        records.push({ rows: [index + 1], data: JSON.parse(line) });
+      } catch (error) {
+        errors.push({ rows: [index + 1], message: `Invalid JSON: ${error instanceof Error ? error.message : error}` });
+      }
+    });
+
+    return { records, errors };
+  }
+
+  // Also converts foreign-currency invoice values on the record, which is then stored as converted
+  private async validateRecord(record: ImportRecord): Promise<ImportRowError[]> {
+    const declarationId = record.data?.declaration_id;
+
+    try {
+      record.data = await fxRateService.convertInvoiceValues(record.data);
+    } catch (error) {
+      if (!(error instanceof FxRateError)) throw error;
+      return [{ rows: record.rows, declaration_id: declarationId, message: error.message }];
+    }
+
+    const result = validateData(declarationSchema, record.data);
+
+    if (!result.success) {
+      return (result.errors || []).map((issue: any) => ({
+        rows: record.rows,
+        declaration_id: declarationId,
+        field: issue.path.join('.'),
+        message: issue.message
+      }));
+    }
+
+    const messages = [
+      ...validateBusinessRules(result.data),
+      ...(await hsNomenclature.validateDeclaredCodes(record.data.items, new Date(record.data.lodgement_ts)))
+    ];
+
+    return messages.map(message => ({
+      rows: record.rows,
+      declaration_id: declarationId,
+      message
+    }));
+  }
+
+  /**
+   * Create a declaration, or amend an existing one through the declaration lifecycle so
+   * the change is versioned, audited and re-scored. Fields missing from the record keep
+   * their stored values. Lifecycle refusals are thrown as DeclarationLifecycleError.
+   */
+  async storeDeclaration(
+    data: any,
+    actor: WorkflowActor,
+    reason: string
+  ): Promise<{ id: string; declaration_id: string; outcome: StoreOutcome }> {
+    const existing = await db.declaration.findUnique({
+      where: { declaration_id: data.declaration_id },
+      select: { id: true, declaration_id: true }
+    });
+
+    if (!existing) {
+      const created = await this.createDeclaration(data);
+      return { id: created.id, declaration_id: created.declaration_id, outcome: 'CREATED' };
+    }
+
+    try {
+      await declarationLifecycle.amend(data.declaration_id, this.toAmendment(data, reason), actor);
+      return { ...existing, outcome: 'AMENDED' };
+    } catch (error) {
+      // Re-sending an unchanged declaration is not an error
+      if (error instanceof DeclarationLifecycleError && error.code === 'UNCHANGED') {
+        return { ...existing, outcome: 'UNCHANGED' };
+      }
+      throw error;
+    }
+  }
+
+  createDeclaration(data: any) {
+    return db.declaration.create({
+      data: {
+        declaration_id: data.declaration_id,
+        ucms_ref: data.ucms_ref || null,
+        arrival_port: data.arrival_port,
+        lodgement_ts: new Date(data.lodgement_ts),
+        eta: data.eta ? new Date(data.eta) : null,
+        channel: data.channel || 'GREEN',
+        status: data.status || 'FILED',
+        consignee_tin: data.consignee?.tin || null,
+        consignee_name: data.consignee?.name || null,
+        consignee_addr: data.consignee?.addr || null,
+        consignee_phones: data.consignee?.phones ? JSON.stringify(data.consignee.phones) : null,
+        consignee_emails: data.consignee?.emails ? JSON.stringify(data.consignee.emails) : null,
+        declarant_license_id: data.declarant?.license_id || null,
+        declarant_name: data.declarant?.name || null,
+        voyage_bl: data.voyage?.bl || null,
+        voyage_vessel: data.voyage?.vessel || null,
+        voyage_origin: data.voyage?.origin || null,
+        transshipment_ports: data.voyage?.transshipment_ports ? JSON.stringify(data.voyage.transshipment_ports) : null,
+        items: {
+          create: data.items.map((item: any, index: number) => ({
+            line_no: item.line_no || index + 1,
+            declared_hs: item.declared_hs,
+            declared_desc: item.declared_desc,
+            qty: item.qty,
+            uom: item.uom,
+            gross_weight_kg: item.gross_weight_kg || null,
+            net_weight_kg: item.net_weight_kg || null,
+            invoice_value_usd: item.invoice_value_usd,
+            invoice_currency: item.invoice_currency || null,
+            invoice_value: item.invoice_value ?? null,
+            incoterm: item.incoterm || null,
+            country_origin: item.country_origin || null,
+            brand: item.brand || null,
+            model: item.model || null,
+            year: item.year || null
+          }))
+        }
+      }
+    });
+  }
+
+  // Scoring failures do not fail the import; the declaration can be scored again later
+  async scoreDeclaration(declarationId: string, actorId: string): Promise<void> {
+    try {
+      const declaration = await db.declaration.findUnique({
+        where: { declaration_id: declarationId },
+        include: { items: true }
+      });
+      if (!declaration) return;
+
+      const { riskScore } = await riskScoringService.scoreDeclaration(declaration, declaration.items);
+      const decision = await decisionService.evaluate(
+        decisionService.buildContext(declaration, declaration.items, riskScore)
+      );
+      if (decision.action !== 'ALLOW') {
+        await decisionService.recordDecision(declaration.id, decision, actorId);
+      }
+    } catch (error) {
+      console.error(`Scoring imported declaration ${declarationId} failed:`, error);
+    }
+  }
+
+  // Status is not taken from the feed; the lifecycle sets it to AMENDED
+  private toAmendment(data: any, reason: string): DeclarationAmendment {
+    return {
+      reason,
+      arrival_port: data.arrival_port,
+      lodgement_ts: data.lodgement_ts,
+      eta: data.eta,
+      channel: data.channel,
+      consignee: data.consignee,
+      declarant: data.declarant,
+      voyage: data.voyage,
+      items: data.items
+    };
+  }
+
+  private async loadResumableJob(jobId: string, contentHash: string) {
+    const job = await db.importJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new ImportJobError(`Import job ${jobId} not found`, 'NOT_FOUND');
+    }
+    if (job.status === 'COMPLETED') {
+      throw new ImportJobError(`Import job ${jobId} has already completed`, 'ALREADY_COMPLETED');
+    }
+    if (job.content_hash !== contentHash) {
+      throw new ImportJobError('Resumed imports must send exactly the same content as the original', 'CONTENT_MISMATCH');
+    }
+
+    await db.importJob.update({
+      where: { id: jobId },
+      data: { status: 'RUNNING' }
+    });
+    return job;
+  }
+
+  private csvHeaderToDeclaration(row: Record<string, string>): any {
+    const list = (value?: string) => (value ? value.split(CSV_LIST_SEPARATOR).map(part => part.trim()).filter(Boolean) : undefined);
+    const optional = (value?: string) => (value ? value : undefined);
+
+    return {
+      declaration_id: row.declaration_id,
+      ucms_ref: optional(row.ucms_ref),
+      arrival_port: row.arrival_port,
+      lodgement_ts: row.lodgement_ts,
+      eta: optional(row.eta),
+      channel: optional(row.channel?.toUpperCase()),
+      status: optional(row.status?.toUpperCase()),
+      consignee: {
+        tin: optional(row.consignee_tin),
+        name: optional(row.consignee_name),
+        addr: optional(row.consignee_addr),
+        phones: list(row.consignee_phones),
+        emails: list(row.consignee_emails)
+      },
+      declarant: {
+        license_id: optional(row.declarant_license_id),
+        name: optional(row.declarant_name)
+      },
+      voyage: {
+        bl: optional(row.voyage_bl),
+        vessel: optional(row.voyage_vessel),
+        origin: optional(row.voyage_origin?.toUpperCase()),
+        transshipment_ports: list(row.transshipment_ports?.toUpperCase())
+      },
+      items: []
+    };
+  }
+
+  // Numeric cells that do not parse are passed through as text so validation reports them
+  private csvRowToItem(row: Record<string, string>): any {
+    const item: Record<string, any> = {};
+
+    for (const column of CSV_ITEM_COLUMNS) {
+      const value = row[column];
+      if (value === undefined || value === '') continue;
+
+      if (CSV_NUMERIC_ITEM_COLUMNS.includes(column)) {
+        const number = Number(value);
+        item[column] = isNaN(number) ? value : number;
+      } else if (column === 'incoterm' || column === 'country_origin' || column === 'invoice_currency') {
+        item[column] = value.toUpperCase();
+      } else {
+        item[column] = value;
+      }
+    }
+
+    return item;
+  }
+}
+
+export const bulkImportService = new BulkImportService();
@@ -0,0 +1,642 @@
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getUserPermissions } from '@/lib/auth/jwt';
+import { riskScoringService } from '@/lib/risk/scoring';
+import { decisionService } from '@/lib/policy/decision';
+import { holdStopWorkflowManager } from '@/lib/workflow/manager';
+import type { WorkflowActor } from '@/lib/workflow/state-machine';
+
+export class DeclarationLifecycleError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_FOUND' | 'INVALID_STATE' | 'UNCHANGED' | 'WORKFLOW_OPEN' | 'FORBIDDEN' | 'CONFLICT'
+  ) {
+    super(message);
+    this.name = 'DeclarationLifecycleError';
+  }
+}
+
+export interface ItemSnapshot {
+  line_no: number;
+  declared_hs: string;
+  declared_desc: string;
+  qty: number;
+  uom: string;
+  gross_weight_kg: number | null;
+  net_weight_kg: number | null;
+  invoice_currency: string | null;
+  invoice_value: number | null;
+  invoice_value_usd: number;
+  incoterm: string | null;
+  country_origin: string | null;
+  brand: string | null;
+  model: string | null;
+  year: number | null;
+}
+
+export interface DeclarationSnapshot {
+  version: number;
+  arrival_port: string;
+  lodgement_ts: string;
+  eta: string | null;
+  channel: string;
+  status: string;
+  consignee_tin: string | null;
+  consignee_name: string | null;
+  consignee_addr: string | null;
+  consignee_phones: string | null;
+  consignee_emails: string | null;
+  declarant_license_id: string | null;
+  declarant_name: string | null;
+  voyage_bl: string | null;
+  voyage_vessel: string | null;
+  voyage_origin: string | null;
+  transshipment_ports: string | null;
+  items: ItemSnapshot[];
+}
+
+export interface FieldChange {
+  path: string; // e.g. "consignee_name" or "items[2].invoice_value_usd"
+  before: any;
+  after: any;
+}
+
+export interface AmendmentFlag {
+  code:
+    | 'VALUE_RAISED_AFTER_HOLD'
+    | 'VALUE_CHANGED_AFTER_SELECTION'
+    | 'HS_CHANGED_AFTER_SELECTION'
+    | 'ORIGIN_CHANGED_AFTER_SELECTION'
+    | 'AMENDED_AFTER_RELEASE'
+    | 'AMENDED_UNDER_HOLD';
+  severity: 'MEDIUM' | 'HIGH';
+  message: string;
+}
+
+export interface DeclarationVersionInfo {
+  version: number;
+  change_type: 'AMENDMENT' | 'CANCELLATION';
+  reason: string;
+  changed_by: string;
+  flags: AmendmentFlag[];
+  created_at: string;
+}
+
+// Header fields an amendment may change, keyed by the nested request shape
+export interface DeclarationAmendment {
+  reason: string;
+  arrival_port?: string;
+  lodgement_ts?: string;
+  eta?: string;
+  channel?: string;
+  consignee?: { tin?: string; name?: string; addr?: string; phones?: string[]; emails?: string[] };
+  declarant?: { license_id?: string; name?: string };
+  voyage?: { bl?: string; vessel?: string; origin?: string; transshipment_ports?: string[] };
+  items?: any[];
+}
+
+type HeaderFields = Omit<DeclarationSnapshot, 'version' | 'status' | 'items'>;
+
+const SELECTED_STATUSES = ['SELECTED', 'HELD'];
+const SELECTED_CHANNELS = ['YELLOW', 'RED'];
+const ITEM_FIELDS: (keyof ItemSnapshot)[] = [
+  'declared_hs', 'declared_desc', 'qty', 'uom', 'gross_weight_kg', 'net_weight_kg',
+  'invoice_currency', 'invoice_value', 'invoice_value_usd', 'incoterm', 'country_origin', 'brand', 'model', 'year'
+];
+
+class DeclarationLifecycle {
+  /**
+   * Amend a declaration: keep the current version as a snapshot, apply the changes,
+   * flag suspicious post-selection amendments and re-score against the active policy.
+   * Amending is refused while a STOP is open; amendments under a HOLD are allowed but
+   * flagged and noted on the workflow.
+   */
+  async amend(declarationId: string, amendment: DeclarationAmendment, actor: WorkflowActor) {
+    const declaration = await this.loadDeclaration(declarationId);
+
+    if (declaration.status === 'CANCELLED') {
+      throw new DeclarationLifecycleError('Cancelled declarations cannot be amended', 'INVALID_STATE');
+    }
+
+    const openWorkflows = await holdStopWorkflowManager.getOpenWorkflowsForDeclaration(declarationId);
+    if (openWorkflows.some(workflow => workflow.action_type === 'STOP')) {
+      throw new DeclarationLifecycleError(
+        'Declaration is under an open STOP; it must be released before it can be amended',
+        'WORKFLOW_OPEN'
+      );
+    }
+
+    const before = this.toSnapshot(declaration);
+    const holdActions = await db.action.findMany({
+      where: { declaration_id: declaration.id, action: { in: ['HOLD', 'STOP'] } },
+      select: { id: true }
+    });
+
+    const headerChanges = this.toHeaderData(amendment);
+    const items = amendment.items
+      ? amendment.items.map((item, index) => this.toItemSnapshot(item, index))
+      : before.items;
+    const after: DeclarationSnapshot = {
+      ...before,
+      ...headerChanges,
+      version: before.version + 1,
+      status: 'AMENDED',
+      items
+    };
+
+    const changes = this.diffSnapshots(before, after);
+    if (changes.every(change => change.path === 'status')) {
+      throw new DeclarationLifecycleError('Amendment does not change the declaration', 'UNCHANGED');
+    }
+
+    const flags = this.detectSuspiciousAmendment(before, after, {
+      heldOrStopped: holdActions.length > 0,
+      underOpenHold: openWorkflows.length > 0
+    });
+
+    // The snapshot and the update commit together, so a failed update cannot leave a
+    // version row behind that blocks every later amendment
+    const { lodgement_ts, eta, ...headerFields } = headerChanges;
+    await this.commitVersion(() => db.$transaction([
+      this.createVersion(db, declaration.id, before, 'AMENDMENT', amendment.reason, actor.id, flags),
+      db.declaration.update({
+        where: { id: declaration.id },
+        data: {
+          ...headerFields,
+          ...(lodgement_ts ? { lodgement_ts: new Date(lodgement_ts) } : {}),
+          ...(eta !== undefined ? { eta: eta ? new Date(eta) : null } : {}),
+          status: 'AMENDED',
+          version: after.version,
+          ...(amendment.items ? {
+            items: {
+              deleteMany: {},
+              create: items
+            }
+          } : {})
+        }
+      })
+    ]));
+
+    await this.writeAudit(declaration.id, actor.id, 'DECLARATION_AMENDED', {
+      declaration_id: declarationId,
+      from_version: before.version,
+      to_version: after.version,
+      reason: amendment.reason,
+      changes: changes.map(change => change.path),
+      flags: flags.map(flag => flag.code)
+    });
+
+    for (const workflow of openWorkflows) {
+      await holdStopWorkflowManager.addNote(
+        workflow.id,
+        actor.id,
+        `Declaration amended to version ${after.version}: ${amendment.reason}`,
+        { changes, flags: flags.map(flag => flag.code) }
+      );
+    }
+
+    const rescore = await this.rescore(declarationId, actor);
+
+    return {
+      declaration_id: declarationId,
+      version: after.version,
+      changes,
+      flags,
+      rescore
+    };
+  }
+
+  /**
+   * Compare two versions of a declaration. The current version is read from the
+   * declaration itself, earlier ones from their snapshots.
+   */
+  async diffVersions(declarationId: string, fromVersion: number, toVersion: number): Promise<FieldChange[]> {
+    const declaration = await this.loadDeclaration(declarationId);
+    const [from, to] = await Promise.all([
+      this.getSnapshot(declaration, fromVersion),
+      this.getSnapshot(declaration, toVersion)
+    ]);
+
+    return this.diffSnapshots(from, to);
+  }
+
+  async getVersions(declarationId: string): Promise<{ current_version: number; versions: DeclarationVersionInfo[] }> {
+    const declaration = await this.loadDeclaration(declarationId);
+    const records = await db.declarationVersion.findMany({
+      where: { declaration_id: declaration.id },
+      orderBy: { version: 'asc' }
+    });
+
+    return {
+      current_version: declaration.version,
+      versions: records.map(record => ({
+        version: record.version,
+        change_type: record.change_type as DeclarationVersionInfo['change_type'],
+        reason: record.reason,
+        changed_by: record.changed_by,
+        flags: record.flags ? JSON.parse(record.flags) : [],
+        created_at: record.created_at.toISOString()
+      }))
+    };
+  }
+
+  // Cancellation is a two-step process: one officer requests it, another approves it
+  async requestCancellation(declarationId: string, reason: string, actor: WorkflowActor) {
+    const declaration = await this.loadDeclaration(declarationId);
+
+    if (declaration.status === 'CANCELLED' || declaration.status === 'RELEASED') {
+      throw new DeclarationLifecycleError(
+        `Declarations in status ${declaration.status} cannot be cancelled`,
+        'INVALID_STATE'
+      );
+    }
+
+    await this.assertNoOpenWorkflows(declarationId);
+
+    const pending = await db.declarationCancellation.findFirst({
+      where: { declaration_id: declaration.id, status: 'PENDING' }
+    });
+    if (pending) {
+      throw new DeclarationLifecycleError('A cancellation request is already pending', 'CONFLICT');
+    }
+
+    const request = await db.declarationCancellation.create({
+      data: {
+        declaration_id: declaration.id,
+        reason,
+        requested_by: actor.id
+      }
+    });
+
+    await this.writeAudit(declaration.id, actor.id, 'DECLARATION_CANCELLATION_REQUESTED', {
+      declaration_id: declarationId,
+      cancellation_id: request.id,
+      reason
+    });
+
+    return request;
+  }
+
+  async decideCancellation(declarationId: string, approve: boolean, actor: WorkflowActor, notes?: string) {
+    const declaration = await this.loadDeclaration(declarationId);
+    const request = await db.declarationCancellation.findFirst({
+      where: { declaration_id: declaration.id, status: 'PENDING' }
+    });
+
+    if (!request) {
+      throw new DeclarationLifecycleError('No pending cancellation request', 'NOT_FOUND');
+    }
+    if (!getUserPermissions(actor.role).canOverrideActions) {
+      throw new DeclarationLifecycleError(`Role ${actor.role} may not decide cancellations`, 'FORBIDDEN');
+    }
+    if (request.requested_by === actor.id) {
+      throw new DeclarationLifecycleError('A cancellation must be decided by a different officer than the requester', 'FORBIDDEN');
+    }
+
+    if (approve) {
+      // A workflow may have been opened since the request was made
+      await this.assertNoOpenWorkflows(declarationId);
+    }
+
+    // Deciding the request and cancelling the declaration commit together
+    await this.commitVersion(() => db.$transaction(async tx => {
+      const updated = await tx.declarationCancellation.updateMany({
+        where: { id: request.id, status: 'PENDING' },
+        data: {
+          status: approve ? 'APPROVED' : 'REJECTED',
+          decided_by: actor.id,
+          decided_at: new Date(),
+          decision_notes: notes || null
+        }
+      });
+      if (updated.count === 0) {
+        throw new DeclarationLifecycleError('Cancellation request was decided concurrently', 'CONFLICT');
+      }
+
+      if (approve) {
+        const before = this.toSnapshot(declaration);
+        await this.createVersion(tx, declaration.id, before, 'CANCELLATION', request.reason, actor.id, []);
+        await tx.declaration.update({
+          where: { id: declaration.id },
+          data: { status: 'CANCELLED', version: before.version + 1 }
+        });
+      }
+    }));
+
+    await this.writeAudit(
+      declaration.id,
+      actor.id,
+      approve ? 'DECLARATION_CANCELLED' : 'DECLARATION_CANCELLATION_REJECTED',
+      {
+        declaration_id: declarationId,
+        cancellation_id: request.id,
+        requested_by: request.requested_by,
+        reason: request.reason,
+        notes
+      }
+    );
+
+    return db.declarationCancellation.findUnique({ where: { id: request.id } });
+  }
+
+  diffSnapshots(before: DeclarationSnapshot, after: DeclarationSnapshot): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    for (const key of Object.keys(before) as (keyof DeclarationSnapshot)[]) {
+      if (key === 'items' || key === 'version') continue;
+      if (before[key] !== after[key]) {
+        changes.push({ path: key, before: before[key], after: after[key] });
+      }
+    }
+
+    // Items are matched by line number
+    const lineNumbers = Array.from(new Set([...before.items, ...after.items].map(item => item.line_no)))
+      .sort((a, b) => a - b);
+    for (const lineNo of lineNumbers) {
+      const previous = before.items.find(item => item.line_no === lineNo);
+      const next = after.items.find(item => item.line_no === lineNo);
+
+      if (!previous || !next) {
+        changes.push({ path: `items[${lineNo}]`, before: previous || null, after: next || null });
+        continue;
+      }
+
+      for (const field of ITEM_FIELDS) {
+        if (previous[field] !== next[field]) {
+          changes.push({ path: `items[${lineNo}].${field}`, before: previous[field], after: next[field] });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Amendments after selection are a known evasion pattern: the declarant corrects
+   * exactly what the risk engine caught once the goods are held.
+   */
+  detectSuspiciousAmendment(
+    before: DeclarationSnapshot,
+    after: DeclarationSnapshot,
+    context: { heldOrStopped: boolean; underOpenHold: boolean }
+  ): AmendmentFlag[] {
+    const flags: AmendmentFlag[] = [];
+    const selected = context.heldOrStopped
+      || SELECTED_STATUSES.includes(before.status)
+      || SELECTED_CHANNELS.includes(before.channel);
+
+    if (before.status === 'RELEASED') {
+      flags.push({
+        code: 'AMENDED_AFTER_RELEASE',
+        severity: 'MEDIUM',
+        message: 'Declaration was amended after release'
+      });
+    }
+
+    if (context.underOpenHold) {
+      flags.push({
+        code: 'AMENDED_UNDER_HOLD',
+        severity: 'MEDIUM',
+        message: 'Declaration was amended while a HOLD is open'
+      });
+    }
+
+    if (!selected) return flags;
+
+    const valueBefore = before.items.reduce((sum, item) => sum + item.invoice_value_usd, 0);
+    const valueAfter = after.items.reduce((sum, item) => sum + item.invoice_value_usd, 0);
+    if (valueAfter > valueBefore && context.heldOrStopped) {
+      flags.push({
+        code: 'VALUE_RAISED_AFTER_HOLD',
+        severity: 'HIGH',
+        message: `Invoice value raised from ${valueBefore.toFixed(2)} to ${valueAfter.toFixed(2)} USD after a HOLD/STOP`
+      });
+    } else if (valueAfter !== valueBefore) {
+      flags.push({
+        code: 'VALUE_CHANGED_AFTER_SELECTION',
+        severity: 'MEDIUM',
+        message: `Invoice value changed from ${valueBefore.toFixed(2)} to ${valueAfter.toFixed(2)} USD after selection`
+      });
+    }
+
+    const hsBefore = Array.from(new Set(before.items.map(item => item.declared_hs))).sort().join(',');
+    const hsAfter = Array.from(new Set(after.items.map(item => item.declared_hs))).sort().join(',');
+    if (hsBefore !== hsAfter) {
+      flags.push({
+        code: 'HS_CHANGED_AFTER_SELECTION',
+        severity: 'HIGH',
+        message: `HS codes changed from ${hsBefore} to ${hsAfter} after selection`
+      });
+    }
+
+    const originsBefore = Array.from(new Set(before.items.map(item => item.country_origin))).sort().join(',');
+    const originsAfter = Array.from(new Set(after.items.map(item => item.country_origin))).sort().join(',');
+    if (originsBefore !== originsAfter || before.voyage_origin !== after.voyage_origin) {
+      flags.push({
+        code: 'ORIGIN_CHANGED_AFTER_SELECTION',
+        severity: 'HIGH',
+        message: 'Country of origin changed after selection'
+      });
+    }
+
+    return flags;
+  }
+
+  // Score the amended declaration and record a new action when the policy outcome is not ALLOW
+  private async rescore(declarationId: string, actor: WorkflowActor) {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: declarationId },
+      include: { items: true }
+    });
+    if (!declaration) return null;
+
+    try {
+      const { riskScore, scores, reasonCodes } = await riskScoringService.scoreDeclaration(declaration, declaration.items);
+      const decision = await decisionService.evaluate(
+        decisionService.buildContext(declaration, declaration.items, riskScore, { email: actor.id, role: actor.role })
+      );
+
+      if (decision.action !== 'ALLOW') {
+        await decisionService.recordDecision(declaration.id, decision, actor.id);
+      }
+
+      return {
+        scores,
+        reason_codes: reasonCodes,
+        decision: {
+          action: decision.action,
+          ttl_minutes: decision.ttl_minutes,
+          reason: decision.reason,
+          policy_version: decision.policy_version
+        }
+      };
+    } catch (error) {
+      // The amendment itself is already stored; scoring can be retried through the risk API
+      console.error(`Re-scoring ${declarationId} after amendment failed:`, error);
+      return null;
+    }
+  }
+
+  private async assertNoOpenWorkflows(declarationId: string): Promise<void> {
+    const openWorkflows = await holdStopWorkflowManager.getOpenWorkflowsForDeclaration(declarationId);
+    if (openWorkflows.length > 0) {
+      throw new DeclarationLifecycleError(
+        `Declaration has ${openWorkflows.length} open HOLD/STOP workflow(s); release them first`,
+        'WORKFLOW_OPEN'
+      );
+    }
+  }
+
+  private async getSnapshot(declaration: any, version: number): Promise<DeclarationSnapshot> {
+    if (version === declaration.version) {
+      return this.toSnapshot(declaration);
+    }
+
+    const record = await db.declarationVersion.findUnique({
+      where: { declaration_id_version: { declaration_id: declaration.id, version } }
+    });
+    if (!record) {
+      throw new DeclarationLifecycleError(`Version ${version} not found`, 'NOT_FOUND');
+    }
+
+    return JSON.parse(record.snapshot);
+  }
+
+  private createVersion(
+    client: Prisma.TransactionClient,
+    declarationDbId: string,
+    snapshot: DeclarationSnapshot,
+    changeType: DeclarationVersionInfo['change_type'],
+    reason: string,
+    changedBy: string,
+    flags: AmendmentFlag[]
+  ) {
+    return client.declarationVersion.create({
+      data: {
+        declaration_id: declarationDbId,
+        version: snapshot.version,
+        change_type: changeType,
+        snapshot: JSON.stringify(snapshot),
+        reason,
+        changed_by: changedBy,
+        flags: flags.length > 0 ? JSON.stringify(flags) : null
+      }
+    });
+  }
+
+  // The unique (declaration, version) key rejects a second change based on the same version
+  private async commitVersion<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new DeclarationLifecycleError('Declaration was changed concurrently; reload and retry', 'CONFLICT');
+      }
+      throw error;
+    }
+  }
+
+  private async writeAudit(declarationDbId: string, actor: string, action: string, payload: Record<string, any>) {
+    await db.audit.create({
+      data: {
+        event_id: `decl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        declaration_id: declarationDbId,
+        actor,
+        action,
+        payload_hash: JSON.stringify(payload)
+      }
+    });
+  }
+
+  private async loadDeclaration(declarationId: string) {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: declarationId },
+      include: { items: { orderBy: { line_no: 'asc' } } }
+    });
+
+    if (!declaration) {
+      throw new DeclarationLifecycleError(`Declaration ${declarationId} not found`, 'NOT_FOUND');
+    }
+
+    return declaration;
+  }
+
+  private toHeaderData(amendment: DeclarationAmendment): Partial<HeaderFields> {
+    const data: Partial<HeaderFields> = {};
+
+    if (amendment.arrival_port !== undefined) data.arrival_port = amendment.arrival_port;
+    if (amendment.lodgement_ts !== undefined) data.lodgement_ts = new Date(amendment.lodgement_ts).toISOString();
+    if (amendment.eta !== undefined) data.eta = amendment.eta ? new Date(amendment.eta).toISOString() : null;
+    if (amendment.channel !== undefined) data.channel = amendment.channel;
+
+    if (amendment.consignee) {
+      const { tin, name, addr, phones, emails } = amendment.consignee;
+      if (tin !== undefined) data.consignee_tin = tin;
+      if (name !== undefined) data.consignee_name = name;
+      if (addr !== undefined) data.consignee_addr = addr;
+      if (phones !== undefined) data.consignee_phones = JSON.stringify(phones);
+      if (emails !== undefined) data.consignee_emails = JSON.stringify(emails);
+    }
+
+    if (amendment.declarant) {
+      const { license_id, name } = amendment.declarant;
+      if (license_id !== undefined) data.declarant_license_id = license_id;
+      if (name !== undefined) data.declarant_name = name;
+    }
+
+    if (amendment.voyage) {
+      const { bl, vessel, origin, transshipment_ports } = amendment.voyage;
+      if (bl !== undefined) data.voyage_bl = bl;
+      if (vessel !== undefined) data.voyage_vessel = vessel;
+      if (origin !== undefined) data.voyage_origin = origin;
+      if (transshipment_ports !== undefined) data.transshipment_ports = JSON.stringify(transshipment_ports);
+    }
+
+    return data;
+  }
+
+  private toItemSnapshot(item: any, index: number): ItemSnapshot {
+    return {
+      line_no: item.line_no || index + 1,
+      declared_hs: item.declared_hs,
+      declared_desc: item.declared_desc,
+      qty: item.qty,
+      uom: item.uom,
+      gross_weight_kg: item.gross_weight_kg ?? null,
+      net_weight_kg: item.net_weight_kg ?? null,
+      invoice_currency: item.invoice_currency ?? null,
+      invoice_value: item.invoice_value ?? null,
+      invoice_value_usd: item.invoice_value_usd,
+      incoterm: item.incoterm ?? null,
+      country_origin: item.country_origin ?? null,
+      brand: item.brand ?? null,
+      model: item.model ?? null,
+      year: item.year ?? null
+    };
+  }
+
+  private toSnapshot(declaration: any): DeclarationSnapshot {
+    return {
+      version: declaration.version,
+      arrival_port: declaration.arrival_port,
+      lodgement_ts: declaration.lodgement_ts.toISOString(),
+      eta: declaration.eta ? declaration.eta.toISOString() : null,
+      channel: declaration.channel,
+      status: declaration.status,
+      consignee_tin: declaration.consignee_tin,
+      consignee_name: declaration.consignee_name,
+      consignee_addr: declaration.consignee_addr,
+      consignee_phones: declaration.consignee_phones,
+      consignee_emails: declaration.consignee_emails,
+      declarant_license_id: declaration.declarant_license_id,
+      declarant_name: declaration.declarant_name,
+      voyage_bl: declaration.voyage_bl,
+      voyage_vessel: declaration.voyage_vessel,
+      voyage_origin: declaration.voyage_origin,
+      transshipment_ports: declaration.transshipment_ports,
+      items: declaration.items.map((item: any, index: number) => this.toItemSnapshot(item, index))
+    };
+  }
+}
+
+export const declarationLifecycle = new DeclarationLifecycle();
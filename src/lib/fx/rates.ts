@@ -0,0 +1,293 @@
+import { db } from '@/lib/db';
+import { parseCsvRows } from '@/lib/csv';
+
+export class FxRateError extends Error {
+  constructor(message: string, public code: 'RATE_NOT_FOUND' | 'INVALID_CURRENCY') {
+    super(message);
+    this.name = 'FxRateError';
+  }
+}
+
+export interface FxRateQuote {
+  currency: string;
+  rate: number; // naira per unit
+  rate_date: string;
+  source: string;
+}
+
+export interface FxConversion {
+  amount: number;
+  from: string;
+  to: string;
+  rate: number; // units of `to` per unit of `from`
+  rate_date: string; // fixing date of the older of the two rates used
+}
+
+export interface FxLoadResult {
+  rows: number;
+  loaded: number;
+  currencies: string[];
+  from?: string;
+  to?: string;
+  errors: { row: number; message: string }[];
+  dry_run: boolean;
+}
+
+// CBN quotes every currency in naira, so naira is the pivot for cross rates
+export const BASE_CURRENCY = 'NGN';
+export const DEFAULT_FX_SOURCE = 'CBN';
+
+// Currency names used in the CBN exchange rate export
+const CBN_CURRENCY_NAMES: Record<string, string> = {
+  'US DOLLAR': 'USD',
+  'POUNDS STERLING': 'GBP',
+  'EURO': 'EUR',
+  'SWISS FRANC': 'CHF',
+  'YEN': 'JPY',
+  'CFA': 'XOF',
+  'WAUA': 'XUA',
+  'YUAN/RENMINBI': 'CNY',
+  'DANISH KRONA': 'DKK',
+  'RIYAL': 'SAR',
+  'SOUTH AFRICAN RAND': 'ZAR',
+  'CANADIAN DOLLAR': 'CAD'
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+class FxRateService {
+  // No fixing is published on weekends and public holidays; older rates are not used
+  private maxRateAgeDays = 7;
+  private cache = new Map<string, FxRateQuote | null>();
+  private maxCacheEntries = 5000;
+
+  /**
+   * The official rate in force on a date: the latest fixing on or before it,
+   * provided it is no more than maxRateAgeDays old.
+   */
+  async getRate(currency: string, date: Date, source: string = DEFAULT_FX_SOURCE): Promise<FxRateQuote> {
+    const code = this.normaliseCurrency(currency);
+    const day = startOfUtcDay(date);
+
+    if (code === BASE_CURRENCY) {
+      return { currency: code, rate: 1, rate_date: day.toISOString(), source };
+    }
+
+    const key = `${code}|${day.toISOString()}|${source}`;
+    if (!this.cache.has(key)) {
+      const earliest = new Date(day.getTime() - this.maxRateAgeDays * 24 * 60 * 60 * 1000);
+      const row = await db.fxRate.findFirst({
+        where: { currency: code, source, rate_date: { lte: day, gte: earliest } },
+        orderBy: { rate_date: 'desc' }
+      });
+
+      if (this.cache.size >= this.maxCacheEntries) this.cache.clear();
+      this.cache.set(key, row ? {
+        currency: row.currency,
+        rate: row.rate,
+        rate_date: row.rate_date.toISOString(),
+        source: row.source
+      } : null);
+    }
+
+    const quote = this.cache.get(key);
+    if (!quote) {
+      throw new FxRateError(
+        `No ${source} rate for ${code} within ${this.maxRateAgeDays} days before ${day.toISOString().substring(0, 10)}`,
+        'RATE_NOT_FOUND'
+      );
+    }
+    return quote;
+  }
+
+  async convert(amount: number, from: string, to: string, date: Date): Promise<FxConversion> {
+    const fromCode = this.normaliseCurrency(from);
+    const toCode = this.normaliseCurrency(to);
+
+    if (fromCode === toCode) {
+      return { amount, from: fromCode, to: toCode, rate: 1, rate_date: startOfUtcDay(date).toISOString() };
+    }
+
+    const [fromQuote, toQuote] = await Promise.all([this.getRate(fromCode, date), this.getRate(toCode, date)]);
+    const rate = fromQuote.rate / toQuote.rate;
+
+    return {
+      amount: Math.round(amount * rate * 100) / 100,
+      from: fromCode,
+      to: toCode,
+      rate,
+      rate_date: fromQuote.rate_date < toQuote.rate_date ? fromQuote.rate_date : toQuote.rate_date
+    };
+  }
+
+  /**
+   * Fill invoice_value_usd for items invoiced in another currency, at the official rate
+   * on the lodgement date. The original currency and amount stay on the item.
+   */
+  async convertInvoiceValues<T extends { lodgement_ts?: string; items?: any[] }>(declaration: T, lodgement?: Date): Promise<T> {
+    // Records that are not declarations are left for schema validation to report
+    if (!declaration || typeof declaration !== 'object' || !Array.isArray(declaration.items)) {
+      return declaration;
+    }
+    if (!declaration.items.some(item => item?.invoice_currency || item?.invoice_value !== undefined)) {
+      return declaration;
+    }
+
+    const asOf = lodgement || (declaration.lodgement_ts ? new Date(declaration.lodgement_ts) : new Date());
+    // An unparseable lodgement date is left for schema validation to report
+    if (isNaN(asOf.getTime())) return declaration;
+
+    const items: any[] = [];
+
+    for (const [index, item] of declaration.items.entries()) {
+      if (!item?.invoice_currency && item?.invoice_value === undefined) {
+        items.push(item);
+        continue;
+      }
+      if (!item.invoice_currency || typeof item.invoice_value !== 'number') {
+        throw new FxRateError(`Item ${item.line_no || index + 1}: invoice_currency and invoice_value must be given together`, 'INVALID_CURRENCY');
+      }
+
+      const conversion = await this.convert(item.invoice_value, item.invoice_currency, 'USD', asOf);
+      items.push({
+        ...item,
+        invoice_currency: conversion.from,
+        invoice_value_usd: conversion.amount
+      });
+    }
+
+    return { ...declaration, items };
+  }
+
+  async listRates(filters: { currency?: string; from?: Date; to?: Date; limit?: number } = {}) {
+    const where: any = {};
+    if (filters.currency) where.currency = this.normaliseCurrency(filters.currency);
+    if (filters.from || filters.to) {
+      where.rate_date = {
+        ...(filters.from ? { gte: startOfUtcDay(filters.from) } : {}),
+        ...(filters.to ? { lte: startOfUtcDay(filters.to) } : {})
+      };
+    }
+
+    return db.fxRate.findMany({
+      where,
+      orderBy: [{ rate_date: 'desc' }, { currency: 'asc' }],
+      take: Math.min(filters.limit || 100, 1000)
+    });
+  }
+
+  /**
+   * Load daily rates from CSV. Accepts our own columns (date, currency, rate) or the
+   * CBN export (Rate Date, Currency, Buying Rate, Central Rate, Selling Rate), where the
+   * central rate is used. Dates are ISO (2025-03-14) or CBN style (14-Mar-2025).
+   * Existing rates for the same currency, date and source are overwritten.
+   */
+  async loadCsv(content: string, options: { source?: string; dryRun?: boolean; loadedBy: string }): Promise<FxLoadResult> {
+    const source = options.source || DEFAULT_FX_SOURCE;
+    const [header, ...dataRows] = parseCsvRows(content).filter(row => row.some(cell => cell.trim() !== ''));
+    const columns = (header || []).map(column => column.trim().toLowerCase().replace(/[\s_]/g, ''));
+
+    const dateColumn = columns.findIndex(column => column === 'date' || column === 'ratedate');
+    const currencyColumn = columns.indexOf('currency');
+    const rateColumn = columns.findIndex(column => column === 'rate' || column === 'centralrate');
+
+    const result: FxLoadResult = { rows: dataRows.length, loaded: 0, currencies: [], errors: [], dry_run: !!options.dryRun };
+    if (dateColumn === -1 || currencyColumn === -1 || rateColumn === -1) {
+      result.errors.push({ row: 0, message: 'CSV needs date (or Rate Date), currency and rate (or Central Rate) columns' });
+      return result;
+    }
+
+    const rates: { currency: string; rate_date: Date; rate: number }[] = [];
+    dataRows.forEach((cells, index) => {
+      const row = index + 1;
+      const date = parseRateDate((cells[dateColumn] || '').trim());
+      const rate = Number((cells[rateColumn] || '').replace(/,/g, '').trim());
+      let currency: string;
+
+      try {
+        currency = this.normaliseCurrency(cells[currencyColumn] || '');
+      } catch (error) {
+        result.errors.push({ row, message: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+      if (!date) {
+        result.errors.push({ row, message: `Invalid date "${cells[dateColumn]}"` });
+        return;
+      }
+      if (!(rate > 0)) {
+        result.errors.push({ row, message: `Invalid rate "${cells[rateColumn]}"` });
+        return;
+      }
+
+      rates.push({ currency, rate_date: date, rate });
+    });
+
+    const dates = rates.map(rate => rate.rate_date.getTime());
+    result.currencies = Array.from(new Set(rates.map(rate => rate.currency))).sort();
+    if (dates.length > 0) {
+      result.from = new Date(Math.min(...dates)).toISOString();
+      result.to = new Date(Math.max(...dates)).toISOString();
+    }
+
+    if (options.dryRun || result.errors.length > 0 || rates.length === 0) {
+      return result;
+    }
+
+    await db.$transaction(rates.map(rate => db.fxRate.upsert({
+      where: { currency_rate_date_source: { currency: rate.currency, rate_date: rate.rate_date, source } },
+      create: { ...rate, source },
+      update: { rate: rate.rate }
+    })));
+    result.loaded = rates.length;
+    this.cache.clear();
+
+    await db.audit.create({
+      data: {
+        event_id: `fx_load_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        actor: options.loadedBy,
+        action: 'FX_RATES_LOADED',
+        payload_hash: JSON.stringify({
+          source,
+          loaded: result.loaded,
+          currencies: result.currencies,
+          from: result.from,
+          to: result.to
+        })
+      }
+    });
+
+    return result;
+  }
+
+  normaliseCurrency(currency: string): string {
+    const value = currency.trim().toUpperCase();
+    const code = CBN_CURRENCY_NAMES[value] || value;
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new FxRateError(`Unknown currency "${currency}"`, 'INVALID_CURRENCY');
+    }
+    return code;
+  }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function parseRateDate(text: string): Date | null {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  const cbn = /^(\d{1,2})-([A-Za-z]{3})-(\d{4})$/.exec(text);
+
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])];
+  } else if (cbn && MONTHS.includes(cbn[2].toUpperCase())) {
+    [year, month, day] = [Number(cbn[3]), MONTHS.indexOf(cbn[2].toUpperCase()), Number(cbn[1])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
+
+export const fxRateService = new FxRateService();
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import { asycudaAdapter, AsycudaAdapterError, AsycudaIngestResult } from './asycuda';
+import type { WorkflowActor } from '@/lib/workflow/state-machine';
+
+export interface AsycudaFileResult {
+  file: string;
+  status: 'PROCESSED' | 'FAILED';
+  result?: AsycudaIngestResult;
+  error?: string;
+}
+
+const PROCESSED_DIR = 'processed';
+const FAILED_DIR = 'failed';
+const WATCHER_ACTOR: WorkflowActor = { id: 'system:asycuda-watcher', role: 'SYSTEM' };
+// Exports are copied into the drop directory; wait for writes to settle before reading
+const SETTLE_MS = 500;
+
+/**
+ * Imports ASYCUDA XML exports dropped into a directory. Each file is moved to
+ * processed/ when every declaration in it was accepted, otherwise to failed/ next to
+ * a <file>.errors.json report. Files already present at start-up are picked up too.
+ */
+class AsycudaDirectoryWatcher {
+  private watcher: fs.FSWatcher | null = null;
+  private directory: string | null = null;
+  private pending = new Map<string, NodeJS.Timeout>();
+  private inFlight = new Set<string>();
+  private score = false;
+
+  async start(directory: string, options: { score?: boolean } = {}): Promise<void> {
+    if (this.watcher) return;
+
+    this.directory = path.resolve(directory);
+    this.score = !!options.score;
+    await this.ensureDirectories(this.directory);
+
+    this.watcher = fs.watch(this.directory, (_event, fileName) => {
+      if (fileName) this.schedule(fileName.toString());
+    });
+    this.watcher.on('error', error => console.error('ASYCUDA watcher error:', error));
+
+    await this.processDirectory(this.directory, { score: this.score });
+    console.log(`ASYCUDA importer watching ${this.directory}`);
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.pending.values()) clearTimeout(timer);
+    this.pending.clear();
+  }
+
+  // One pass over the directory; also usable without a running watcher, e.g. against fixtures
+  async processDirectory(directory: string, options: { score?: boolean } = {}): Promise<AsycudaFileResult[]> {
+    const resolved = path.resolve(directory);
+    await this.ensureDirectories(resolved);
+
+    const files = (await fs.promises.readdir(resolved, { withFileTypes: true }))
+      .filter(entry => entry.isFile() && isXmlFile(entry.name))
+      .map(entry => entry.name)
+      .sort();
+
+    const results: AsycudaFileResult[] = [];
+    for (const file of files) {
+      const result = await this.processFile(path.join(resolved, file), options);
+      if (result) results.push(result);
+    }
+    return results;
+  }
+
+  async processFile(filePath: string, options: { score?: boolean } = {}): Promise<AsycudaFileResult | null> {
+    if (this.inFlight.has(filePath)) return null;
+    this.inFlight.add(filePath);
+
+    const directory = path.dirname(filePath);
+    const file = path.basename(filePath);
+
+    try {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(filePath, 'utf8');
+      } catch (error: any) {
+        // Already moved by an earlier event for the same file
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+
+      let outcome: AsycudaFileResult;
+      try {
+        const result = await asycudaAdapter.ingest(content, {
+          source: file,
+          score: options.score,
+          actor: WATCHER_ACTOR
+        });
+        outcome = {
+          file,
+          status: result.rejected.length === 0 ? 'PROCESSED' : 'FAILED',
+          result
+        };
+      } catch (error) {
+        if (!(error instanceof AsycudaAdapterError)) {
+          console.error(`ASYCUDA import of ${file} failed:`, error);
+        }
+        outcome = {
+          file,
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+
+      const target = path.join(directory, outcome.status === 'PROCESSED' ? PROCESSED_DIR : FAILED_DIR, file);
+      await fs.promises.rename(filePath, target);
+      if (outcome.status === 'FAILED') {
+        await fs.promises.writeFile(
+          `${target}.errors.json`,
+          JSON.stringify({ file, error: outcome.error, ...outcome.result }, null, 2)
+        );
+      }
+
+      return outcome;
+    } finally {
+      this.inFlight.delete(filePath);
+    }
+  }
+
+  private schedule(fileName: string): void {
+    if (!this.directory || !isXmlFile(fileName)) return;
+
+    const filePath = path.join(this.directory, fileName);
+    const existing = this.pending.get(filePath);
+    if (existing) clearTimeout(existing);
+
+    this.pending.set(filePath, setTimeout(() => {
+      this.pending.delete(filePath);
+      this.processFile(filePath, { score: this.score })
+        .catch(error => console.error(`ASYCUDA import of ${fileName} failed:`, error));
+    }, SETTLE_MS));
+  }
+
+  private async ensureDirectories(directory: string): Promise<void> {
+    await fs.promises.mkdir(path.join(directory, PROCESSED_DIR), { recursive: true });
+    await fs.promises.mkdir(path.join(directory, FAILED_DIR), { recursive: true });
+  }
+}
+
+function isXmlFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.xml');
+}
+
+export const asycudaDirectoryWatcher = new AsycudaDirectoryWatcher();
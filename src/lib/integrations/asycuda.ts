@@ -0,0 +1,343 @@
+import { db } from '@/lib/db';
+import { declarationSchema, validateData, validateBusinessRules } from '@/lib/validation/schemas';
+import { bulkImportService } from '@/lib/declarations/bulk-import';
+import { DeclarationLifecycleError } from '@/lib/declarations/lifecycle';
+import { hsNomenclature, HS_LEVEL_DIGITS } from '@/lib/tariff/nomenclature';
+import { fxRateService, FxRateError } from '@/lib/fx/rates';
+import type { WorkflowActor } from '@/lib/workflow/state-machine';
+import { parseXml, findAll, textAt, XmlElement, XmlParseError } from './xml';
+
+export class AsycudaAdapterError extends Error {
+  constructor(message: string, public code: 'INVALID_XML' | 'NO_DECLARATIONS') {
+    super(message);
+    this.name = 'AsycudaAdapterError';
+  }
+}
+
+export interface AsycudaMappingError {
+  document: number; // 1-based position of the <ASYCUDA> element in the message
+  declaration_id?: string;
+  path: string; // source XML path, or the declarationSchema field for validation errors
+  message: string;
+}
+
+export interface AsycudaMappedDeclaration {
+  document: number;
+  declaration_id?: string;
+  data: any;
+  errors: AsycudaMappingError[];
+}
+
+export interface AsycudaIngestOptions {
+  source?: string; // file name or webhook caller, recorded in the audit trail
+  score?: boolean;
+  actor: WorkflowActor;
+}
+
+export interface AsycudaIngestResult {
+  received: number;
+  accepted: string[];
+  rejected: Array<{ document: number; declaration_id?: string; errors: AsycudaMappingError[] }>;
+}
+
+const DOCUMENT_ELEMENT = 'ASYCUDA';
+const VALUATION_CURRENCY = 'USD';
+const CHANNEL_COLOURS = ['GREEN', 'YELLOW', 'RED'];
+
+class AsycudaAdapter {
+  /**
+   * Parse a clearance system export and map every SAD document in it. The message is
+   * either a single <ASYCUDA> document or any root element wrapping several of them.
+   * Mapping and validation problems are reported per document rather than thrown.
+   */
+  async parse(xml: string): Promise<AsycudaMappedDeclaration[]> {
+    let root: XmlElement;
+    try {
+      root = parseXml(xml);
+    } catch (error) {
+      if (error instanceof XmlParseError) {
+        throw new AsycudaAdapterError(`Malformed XML: ${error.message}`, 'INVALID_XML');
+      }
+      throw error;
+    }
+
+    const documents = root.name === DOCUMENT_ELEMENT ? [root] : findAll(root, DOCUMENT_ELEMENT);
+    if (documents.length === 0) {
+      throw new AsycudaAdapterError(`No <${DOCUMENT_ELEMENT}> declaration documents found`, 'NO_DECLARATIONS');
+    }
+
+    const mapped: AsycudaMappedDeclaration[] = [];
+    for (const [index, document] of documents.entries()) {
+      mapped.push(await this.mapDocument(document, index + 1));
+    }
+    return mapped;
+  }
+
+  async mapDocument(document: XmlElement, documentNo: number): Promise<AsycudaMappedDeclaration> {
+    const errors: AsycudaMappingError[] = [];
+    const fail = (path: string, message: string) => errors.push({ document: documentNo, path, message });
+
+    const office = textAt(document, 'Identification/Office_segment/Customs_clearance_office_code');
+    const serial = textAt(document, 'Identification/Registration/Serial_number');
+    const number = textAt(document, 'Identification/Registration/Number');
+    const registrationDate = textAt(document, 'Identification/Registration/Date');
+
+    if (!office) fail('Identification/Office_segment/Customs_clearance_office_code', 'Customs office code is required');
+    if (!number) fail('Identification/Registration/Number', 'Registration number is required');
+
+    const lodgement = registrationDate ? parseAsycudaDate(registrationDate) : null;
+    if (!registrationDate) {
+      fail('Identification/Registration/Date', 'Registration date is required');
+    } else if (!lodgement) {
+      fail('Identification/Registration/Date', `Unrecognised date "${registrationDate}"`);
+    }
+
+    // Registration numbers restart every year at each office, so all three identify the declaration
+    const year = lodgement ? lodgement.getUTCFullYear() : undefined;
+    const declarationId = office && number && year
+      ? `${office}-${serial || ''}${number}-${year}`
+      : undefined;
+
+    const consigneeName = textAt(document, 'Traders/Consignee/Consignee_name');
+    const [name, ...addressLines] = (consigneeName || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+    const colour = textAt(document, 'Selectivity/Colour')?.toUpperCase();
+    const incoterm = textAt(document, 'Transport/Delivery_terms/Code')?.toUpperCase();
+    const origin = textAt(document, 'General_information/Country/Export/Export_country_code')?.toUpperCase();
+
+    const items = findAll(document, 'Item').map((item, index) =>
+      this.mapItem(item, index + 1, incoterm, (path, message) => fail(`Item[${index + 1}]/${path}`, message))
+    );
+    if (items.length === 0) fail('Item', 'Declaration has no items');
+
+    let data: any = {
+      declaration_id: declarationId,
+      ucms_ref: office && number && year ? `${office} ${serial || ''} ${number} ${year}`.replace(/\s+/g, ' ') : undefined,
+      arrival_port: office,
+      lodgement_ts: lodgement ? lodgement.toISOString() : undefined,
+      channel: colour && CHANNEL_COLOURS.includes(colour) ? colour : undefined,
+      consignee: {
+        tin: textAt(document, 'Traders/Consignee/Consignee_code'),
+        name,
+        addr: addressLines.length > 0 ? addressLines.join(', ') : undefined
+      },
+      declarant: {
+        license_id: textAt(document, 'Declarant/Declarant_code'),
+        name: textAt(document, 'Declarant/Declarant_name')?.split(/\r?\n/)[0].trim()
+      },
+      voyage: {
+        bl: items.find(item => item.bl)?.bl,
+        vessel: textAt(document, 'Transport/Means_of_transport/Departure_arrival_information/Identity'),
+        origin
+      },
+      items: items.map(({ bl: _bl, ...item }) => item)
+    };
+
+    // Foreign-currency invoices are valued in USD at the official rate on the registration date
+    if (errors.length === 0) {
+      try {
+        data = await fxRateService.convertInvoiceValues(data);
+      } catch (error) {
+        if (!(error instanceof FxRateError)) throw error;
+        fail('Valuation_item/Item_Invoice/Currency_code', error.message);
+      }
+    }
+
+    // Schema checks only make sense once the mapping itself succeeded
+    if (errors.length === 0) {
+      const result = validateData(declarationSchema, data);
+      if (!result.success) {
+        for (const issue of result.errors || []) {
+          fail(issue.path.join('.'), issue.message);
+        }
+      } else {
+        for (const message of validateBusinessRules(result.data)) {
+          fail('declaration', message);
+        }
+      }
+    }
+
+    return {
+      document: documentNo,
+      declaration_id: declarationId,
+      data,
+      errors: errors.map(error => ({ ...error, declaration_id: declarationId }))
+    };
+  }
+
+  /**
+   * Map, validate and store every declaration in the message. Documents with errors are
+   * rejected individually. New declarations are created and optionally scored; re-sent
+   * ones are amended through the declaration lifecycle, which re-scores them.
+   */
+  async ingest(xml: string, options: AsycudaIngestOptions): Promise<AsycudaIngestResult> {
+    const mapped = await this.parse(xml);
+    const result: AsycudaIngestResult = { received: mapped.length, accepted: [], rejected: [] };
+
+    for (const declaration of mapped) {
+      if (declaration.errors.length === 0) {
+        const hsErrors = await hsNomenclature.validateDeclaredCodes(
+          declaration.data.items,
+          new Date(declaration.data.lodgement_ts)
+        );
+        declaration.errors.push(...hsErrors.map(message => ({
+          document: declaration.document,
+          declaration_id: declaration.declaration_id,
+          path: 'items',
+          message
+        })));
+      }
+
+      if (declaration.errors.length > 0) {
+        result.rejected.push({
+          document: declaration.document,
+          declaration_id: declaration.declaration_id,
+          errors: declaration.errors
+        });
+        continue;
+      }
+
+      let stored;
+      try {
+        stored = await bulkImportService.storeDeclaration(
+          declaration.data,
+          options.actor,
+          `Re-sent by ${options.source || 'asycuda'}`
+        );
+      } catch (error) {
+        // Cancelled declarations and those under an open STOP cannot be replaced
+        if (!(error instanceof DeclarationLifecycleError)) throw error;
+        result.rejected.push({
+          document: declaration.document,
+          declaration_id: declaration.declaration_id,
+          errors: [{
+            document: declaration.document,
+            declaration_id: declaration.declaration_id,
+            path: 'declaration',
+            message: error.message
+          }]
+        });
+        continue;
+      }
+
+      await db.audit.create({
+        data: {
+          event_id: `asycuda_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          declaration_id: stored.id,
+          actor: options.actor.id,
+          action: 'DECLARATION_RECEIVED',
+          payload_hash: JSON.stringify({
+            source: options.source || 'asycuda',
+            ucms_ref: declaration.data.ucms_ref,
+            items: declaration.data.items.length,
+            outcome: stored.outcome
+          })
+        }
+      });
+
+      if (options.score && stored.outcome === 'CREATED') {
+        await bulkImportService.scoreDeclaration(stored.declaration_id, options.actor.id);
+      }
+
+      result.accepted.push(stored.declaration_id);
+    }
+
+    return result;
+  }
+
+  private mapItem(
+    item: XmlElement,
+    lineNo: number,
+    incoterm: string | undefined,
+    fail: (path: string, message: string) => void
+  ): any {
+    const commodityCode = textAt(item, 'Tarification/HScode/Commodity_code');
+    const hsDigits = (commodityCode || '').replace(/\D/g, '');
+    if (!commodityCode) {
+      fail('Tarification/HScode/Commodity_code', 'Commodity code is required');
+    } else if (hsDigits.length < 6) {
+      fail('Tarification/HScode/Commodity_code', `Commodity code "${commodityCode}" has fewer than 6 digits`);
+    }
+    // The national tariff line is the commodity code followed by its precision digits; without
+    // a full line, declare the subheading and let the tariff resolve rates from there
+    const nationalLine = hsDigits + (textAt(item, 'Tarification/HScode/Precision_4') || '').replace(/\D/g, '');
+    const declaredHs = nationalLine.length === HS_LEVEL_DIGITS.TARIFF_LINE
+      ? nationalLine
+      : hsDigits.substring(0, HS_LEVEL_DIGITS.SUBHEADING);
+
+    // Supplementary units are the tariff quantity; packages are the fallback when the tariff line has none
+    const supplementaryQty = textAt(item, 'Tarification/Supplementary_unit/Supplementary_unit_quantity');
+    const qtyPath = supplementaryQty ? 'Tarification/Supplementary_unit/Supplementary_unit_quantity' : 'Packages/Number_of_packages';
+    const qty = readNumber(item, qtyPath, fail, true);
+    const uom = supplementaryQty
+      ? textAt(item, 'Tarification/Supplementary_unit/Supplementary_unit_code')
+      : textAt(item, 'Packages/Kind_of_packages_code');
+    if (!uom) fail(supplementaryQty ? 'Tarification/Supplementary_unit/Supplementary_unit_code' : 'Packages/Kind_of_packages_code', 'Unit of measure is required');
+
+    const description = textAt(item, 'Goods_description/Commercial_Description')
+      || textAt(item, 'Goods_description/Description_of_goods');
+    if (!description) fail('Goods_description/Commercial_Description', 'Goods description is required');
+
+    const currency = textAt(item, 'Valuation_item/Item_Invoice/Currency_code')?.toUpperCase();
+    const invoiceValue = readNumber(item, 'Valuation_item/Item_Invoice/Amount_foreign_currency', fail, true);
+    const foreignCurrency = !!currency && currency !== VALUATION_CURRENCY;
+
+    return {
+      line_no: lineNo,
+      declared_hs: declaredHs,
+      declared_desc: description,
+      qty,
+      uom,
+      gross_weight_kg: readNumber(item, 'Valuation_item/Weight_itm/Gross_weight_itm', fail),
+      net_weight_kg: readNumber(item, 'Valuation_item/Weight_itm/Net_weight_itm', fail),
+      // Converted to invoice_value_usd in mapDocument
+      ...(foreignCurrency
+        ? { invoice_currency: currency, invoice_value: invoiceValue }
+        : { invoice_value_usd: invoiceValue }),
+      incoterm,
+      country_origin: textAt(item, 'Goods_description/Country_of_origin_code')?.toUpperCase(),
+      bl: textAt(item, 'Previous_doc/Summary_declaration')
+    };
+  }
+}
+
+function readNumber(
+  element: XmlElement,
+  path: string,
+  fail: (path: string, message: string) => void,
+  required = false
+): number | undefined {
+  const text = textAt(element, path);
+  if (!text) {
+    if (required) fail(path, 'Value is required');
+    return undefined;
+  }
+
+  const value = Number(text.replace(/,/g, ''));
+  if (isNaN(value)) {
+    fail(path, `"${text}" is not a number`);
+    return undefined;
+  }
+  return value;
+}
+
+// ASYCUDA exports dates as ISO (2025-03-14) or day-first (14/03/2025, 14/03/25)
+function parseAsycudaDate(text: string): Date | null {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  const dayFirst = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(text);
+
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dayFirst) {
+    [day, month, year] = [Number(dayFirst[1]), Number(dayFirst[2]), Number(dayFirst[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+export const asycudaAdapter = new AsycudaAdapter();
@@ -0,0 +1,138 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated direct text and CDATA, trimmed
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'XmlParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+// position is where value starts in the document, for error reporting
+function decodeEntities(value: string, position: number): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string, offset: number) => {
+    if (!entity.startsWith('#')) return ENTITIES[entity] ?? match;
+
+    const codePoint = entity.startsWith('#x') ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+    if (codePoint > 0x10ffff) throw new XmlParseError(`Invalid character reference "${match}"`, position + offset);
+    return String.fromCodePoint(codePoint);
+  });
+}
+
+/**
+ * Small non-validating XML parser for integration messages: elements, attributes,
+ * text, CDATA and the predefined entities. Comments, processing instructions and
+ * DOCTYPE declarations are skipped; namespaces prefixes are kept in element names.
+ */
+export function parseXml(xml: string): XmlElement {
+  let position = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  const textParts: string[][] = [];
+
+  const skipUntil = (terminator: string) => {
+    const end = xml.indexOf(terminator, position);
+    if (end === -1) throw new XmlParseError(`Unterminated construct, expected "${terminator}"`, position);
+    position = end + terminator.length;
+  };
+
+  while (position < xml.length) {
+    const next = xml.indexOf('<', position);
+    const text = next === -1 ? xml.substring(position) : xml.substring(position, next);
+
+    if (text.trim() !== '') {
+      if (stack.length === 0) throw new XmlParseError('Text outside the root element', position);
+      textParts[textParts.length - 1].push(decodeEntities(text, position));
+    }
+    if (next === -1) break;
+    position = next;
+
+    if (xml.startsWith('<!--', position)) {
+      skipUntil('-->');
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      const end = xml.indexOf(']]>', position);
+      if (end === -1) throw new XmlParseError('Unterminated CDATA section', position);
+      if (stack.length === 0) throw new XmlParseError('CDATA outside the root element', position);
+      textParts[textParts.length - 1].push(xml.substring(position + 9, end));
+      position = end + 3;
+    } else if (xml.startsWith('<?', position)) {
+      skipUntil('?>');
+    } else if (xml.startsWith('<!', position)) {
+      skipUntil('>');
+    } else if (xml.startsWith('</', position)) {
+      const end = xml.indexOf('>', position);
+      if (end === -1) throw new XmlParseError('Unterminated closing tag', position);
+      const name = xml.substring(position + 2, end).trim();
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`, position);
+      }
+      element.text = (textParts.pop() || []).join('').trim();
+      position = end + 1;
+    } else {
+      const match = /^<([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.substring(position));
+      if (!match) throw new XmlParseError('Malformed start tag', position);
+
+      const attributes: Record<string, string> = {};
+      const attributePattern = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(match[2])) !== null) {
+        attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3], position);
+      }
+
+      const element: XmlElement = { name: match[1], attributes, children: [], text: '' };
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        throw new XmlParseError('Document has more than one root element', position);
+      } else {
+        root = element;
+      }
+
+      if (!match[3]) {
+        stack.push(element);
+        textParts.push([]);
+      }
+      position += match[0].length;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`, position);
+  }
+  if (!root) {
+    throw new XmlParseError('Document has no root element', 0);
+  }
+
+  return root;
+}
+
+// Child elements along a slash-separated path, e.g. "Traders/Consignee/Consignee_name"
+export function findAll(element: XmlElement, path: string): XmlElement[] {
+  return path.split('/').reduce<XmlElement[]>(
+    (current, name) => current.flatMap(node => node.children.filter(child => child.name === name)),
+    [element]
+  );
+}
+
+export function find(element: XmlElement, path: string): XmlElement | undefined {
+  return findAll(element, path)[0];
+}
+
+// Text of the first element on the path; empty elements read as undefined
+export function textAt(element: XmlElement, path: string): string | undefined {
+  const text = find(element, path)?.text;
+  return text ? text : undefined;
+}
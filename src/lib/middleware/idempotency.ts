@@ -52,6 +52,16 @@ export async function storeIdempotentResponse(
   }
 }
 
+export async function cleanupExpiredIdempotencyKeys(): Promise<number> {
+  const result = await db.idempotencyCache.deleteMany({
+    where: {
+      expires_at: { lt: new Date() }
+    }
+  });
+
+  return result.count;
+}
+
 export function withIdempotency(handler: (req: NextRequest) => Promise<NextResponse>, endpoint: string) {
   return async (req: NextRequest) => {
     try {
@@ -1,4 +1,6 @@
 import { db } from '@/lib/db';
+import { notificationService } from '@/lib/notifications/service';
+import { consoleEvents } from '@/lib/socket';
 
 export interface DriftAlert {
   id: string;
@@ -290,10 +292,26 @@ class DriftMonitor {
   }
 
   private async sendDriftNotification(alert: DriftAlert): Promise<void> {
-    // In production, this would send actual notifications
-    console.log(`Drift Alert: ${alert.severity} - ${alert.description}`);
-    console.log(`Drift Score: ${alert.drift_score.toFixed(3)} (Threshold: ${alert.threshold})`);
-    console.log(`Recommended Action: ${alert.recommended_action}`);
+    const admins = await db.user.findMany({
+      where: { role: 'ADMIN' },
+      select: { email: true }
+    });
+    const extraRecipients = (process.env.DRIFT_ALERT_RECIPIENTS || '')
+      .split(',')
+      .map(email => email.trim());
+
+    consoleEvents.publish('drift.alert', alert, {
+      roles: ['ADMIN', 'VALUATION'],
+      assignees: [alert.assigned_to]
+    });
+
+    await notificationService.notify('DRIFT_ALERT', {
+      recipients: [alert.assigned_to, ...admins.map(admin => admin.email), ...extraRecipients],
+      data: { ...alert, drift_score: alert.drift_score.toFixed(3) },
+      // The same drift on the same entities is one alert until the dedup window passes
+      entityId: `${alert.metric_type}:${alert.affected_entities.join(',')}`,
+      severity: alert.severity === 'HIGH' || alert.severity === 'CRITICAL' ? 'CRITICAL' : 'WARNING'
+    });
   }
 
   private calculateModelAccuracy(scores: any[]): number {
@@ -0,0 +1,417 @@
+import net from 'net';
+import tls from 'tls';
+import dns from 'dns';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { db } from '@/lib/db';
+
+export type ChannelName = 'email' | 'sms' | 'in_app' | 'webhook';
+
+export interface NotificationRecipient {
+  email: string;
+  phone?: string | null;
+  webhook_url?: string | null;
+}
+
+export interface RenderedNotification {
+  event_type: string;
+  subject: string;
+  body: string;
+  severity: 'INFO' | 'WARNING' | 'CRITICAL';
+  link?: string;
+  data: Record<string, any>;
+}
+
+export interface NotificationChannel {
+  name: ChannelName;
+  // Whether the recipient has the contact details this channel needs
+  canDeliver(recipient: NotificationRecipient): boolean;
+  // Resolves with a provider reference when available, throws on failure
+  send(message: RenderedNotification, recipient: NotificationRecipient): Promise<string | undefined>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (port 465); otherwise the connection is upgraded with STARTTLS
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Minimal SMTP client: EHLO, STARTTLS, optional AUTH PLAIN, one message per connection.
+ * Credentials are only sent once the connection is encrypted.
+ */
+export class SmtpEmailChannel implements NotificationChannel {
+  name: ChannelName = 'email';
+
+  constructor(private config: SmtpConfig) {}
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return !!recipient.email;
+  }
+
+  async send(message: RenderedNotification, recipient: NotificationRecipient): Promise<string | undefined> {
+    const { host, port, secure, user, pass, from, timeoutMs = 15000 } = this.config;
+    const helo = `EHLO ${process.env.SMTP_HELO_NAME || 'fris.local'}`;
+    let socket: net.Socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+
+    let session = new SmtpSession(socket);
+    try {
+      await session.expect(220);
+      const capabilities = await session.command(helo, 250);
+      let encrypted = secure;
+
+      if (!encrypted && /^250[ -]STARTTLS\b/im.test(capabilities)) {
+        await session.command('STARTTLS', 220);
+        session.detach();
+        socket.setTimeout(0);
+        socket = await upgradeToTls(socket, host);
+        socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+        session = new SmtpSession(socket);
+        // Capabilities sent before the upgrade are discarded, as RFC 3207 requires
+        await session.command(helo, 250);
+        encrypted = true;
+      }
+
+      if (user && pass) {
+        if (!encrypted) {
+          throw new Error(`SMTP server ${host} does not offer STARTTLS; refusing to send credentials in cleartext`);
+        }
+        const credentials = Buffer.from(`\u0000${user}\u0000${pass}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+      await session.command(`MAIL FROM:<${from}>`, 250);
+      await session.command(`RCPT TO:<${recipient.email}>`, [250, 251]);
+      await session.command('DATA', 354);
+
+      const messageId = `<${Date.now()}.${Math.random().toString(36).substr(2, 9)}@${host}>`;
+      const content = [
+        `From: ${from}`,
+        `To: ${recipient.email}`,
+        `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+        `Message-ID: ${messageId}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        // Dot-stuffing so body lines starting with "." are not read as the terminator
+        ...message.body.split(/\r?\n/).map(line => (line.startsWith('.') ? `.${line}` : line))
+      ].join('\r\n');
+
+      await session.command(`${content}\r\n.`, 250);
+      await session.command('QUIT', 221).catch(() => undefined);
+      return messageId;
+    } finally {
+      socket.end();
+    }
+  }
+}
+
+// Certificates are verified against the SMTP host, as with implicit TLS
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => {
+      secured.off('error', reject);
+      resolve(secured);
+    });
+    secured.once('error', reject);
+  });
+}
+
+class SmtpSession {
+  private buffer = '';
+  private waiting: ((response: { code: number; text: string }) => void) | null = null;
+  private failure: Error | null = null;
+  private rejectWaiting: ((error: Error) => void) | null = null;
+
+  private onData = (chunk: string) => {
+    this.buffer += chunk;
+    this.flush();
+  };
+  private onError = (error: Error) => this.fail(error);
+  private onClose = () => this.fail(new Error('SMTP connection closed'));
+
+  constructor(private socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  // Stop reading the socket, before it is handed over to TLS
+  detach(): void {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+  }
+
+  async command(line: string, expected: number | number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  expect(expected: number | number[]): Promise<string> {
+    const codes = Array.isArray(expected) ? expected : [expected];
+    return new Promise((resolve, reject) => {
+      if (this.failure) return reject(this.failure);
+      this.rejectWaiting = reject;
+      this.waiting = ({ code, text }) => {
+        if (codes.includes(code)) {
+          resolve(text);
+        } else {
+          reject(new Error(`SMTP error ${code}: ${text.trim()}`));
+        }
+      };
+      this.flush();
+    });
+  }
+
+  // A reply is complete at a line of the form "250 text" (continuations use "250-text")
+  private flush(): void {
+    if (!this.waiting) return;
+    const lines = this.buffer.split('\r\n');
+    const lastIndex = lines.findIndex(line => /^\d{3} /.test(line) || /^\d{3}$/.test(line));
+    if (lastIndex === -1) return;
+
+    const reply = lines.slice(0, lastIndex + 1);
+    this.buffer = lines.slice(lastIndex + 1).join('\r\n');
+    const callback = this.waiting;
+    this.waiting = null;
+    this.rejectWaiting = null;
+    callback({ code: parseInt(reply[lastIndex].substring(0, 3), 10), text: reply.join('\n') });
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.rejectWaiting) {
+      const reject = this.rejectWaiting;
+      this.waiting = null;
+      this.rejectWaiting = null;
+      reject(error);
+    }
+  }
+}
+
+/**
+ * SMS through an HTTP gateway that accepts { to, message, sender } as JSON.
+ */
+export class HttpSmsChannel implements NotificationChannel {
+  name: ChannelName = 'sms';
+
+  constructor(private config: { url: string; apiKey?: string; sender: string; timeoutMs?: number }) {}
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return !!recipient.phone;
+  }
+
+  async send(message: RenderedNotification, recipient: NotificationRecipient): Promise<string | undefined> {
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        to: recipient.phone,
+        sender: this.config.sender,
+        // SMS carries the subject only; details are in the console
+        message: message.subject.substring(0, 160)
+      }),
+      signal: AbortSignal.timeout(this.config.timeoutMs || 10000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with ${response.status}`);
+    }
+
+    const result = await response.json().catch(() => ({}));
+    return result.id || result.message_id;
+  }
+}
+
+/**
+ * Per-user webhook URLs must be https and on a host in the admin-managed allow-list, and
+ * may not resolve to a private or loopback address. The default URL is deployment
+ * configuration and is trusted as is.
+ */
+export class WebhookChannel implements NotificationChannel {
+  name: ChannelName = 'webhook';
+
+  constructor(private config: { defaultUrl?: string; allowedHosts?: string[]; timeoutMs?: number } = {}) {}
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return !!(recipient.webhook_url || this.config.defaultUrl);
+  }
+
+  async send(message: RenderedNotification, recipient: NotificationRecipient): Promise<string | undefined> {
+    if (recipient.webhook_url) {
+      await assertWebhookUrlAllowed(recipient.webhook_url, this.config.allowedHosts || [], { resolve: true });
+    }
+
+    const response = await fetch((recipient.webhook_url || this.config.defaultUrl)!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        event_type: message.event_type,
+        severity: message.severity,
+        subject: message.subject,
+        body: message.body,
+        link: message.link,
+        recipient: recipient.email,
+        data: message.data,
+        timestamp: new Date().toISOString()
+      }),
+      // A redirect could lead anywhere, including internal addresses
+      redirect: 'error',
+      signal: AbortSignal.timeout(this.config.timeoutMs || 10000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+
+    return undefined;
+  }
+}
+
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+/**
+ * Throws WebhookUrlError unless the URL is https, its host is in the allow-list (exactly,
+ * or as a subdomain of an entry) and, when resolving, none of its addresses is private.
+ */
+export async function assertWebhookUrlAllowed(
+  url: string,
+  allowedHosts: string[],
+  options: { resolve?: boolean } = {}
+): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookUrlError(`Invalid webhook URL: ${url}`);
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new WebhookUrlError('Webhook URLs must use https');
+  }
+  if (parsed.username || parsed.password) {
+    throw new WebhookUrlError('Webhook URLs may not contain credentials');
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const allowed = allowedHosts.some(entry => host === entry || host.endsWith(`.${entry}`));
+  if (!allowed) {
+    throw new WebhookUrlError(`Webhook host ${host} is not in the allowed list`);
+  }
+
+  const addresses = net.isIP(host)
+    ? [host]
+    : options.resolve
+      ? (await lookupAddresses(host)).map(entry => entry.address)
+      : [];
+  const internal = addresses.find(isPrivateAddress);
+  if (internal) {
+    throw new WebhookUrlError(`Webhook host ${host} resolves to private address ${internal}`);
+  }
+}
+
+async function lookupAddresses(host: string): Promise<dns.LookupAddress[]> {
+  try {
+    return await dns.promises.lookup(host, { all: true });
+  } catch (error: any) {
+    if (error?.code === 'ENOTFOUND') throw new WebhookUrlError(`Webhook host ${host} could not be resolved`);
+    throw error;
+  }
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+      || (a === 169 && b === 254) // link-local, including cloud metadata
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || a >= 224;
+  }
+
+  const lower = address.toLowerCase();
+  return lower === '::' || lower === '::1'
+    || /^f[cd]/.test(lower) // unique local
+    || /^fe[89ab]/.test(lower); // link-local
+}
+
+// Inbox shown in the officer console
+export class InAppChannel implements NotificationChannel {
+  name: ChannelName = 'in_app';
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return !!recipient.email;
+  }
+
+  async send(message: RenderedNotification, recipient: NotificationRecipient): Promise<string | undefined> {
+    const record = await db.inAppNotification.create({
+      data: {
+        user_email: recipient.email,
+        event_type: message.event_type,
+        severity: message.severity,
+        title: message.subject,
+        body: message.body,
+        link: message.link || null
+      }
+    });
+
+    return record.id;
+  }
+}
+
+/**
+ * Local stand-in for external channels: appends each message as a JSON line.
+ */
+export class FileTransportChannel implements NotificationChannel {
+  constructor(public name: ChannelName, private filePath: string) {}
+
+  canDeliver(): boolean {
+    return true;
+  }
+
+  async send(message: RenderedNotification, recipient: NotificationRecipient): Promise<string | undefined> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify({ channel: this.name, recipient, ...message, sent_at: new Date().toISOString() }) + '\n'
+    );
+    return undefined;
+  }
+}
+
+// Keeps messages in memory, for tests
+export class MemoryTransportChannel implements NotificationChannel {
+  sent: { message: RenderedNotification; recipient: NotificationRecipient }[] = [];
+
+  constructor(public name: ChannelName) {}
+
+  canDeliver(): boolean {
+    return true;
+  }
+
+  async send(message: RenderedNotification, recipient: NotificationRecipient): Promise<string | undefined> {
+    this.sent.push({ message, recipient });
+    return `memory_${this.sent.length}`;
+  }
+}
@@ -0,0 +1,377 @@
+import path from 'path';
+import { db } from '@/lib/db';
+import {
+  ChannelName,
+  FileTransportChannel,
+  HttpSmsChannel,
+  InAppChannel,
+  MemoryTransportChannel,
+  assertWebhookUrlAllowed,
+  NotificationChannel,
+  NotificationRecipient,
+  RenderedNotification,
+  SmtpEmailChannel,
+  WebhookChannel,
+  WebhookUrlError
+} from '@/lib/notifications/channels';
+import { NotificationEventType, notificationTemplates, renderNotification } from '@/lib/notifications/templates';
+
+// Preferences the caller asked for that cannot be stored as given
+export class NotificationPreferencesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationPreferencesError';
+  }
+}
+
+export interface NotifyOptions {
+  recipients: (string | null | undefined)[]; // user emails; blanks and 'system' are ignored
+  data: Record<string, any>;
+  entityId: string; // what the event is about, used for deduplication
+  dedupDiscriminator?: string | number; // separates distinct events on the same entity, e.g. SLA thresholds
+  severity?: RenderedNotification['severity'];
+}
+
+export interface NotificationPreferences {
+  user_email: string;
+  channels: ChannelName[];
+  event_channels: Partial<Record<NotificationEventType, ChannelName[]>>;
+  phone?: string | null;
+  webhook_url?: string | null;
+  quiet_hours_start?: string | null;
+  quiet_hours_end?: string | null;
+  timezone: string;
+}
+
+export type DeliveryStatus = 'SENT' | 'FAILED' | 'DUPLICATE' | 'QUIET_HOURS' | 'UNDELIVERABLE';
+
+export interface DeliveryOutcome {
+  recipient: string;
+  channel: ChannelName;
+  status: DeliveryStatus;
+  error?: string;
+}
+
+const CHANNEL_NAMES: ChannelName[] = ['email', 'sms', 'in_app', 'webhook'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+class NotificationService {
+  private defaultChannels: ChannelName[] = ['in_app', 'email'];
+  // Hosts users may point their own webhook at; none when unset
+  private webhookAllowedHosts: string[] = (process.env.NOTIFICATION_WEBHOOK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  private channels: Map<ChannelName, NotificationChannel> = this.buildChannels();
+
+  /**
+   * NOTIFICATION_TRANSPORT selects how external channels deliver: "live" uses SMTP,
+   * the SMS gateway and webhooks; "file" appends to NOTIFICATION_FILE_PATH; "memory"
+   * keeps messages in process. The in-app inbox always writes to the database.
+   */
+  private buildChannels(): Map<ChannelName, NotificationChannel> {
+    const mode = process.env.NOTIFICATION_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'live' : 'file');
+    const channels = new Map<ChannelName, NotificationChannel>();
+    channels.set('in_app', new InAppChannel());
+
+    if (mode === 'memory') {
+      (['email', 'sms', 'webhook'] as ChannelName[]).forEach(name => channels.set(name, new MemoryTransportChannel(name)));
+      return channels;
+    }
+
+    if (mode === 'file') {
+      const filePath = process.env.NOTIFICATION_FILE_PATH || path.join(process.cwd(), 'logs', 'notifications.jsonl');
+      (['email', 'sms', 'webhook'] as ChannelName[]).forEach(name => channels.set(name, new FileTransportChannel(name, filePath)));
+      return channels;
+    }
+
+    if (process.env.SMTP_HOST) {
+      channels.set('email', new SmtpEmailChannel({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        from: process.env.SMTP_FROM || 'fris-noreply@customs.gov.ng'
+      }));
+    }
+    if (process.env.SMS_GATEWAY_URL) {
+      channels.set('sms', new HttpSmsChannel({
+        url: process.env.SMS_GATEWAY_URL,
+        apiKey: process.env.SMS_GATEWAY_API_KEY,
+        sender: process.env.SMS_SENDER_ID || 'FRIS'
+      }));
+    }
+    channels.set('webhook', new WebhookChannel({
+      defaultUrl: process.env.NOTIFICATION_WEBHOOK_URL,
+      allowedHosts: this.webhookAllowedHosts
+    }));
+
+    return channels;
+  }
+
+  // Replace a channel implementation, e.g. with a MemoryTransportChannel in tests
+  useChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  getChannel(name: ChannelName): NotificationChannel | undefined {
+    return this.channels.get(name);
+  }
+
+  /**
+   * Render the event template and deliver it to each recipient on the channels in
+   * their preferences. Failures are logged and recorded, never thrown, so that a
+   * notification problem cannot break the workflow that raised it.
+   */
+  async notify(eventType: NotificationEventType, options: NotifyOptions): Promise<DeliveryOutcome[]> {
+    const recipients = Array.from(new Set(
+      options.recipients.filter((email): email is string => !!email && email !== 'system')
+    ));
+    if (recipients.length === 0) return [];
+
+    const message = renderNotification(eventType, options.data, options.severity);
+    const template = notificationTemplates[eventType];
+    const outcomes: DeliveryOutcome[] = [];
+    const now = new Date();
+
+    for (const email of recipients) {
+      try {
+        const preferences = await this.getPreferences(email);
+        const recipient: NotificationRecipient = {
+          email,
+          phone: preferences.phone,
+          webhook_url: preferences.webhook_url
+        };
+        const quiet = message.severity !== 'CRITICAL' && this.isQuietHours(preferences, now);
+
+        for (const channelName of preferences.event_channels[eventType] || preferences.channels) {
+          const dedupKey = [eventType, options.entityId, options.dedupDiscriminator, email, channelName]
+            .filter(part => part !== undefined && part !== '')
+            .join(':');
+
+          const status = await this.deliver(channelName, message, recipient, {
+            dedupKey,
+            dedupWindowMinutes: template.dedupWindowMinutes,
+            quiet
+          });
+          outcomes.push({ recipient: email, channel: channelName, ...status });
+        }
+      } catch (error) {
+        console.error(`Notification ${eventType} to ${email} failed:`, error);
+      }
+    }
+
+    return outcomes;
+  }
+
+  private async deliver(
+    channelName: ChannelName,
+    message: RenderedNotification,
+    recipient: NotificationRecipient,
+    options: { dedupKey: string; dedupWindowMinutes: number; quiet: boolean }
+  ): Promise<{ status: DeliveryStatus; error?: string }> {
+    const channel = this.channels.get(channelName);
+    let status: DeliveryStatus;
+    let error: string | undefined;
+    let providerRef: string | undefined;
+
+    if (await this.isDuplicate(options.dedupKey, options.dedupWindowMinutes)) {
+      // Duplicates are not logged again, the original delivery row already covers them
+      return { status: 'DUPLICATE' };
+    }
+
+    if (!channel || !channel.canDeliver(recipient)) {
+      status = 'UNDELIVERABLE';
+      error = channel ? `No ${channelName} contact details for recipient` : `Channel ${channelName} is not configured`;
+    } else if (options.quiet && channelName !== 'in_app') {
+      // Inside quiet hours only the inbox is used for non-critical messages
+      status = 'QUIET_HOURS';
+    } else {
+      try {
+        providerRef = await channel.send(message, recipient);
+        status = 'SENT';
+      } catch (sendError) {
+        status = 'FAILED';
+        error = sendError instanceof Error ? sendError.message : String(sendError);
+        console.error(`Notification delivery via ${channelName} failed:`, sendError);
+      }
+    }
+
+    await db.notificationDelivery.create({
+      data: {
+        event_type: message.event_type,
+        channel: channelName,
+        recipient: recipient.email,
+        subject: message.subject,
+        dedup_key: options.dedupKey,
+        status,
+        provider_ref: providerRef || null,
+        error: error || null
+      }
+    });
+
+    return { status, error };
+  }
+
+  private async isDuplicate(dedupKey: string, windowMinutes: number): Promise<boolean> {
+    const previous = await db.notificationDelivery.findFirst({
+      where: {
+        dedup_key: dedupKey,
+        status: { in: ['SENT', 'QUIET_HOURS'] },
+        created_at: { gte: new Date(Date.now() - windowMinutes * 60 * 1000) }
+      }
+    });
+    return !!previous;
+  }
+
+  // Quiet hours may wrap midnight, e.g. 22:00-06:00
+  private isQuietHours(preferences: NotificationPreferences, now: Date): boolean {
+    const { quiet_hours_start: start, quiet_hours_end: end } = preferences;
+    if (!start || !end || start === end) return false;
+
+    let local: string;
+    try {
+      local = new Intl.DateTimeFormat('en-GB', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+        timeZone: preferences.timezone
+      }).format(now);
+    } catch {
+      local = now.toISOString().substring(11, 16);
+    }
+
+    return start < end
+      ? local >= start && local < end
+      : local >= start || local < end;
+  }
+
+  async getPreferences(userEmail: string): Promise<NotificationPreferences> {
+    const record = await db.notificationPreference.findUnique({
+      where: { user_email: userEmail }
+    });
+
+    if (!record) {
+      return {
+        user_email: userEmail,
+        channels: this.defaultChannels,
+        event_channels: {},
+        timezone: 'Africa/Lagos'
+      };
+    }
+
+    return {
+      user_email: record.user_email,
+      channels: record.channels as ChannelName[],
+      event_channels: record.event_channels ? JSON.parse(record.event_channels) : {},
+      phone: record.phone,
+      webhook_url: record.webhook_url,
+      quiet_hours_start: record.quiet_hours_start,
+      quiet_hours_end: record.quiet_hours_end,
+      timezone: record.timezone
+    };
+  }
+
+  async updatePreferences(
+    userEmail: string,
+    changes: Partial<Omit<NotificationPreferences, 'user_email'>>
+  ): Promise<NotificationPreferences> {
+    const invalidChannel = [
+      ...(changes.channels || []),
+      ...Object.values(changes.event_channels || {}).flat()
+    ].find(channel => !CHANNEL_NAMES.includes(channel as ChannelName));
+    if (invalidChannel) {
+      throw new NotificationPreferencesError(`Unknown notification channel: ${invalidChannel}`);
+    }
+
+    for (const time of [changes.quiet_hours_start, changes.quiet_hours_end]) {
+      if (time && !TIME_PATTERN.test(time)) {
+        throw new NotificationPreferencesError(`Quiet hours must be given as HH:MM, got ${time}`);
+      }
+    }
+
+    if (changes.webhook_url) {
+      try {
+        await assertWebhookUrlAllowed(changes.webhook_url, this.webhookAllowedHosts, { resolve: true });
+      } catch (error) {
+        if (error instanceof WebhookUrlError) throw new NotificationPreferencesError(error.message);
+        throw error;
+      }
+    }
+
+    const current = await this.getPreferences(userEmail);
+    const merged = { ...current, ...changes };
+
+    await db.notificationPreference.upsert({
+      where: { user_email: userEmail },
+      create: {
+        user_email: userEmail,
+        channels: merged.channels,
+        event_channels: JSON.stringify(merged.event_channels || {}),
+        phone: merged.phone || null,
+        webhook_url: merged.webhook_url || null,
+        quiet_hours_start: merged.quiet_hours_start || null,
+        quiet_hours_end: merged.quiet_hours_end || null,
+        timezone: merged.timezone
+      },
+      update: {
+        channels: merged.channels,
+        event_channels: JSON.stringify(merged.event_channels || {}),
+        phone: merged.phone || null,
+        webhook_url: merged.webhook_url || null,
+        quiet_hours_start: merged.quiet_hours_start || null,
+        quiet_hours_end: merged.quiet_hours_end || null,
+        timezone: merged.timezone
+      }
+    });
+
+    return merged;
+  }
+
+  async getInbox(userEmail: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+    const [notifications, unread] = await Promise.all([
+      db.inAppNotification.findMany({
+        where: {
+          user_email: userEmail,
+          ...(options.unreadOnly ? { read_at: null } : {})
+        },
+        orderBy: { created_at: 'desc' },
+        take: Math.min(options.limit || 50, 200)
+      }),
+      db.inAppNotification.count({
+        where: { user_email: userEmail, read_at: null }
+      })
+    ]);
+
+    return { notifications, unread };
+  }
+
+  // Marks the given notifications, or all of them when no ids are passed
+  async markRead(userEmail: string, ids?: string[]): Promise<number> {
+    const result = await db.inAppNotification.updateMany({
+      where: {
+        user_email: userEmail,
+        read_at: null,
+        ...(ids && ids.length > 0 ? { id: { in: ids } } : {})
+      },
+      data: { read_at: new Date() }
+    });
+
+    return result.count;
+  }
+
+  async getDeliveries(filters: { recipient?: string; eventType?: string; status?: string; limit?: number } = {}) {
+    return db.notificationDelivery.findMany({
+      where: {
+        ...(filters.recipient ? { recipient: filters.recipient } : {}),
+        ...(filters.eventType ? { event_type: filters.eventType } : {}),
+        ...(filters.status ? { status: filters.status } : {})
+      },
+      orderBy: { created_at: 'desc' },
+      take: Math.min(filters.limit || 100, 500)
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
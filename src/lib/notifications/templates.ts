@@ -0,0 +1,102 @@
+import type { RenderedNotification } from '@/lib/notifications/channels';
+
+export type NotificationEventType =
+  | 'WORKFLOW_CREATED'
+  | 'WORKFLOW_ESCALATED'
+  | 'WORKFLOW_RELEASED'
+  | 'WORKFLOW_REVIEWED'
+  | 'SLA_WARNING'
+  | 'WORKFLOW_EXPIRED'
+  | 'DRIFT_ALERT'
+  | 'CASE_ASSIGNED';
+
+export interface NotificationTemplate {
+  subject: string;
+  body: string;
+  severity: RenderedNotification['severity'];
+  link?: string;
+  dedupWindowMinutes: number; // repeats of the same event for the same entity are dropped within this window
+}
+
+// Placeholders use {{field}} or {{nested.field}} against the event data
+export const notificationTemplates: Record<NotificationEventType, NotificationTemplate> = {
+  WORKFLOW_CREATED: {
+    subject: '[FRIS] {{action_type}} placed on declaration {{declaration_id}}',
+    body: 'A {{priority}} priority {{action_type}} was placed on declaration {{declaration_id}}.\n\nReason: {{reason}}\nSLA: {{sla_minutes}} minutes (expires {{expires_at}})\nAssigned to: {{assigned_to}}',
+    severity: 'INFO',
+    link: '/workflows/{{id}}',
+    dedupWindowMinutes: 60
+  },
+  WORKFLOW_ESCALATED: {
+    subject: '[FRIS] {{action_type}} on {{declaration_id}} escalated to level {{escalation_level}}',
+    body: 'The {{action_type}} on declaration {{declaration_id}} has been escalated to level {{escalation_level}} and assigned to {{assigned_to}}.\n\nReason: {{reason}}',
+    severity: 'WARNING',
+    link: '/workflows/{{id}}',
+    dedupWindowMinutes: 5
+  },
+  WORKFLOW_RELEASED: {
+    subject: '[FRIS] Declaration {{declaration_id}} released',
+    body: 'The {{action_type}} on declaration {{declaration_id}} was released by {{release_authorized_by}}.',
+    severity: 'INFO',
+    link: '/workflows/{{id}}',
+    dedupWindowMinutes: 60
+  },
+  WORKFLOW_REVIEWED: {
+    subject: '[FRIS] {{action_type}} on {{declaration_id}} reviewed',
+    body: 'The {{action_type}} on declaration {{declaration_id}} was reviewed by {{reviewed_by}}.\n\nNotes: {{review_notes}}',
+    severity: 'INFO',
+    link: '/workflows/{{id}}',
+    dedupWindowMinutes: 5
+  },
+  SLA_WARNING: {
+    subject: '[FRIS] SLA warning: {{action_type}} on {{declaration_id}} at {{sla_percent}}%',
+    body: 'The {{priority}} priority {{action_type}} on declaration {{declaration_id}} has used {{sla_percent}}% of its SLA (threshold {{threshold}}%). It expires at {{expires_at}}.',
+    severity: 'WARNING',
+    link: '/workflows/{{id}}',
+    dedupWindowMinutes: 30
+  },
+  WORKFLOW_EXPIRED: {
+    subject: '[FRIS] SLA expired: {{action_type}} on {{declaration_id}}',
+    body: 'The {{action_type}} on declaration {{declaration_id}} expired at {{expires_at}} without being resolved.',
+    severity: 'CRITICAL',
+    link: '/workflows/{{id}}',
+    dedupWindowMinutes: 24 * 60
+  },
+  DRIFT_ALERT: {
+    subject: '[FRIS] {{severity}} drift alert: {{metric_type}}',
+    body: '{{description}}\n\nDrift score: {{drift_score}} (threshold {{threshold}})\nRecommended action: {{recommended_action}}',
+    severity: 'WARNING',
+    link: '/monitoring',
+    dedupWindowMinutes: 6 * 60
+  },
+  CASE_ASSIGNED: {
+    subject: '[FRIS] Case {{case_id}} assigned to you',
+    body: 'A {{type}} case for declaration {{declaration_id}} has been assigned to you.\n\nExpected recovery: {{expected_recovery}}',
+    severity: 'INFO',
+    link: '/cases/{{case_id}}',
+    dedupWindowMinutes: 60
+  }
+};
+
+export function renderTemplate(template: string, data: Record<string, any>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, key: string) => {
+    const value = key.split('.').reduce<any>((current, part) => (current == null ? undefined : current[part]), data);
+    return value === undefined || value === null || value === '' ? '-' : String(value);
+  });
+}
+
+export function renderNotification(
+  eventType: NotificationEventType,
+  data: Record<string, any>,
+  severity?: RenderedNotification['severity']
+): RenderedNotification {
+  const template = notificationTemplates[eventType];
+  return {
+    event_type: eventType,
+    subject: renderTemplate(template.subject, data),
+    body: renderTemplate(template.body, data),
+    severity: severity || template.severity,
+    link: template.link ? renderTemplate(template.link, data) : undefined,
+    data
+  };
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRequestLogger, measureApiTime } from '@/lib/observability';
 
-export function withObservability(handler: (req: NextRequest) => Promise<NextResponse>, endpoint: string) {
-  return async (req: NextRequest) => {
+export function withObservability(handler: (req: NextRequest, context?: any) => Promise<NextResponse>, endpoint: string) {
+  // context carries dynamic route params and must reach the wrapped handler
+  return async (req: NextRequest, context?: any) => {
     const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const logger = createRequestLogger(requestId);
     
@@ -17,7 +18,7 @@ export function withObservability(handler: (req: NextRequest) => Promise<NextRes
         endpoint
       });
 
-      const response = await handler(req);
+      const response = await handler(req, context);
 
       const duration = Date.now() - startTime;
       
@@ -0,0 +1,208 @@
+import { db } from '@/lib/db';
+import { PolicyAction, PolicyContext, PolicyEngine, PolicyResult } from '@/lib/policy/engine';
+import { policyPackStore } from '@/lib/policy/store';
+import { consoleEvents, OPERATIONS_ROLES } from '@/lib/socket';
+
+export type DecisionAction = 'ALLOW' | 'HOLD' | 'STOP' | 'ESCALATE';
+
+export interface PolicyDecision {
+  action: DecisionAction;
+  ttl_minutes: number | null;
+  reason: string;
+  rule_ids: string[];
+  deciding_rule_ids: string[];
+  policy_version: string;
+  confidence: number;
+  channel: 'GREEN' | 'YELLOW' | 'RED';
+  escalation_level?: string;
+  matched_lines: Record<string, number[]>;
+  notifications: PolicyAction[];
+}
+
+// Higher wins when triggered rules disagree
+const ACTION_PRECEDENCE: Record<DecisionAction, number> = {
+  STOP: 4,
+  HOLD: 3,
+  ESCALATE: 2,
+  ALLOW: 1
+};
+
+const ACTION_CHANNEL: Record<DecisionAction, PolicyDecision['channel']> = {
+  STOP: 'RED',
+  HOLD: 'YELLOW',
+  ESCALATE: 'YELLOW',
+  ALLOW: 'GREEN'
+};
+
+class DecisionService {
+  buildContext(declaration: any, items: any[], riskScore: any, user?: any): PolicyContext {
+    return {
+      declaration,
+      riskScores: riskScore
+        ? {
+            overall: riskScore.overall,
+            undervaluation: riskScore.undervaluation,
+            misclassification: riskScore.misclassification,
+            origin_fraud: riskScore.origin_fraud,
+            doc_forgery: riskScore.doc_forgery,
+            network_risk: riskScore.network_risk,
+            payment_leakage: riskScore.payment_leakage,
+            reason_codes: riskScore.reason_codes || []
+          }
+        : {},
+      items: this.withItemScores(items, riskScore),
+      user,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  // Expose each line's undervaluation score as items[*].undervaluation_score, so rules can point at the line
+  private withItemScores(items: any[], riskScore: any): any[] {
+    if (!riskScore?.item_scores) return items;
+    const itemScores: Record<string, number> = JSON.parse(riskScore.item_scores);
+    return items.map(item => ({ ...item, undervaluation_score: itemScores[item.line_no] ?? 0 }));
+  }
+
+  async evaluate(context: PolicyContext, engine?: PolicyEngine): Promise<PolicyDecision> {
+    const activeEngine = engine || await policyPackStore.getActiveEngine();
+    return this.resolve(activeEngine.evaluate(context), activeEngine);
+  }
+
+  /**
+   * Collapse the actions of every triggered rule into a single decision.
+   * STOP > HOLD > ESCALATE > ALLOW; NOTIFY actions never decide and are passed through.
+   */
+  resolve(result: PolicyResult, engine: PolicyEngine): PolicyDecision {
+    const pack = engine.getPolicyPack();
+    const candidates: { ruleId?: string; action: PolicyAction & { type: DecisionAction } }[] = [];
+    const notifications: PolicyAction[] = [];
+
+    if (result.triggered) {
+      for (const rule of result.rules) {
+        for (const action of rule.actions) {
+          if (action.type === 'NOTIFY') {
+            notifications.push(action);
+          } else {
+            candidates.push({ ruleId: rule.id, action: action as PolicyAction & { type: DecisionAction } });
+          }
+        }
+      }
+    }
+
+    if (candidates.length === 0) {
+      candidates.push({
+        action: {
+          type: 'ALLOW',
+          parameters: { reason: result.triggered ? 'No blocking policy rules triggered' : result.reason }
+        }
+      });
+    }
+
+    const winningType = candidates
+      .map(candidate => candidate.action.type)
+      .reduce((best, type) => (ACTION_PRECEDENCE[type] > ACTION_PRECEDENCE[best] ? type : best), 'ALLOW' as DecisionAction);
+
+    const winners = candidates.filter(candidate => candidate.action.type === winningType);
+
+    let ttlMinutes: number | null = null;
+    if (winningType === 'HOLD' || winningType === 'STOP') {
+      const defaultTtl = winningType === 'STOP'
+        ? pack.globalSettings.defaultStopTtl
+        : pack.globalSettings.defaultHoldTtl;
+      ttlMinutes = Math.max(...winners.map(w => Number(w.action.parameters?.ttl) || defaultTtl));
+    }
+
+    // Point officers at the offending item lines where the rule matched specific lines
+    const reasons = Array.from(new Set(
+      winners
+        .filter(w => !!w.action.parameters?.reason)
+        .map(w => {
+          const lines = w.ruleId ? result.matchedLines[w.ruleId] : undefined;
+          return lines && lines.length > 0
+            ? `${w.action.parameters!.reason} (line${lines.length > 1 ? 's' : ''} ${lines.join(', ')})`
+            : w.action.parameters!.reason as string;
+        })
+    ));
+
+    return {
+      action: winningType,
+      ttl_minutes: ttlMinutes,
+      reason: reasons.join('; '),
+      rule_ids: result.rules.map(rule => rule.id),
+      deciding_rule_ids: winners.map(w => w.ruleId).filter((id): id is string => !!id),
+      policy_version: pack.version,
+      confidence: result.confidence,
+      channel: (winners.find(w => w.action.parameters?.channel)?.action.parameters?.channel) || ACTION_CHANNEL[winningType],
+      escalation_level: winners.find(w => w.action.parameters?.escalationLevel)?.action.parameters?.escalationLevel,
+      matched_lines: result.matchedLines,
+      notifications
+    };
+  }
+
+  /**
+   * Load a declaration with its items and latest risk score and evaluate the active policy pack.
+   */
+  async decide(declarationId: string, user?: any) {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: declarationId },
+      include: {
+        items: true,
+        risk_scores: {
+          orderBy: { created_at: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    if (!declaration) {
+      return { declaration: null, riskScore: null, decision: null };
+    }
+
+    const riskScore = declaration.risk_scores[0] || null;
+    if (!riskScore) {
+      return { declaration, riskScore: null, decision: null };
+    }
+
+    const context = this.buildContext(declaration, declaration.items, riskScore, user);
+    return { declaration, riskScore, decision: await this.evaluate(context) };
+  }
+
+  async recordDecision(declarationDbId: string, decision: PolicyDecision, actorId?: string) {
+    const action = await db.action.create({
+      data: {
+        declaration_id: declarationDbId,
+        action: decision.action,
+        reason: decision.reason,
+        actor_id: actorId || null,
+        policy_version: decision.policy_version,
+        rule_ids: decision.rule_ids,
+        ttl_minutes: decision.ttl_minutes
+      },
+      include: {
+        declaration: {
+          select: { declaration_id: true, arrival_port: true }
+        }
+      }
+    });
+
+    if (action.action === 'HOLD' || action.action === 'STOP') {
+      consoleEvents.publish('action.created', {
+        id: action.id,
+        declaration_id: action.declaration.declaration_id,
+        action: action.action,
+        reason: action.reason,
+        policy_version: action.policy_version,
+        rule_ids: action.rule_ids,
+        ttl_minutes: action.ttl_minutes,
+        created_at: action.created_at.toISOString()
+      }, {
+        port: action.declaration.arrival_port,
+        roles: OPERATIONS_ROLES
+      });
+    }
+
+    return action;
+  }
+}
+
+export const decisionService = new DecisionService();
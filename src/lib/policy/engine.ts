@@ -4,18 +4,51 @@ export interface PolicyRule {
   description: string;
   enabled: boolean;
   priority: number;
-  conditions: PolicyCondition[];
+  conditions: PolicyConditionNode[];
   actions: PolicyAction[];
   metadata?: Record<string, any>;
 }
 
+export type PolicyOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'gte'
+  | 'lte'
+  | 'between'
+  | 'contains'
+  | 'in'
+  | 'not_in'
+  | 'regex'
+  | 'starts_with'
+  | 'exists'
+  | 'day_of_week_in'
+  | 'within_hours_of';
+
+/**
+ * field is a dotted path into PolicyContext. Collections can be addressed with
+ * a wildcard (items[*].declared_hs, evaluated per element using quantifier) or
+ * reduced with an aggregate: sum(...), count(...), max(...), min(...), avg(...).
+ */
 export interface PolicyCondition {
   field: string;
-  operator: 'equals' | 'greater_than' | 'less_than' | 'contains' | 'in' | 'not_in';
+  operator: PolicyOperator;
   value: any;
   weight?: number;
+  quantifier?: 'any' | 'all' | 'none'; // for wildcard paths, defaults to any
+  timezone?: string; // IANA zone for date operators, defaults to Africa/Lagos
+}
+
+// Boolean group of conditions; the group as a whole counts once, with its own weight, in the rule vote
+export interface PolicyConditionGroup {
+  group: 'AND' | 'OR' | 'NOT';
+  conditions: PolicyConditionNode[];
+  weight?: number;
 }
 
+export type PolicyConditionNode = PolicyCondition | PolicyConditionGroup;
+
 export interface PolicyAction {
   type: 'HOLD' | 'STOP' | 'ALLOW' | 'ESCALATE' | 'NOTIFY';
   parameters?: Record<string, any>;
@@ -35,8 +68,16 @@ export interface PolicyResult {
   actions: PolicyAction[];
   confidence: number;
   reason: string;
+  matchedLines: Record<string, number[]>; // item line numbers that matched, by rule id
 }
 
+interface NodeResult {
+  matched: boolean;
+  lines: number[];
+}
+
+const AGGREGATE_PATTERN = /^(sum|count|max|min|avg)\((.+)\)$/;
+
 export interface PolicyPack {
   version: string;
   name: string;
@@ -54,7 +95,8 @@ export interface PolicyPack {
 
 // Default FRIS policy pack
 export const defaultPolicyPack: PolicyPack = {
-  version: "2025-11-02-01",
+  // Bump with every change to the rules: stored actions and packs are keyed by this version
+  version: "2026-10-18-02",
   name: "FRIS Default Policy Pack",
   description: "Default fraud detection and revenue protection policies for Nigeria Customs",
   globalSettings: {
@@ -78,9 +120,10 @@ export const defaultPolicyPack: PolicyPack = {
           weight: 1.0
         },
         {
-          field: "items.0.invoice_value_usd",
-          operator: "less_than",
-          value: 1000,
+          field: "items[*].undervaluation_score",
+          operator: "greater_than",
+          value: 0.85,
+          quantifier: "any",
           weight: 0.5
         }
       ],
@@ -134,8 +177,9 @@ export const defaultPolicyPack: PolicyPack = {
           weight: 1.0
         },
         {
-          field: "items.0.declared_hs",
-          operator: "in",
+          field: "items[*].declared_hs",
+          operator: "starts_with",
+          quantifier: "any",
           value: ["8703", "2710", "2402", "2208", "8517"],
           weight: 0.8
         }
@@ -165,8 +209,9 @@ export const defaultPolicyPack: PolicyPack = {
           weight: 0.8
         },
         {
-          field: "items.0.country_origin",
+          field: "items[*].country_origin",
           operator: "in",
+          quantifier: "any",
           value: ["CN", "HK", "SG", "AE"],
           weight: 0.6
         }
@@ -191,8 +236,8 @@ export const defaultPolicyPack: PolicyPack = {
       conditions: [
         {
           field: "declaration.lodgement_ts",
-          operator: "contains",
-          value: "weekend",
+          operator: "day_of_week_in",
+          value: ["SAT", "SUN"],
           weight: 0.5
         }
       ],
@@ -220,7 +265,7 @@ export const defaultPolicyPack: PolicyPack = {
           weight: 1.0
         },
         {
-          field: "items.0.invoice_value_usd",
+          field: "sum(items.invoice_value_usd)",
           operator: "less_than",
           value: 50000,
           weight: 0.8
@@ -244,7 +289,7 @@ export const defaultPolicyPack: PolicyPack = {
       priority: 3,
       conditions: [
         {
-          field: "items.0.invoice_value_usd",
+          field: "sum(items.invoice_value_usd)",
           operator: "greater_than",
           value: 100000,
           weight: 0.7
@@ -261,6 +306,31 @@ export const defaultPolicyPack: PolicyPack = {
         }
       ]
     },
+    {
+      id: "OVERALL_RISK_HIGH",
+      name: "High Overall Risk",
+      description: "Hold declarations whose combined risk score is high",
+      enabled: true,
+      priority: 4,
+      conditions: [
+        {
+          field: "riskScores.overall",
+          operator: "gte",
+          value: 0.70,
+          weight: 1.0
+        }
+      ],
+      actions: [
+        {
+          type: "HOLD",
+          parameters: {
+            ttl: 240,
+            reason: "High overall risk score",
+            escalationLevel: "VALUATION"
+          }
+        }
+      ]
+    },
     {
       id: "MISCLASSIFICATION_HIGH",
       name: "HS Misclassification Detection",
@@ -288,7 +358,7 @@ export const defaultPolicyPack: PolicyPack = {
     }
   ],
   createdAt: "2025-01-01T00:00:00Z",
-  updatedAt: "2025-11-02T00:00:00Z"
+  updatedAt: "2026-10-18T00:00:00Z"
 };
 
 // Policy engine class
@@ -302,6 +372,7 @@ export class PolicyEngine {
   evaluate(context: PolicyContext): PolicyResult {
     const triggeredRules: PolicyRule[] = [];
     const actions: PolicyAction[] = [];
+    const matchedLines: Record<string, number[]> = {};
     let maxConfidence = 0;
     let reasons: string[] = [];
 
@@ -318,6 +389,9 @@ export class PolicyEngine {
         actions.push(...ruleResult.actions);
         maxConfidence = Math.max(maxConfidence, ruleResult.confidence);
         reasons.push(ruleResult.reason);
+        if (ruleResult.lines.length > 0) {
+          matchedLines[rule.id] = ruleResult.lines;
+        }
       }
     }
 
@@ -336,7 +410,8 @@ export class PolicyEngine {
           }
         ],
         confidence: 0.1,
-        reason: "No risk detected"
+        reason: "No risk detected",
+        matchedLines: {}
       };
     }
 
@@ -345,7 +420,8 @@ export class PolicyEngine {
       rules: triggeredRules,
       actions: this.deduplicateActions(actions),
       confidence: maxConfidence,
-      reason: reasons.join("; ")
+      reason: reasons.join("; "),
+      matchedLines
     };
   }
 
@@ -354,28 +430,35 @@ export class PolicyEngine {
     actions: PolicyAction[];
     confidence: number;
     reason: string;
+    lines: number[];
   } {
     let totalWeight = 0;
     let matchedWeight = 0;
+    const lines = new Set<number>();
 
-    for (const condition of rule.conditions) {
-      const fieldValue = this.getFieldValue(context, condition.field);
-      const conditionWeight = condition.weight || 1.0;
-      totalWeight += conditionWeight;
+    for (const node of rule.conditions) {
+      const nodeWeight = node.weight || 1.0;
+      totalWeight += nodeWeight;
 
-      if (this.evaluateCondition(condition, fieldValue)) {
-        matchedWeight += conditionWeight;
+      const nodeResult = this.evaluateNode(node, context);
+      if (nodeResult.matched) {
+        matchedWeight += nodeWeight;
+        nodeResult.lines.forEach(line => lines.add(line));
       }
     }
 
     const confidence = totalWeight > 0 ? matchedWeight / totalWeight : 0;
     const triggered = confidence > 0.5; // 50% threshold for rule triggering
+    const matchedLines = triggered ? Array.from(lines).sort((a, b) => a - b) : [];
 
     return {
       triggered,
       actions: triggered ? rule.actions : [],
       confidence,
-      reason: triggered ? rule.description : `Rule ${rule.name} not triggered`
+      reason: triggered
+        ? `${rule.description}${matchedLines.length > 0 ? ` (line${matchedLines.length > 1 ? 's' : ''} ${matchedLines.join(', ')})` : ''}`
+        : `Rule ${rule.name} not triggered`,
+      lines: matchedLines
     };
   }
 
@@ -394,25 +477,224 @@ export class PolicyEngine {
     return value;
   }
 
-  private evaluateCondition(condition: PolicyCondition, fieldValue: any): boolean {
+  /**
+   * Resolve a path that may fan out over arrays (explicitly via [*] or implicitly
+   * when a named segment is applied to an array). Each value carries the item
+   * line number of the element it came from.
+   */
+  private collectValues(context: PolicyContext, fieldPath: string): { value: any; line?: number }[] {
+    const parts = fieldPath.replace(/\[\*\]/g, '.*').split('.').filter(part => part.length > 0);
+    let current: { value: any; line?: number }[] = [{ value: context }];
+
+    for (const part of parts) {
+      const next: { value: any; line?: number }[] = [];
+
+      for (const entry of current) {
+        const value = entry.value;
+        if (Array.isArray(value) && (part === '*' || !/^\d+$/.test(part))) {
+          value.forEach((element, index) => {
+            const line = entry.line ?? (element && typeof element === 'object' && element.line_no ? element.line_no : index + 1);
+            if (part === '*') {
+              next.push({ value: element, line });
+            } else if (element && typeof element === 'object') {
+              next.push({ value: element[part], line });
+            }
+          });
+        } else if (part !== '*' && value && typeof value === 'object') {
+          next.push({ value: value[part], line: entry.line });
+        }
+      }
+
+      current = next;
+    }
+
+    // A path ending on a collection yields its elements
+    if (current.length === 1 && Array.isArray(current[0].value)) {
+      return current[0].value.map((element: any, index: number) => ({
+        value: element,
+        line: element && typeof element === 'object' && element.line_no ? element.line_no : index + 1
+      }));
+    }
+
+    return current;
+  }
+
+  private evaluateAggregate(fn: string, path: string, context: PolicyContext): { value: any; line?: number } {
+    const entries = this.collectValues(context, path).filter(entry => entry.value !== undefined && entry.value !== null);
+
+    if (fn === 'count') {
+      return { value: entries.length };
+    }
+
+    const numeric = entries
+      .map(entry => ({ value: Number(entry.value), line: entry.line }))
+      .filter(entry => !isNaN(entry.value));
+
+    if (numeric.length === 0) {
+      return { value: fn === 'sum' ? 0 : undefined };
+    }
+
+    switch (fn) {
+      case 'sum':
+        return { value: numeric.reduce((sum, entry) => sum + entry.value, 0) };
+      case 'avg':
+        return { value: numeric.reduce((sum, entry) => sum + entry.value, 0) / numeric.length };
+      case 'max':
+        return numeric.reduce((best, entry) => (entry.value > best.value ? entry : best));
+      case 'min':
+        return numeric.reduce((best, entry) => (entry.value < best.value ? entry : best));
+      default:
+        return { value: undefined };
+    }
+  }
+
+  private evaluateNode(node: PolicyConditionNode, context: PolicyContext): NodeResult {
+    if ('group' in node) {
+      const results = node.conditions.map(child => this.evaluateNode(child, context));
+      const linesOf = (matched: NodeResult[]) => Array.from(new Set(matched.flatMap(result => result.lines)));
+
+      switch (node.group) {
+        case 'AND': {
+          const matched = results.length > 0 && results.every(result => result.matched);
+          return { matched, lines: matched ? linesOf(results) : [] };
+        }
+        case 'OR': {
+          const matchedResults = results.filter(result => result.matched);
+          return { matched: matchedResults.length > 0, lines: linesOf(matchedResults) };
+        }
+        case 'NOT':
+          return { matched: !results.some(result => result.matched), lines: [] };
+        default:
+          return { matched: false, lines: [] };
+      }
+    }
+
+    const aggregate = node.field.match(AGGREGATE_PATTERN);
+    if (aggregate) {
+      const result = this.evaluateAggregate(aggregate[1], aggregate[2].trim(), context);
+      const matched = this.evaluateCondition(node, result.value, context);
+      return { matched, lines: matched && result.line !== undefined ? [result.line] : [] };
+    }
+
+    if (node.field.includes('[*]')) {
+      const entries = this.collectValues(context, node.field);
+      const matchedEntries = entries.filter(entry => this.evaluateCondition(node, entry.value, context));
+      const matchedLines = matchedEntries
+        .map(entry => entry.line)
+        .filter((line): line is number => line !== undefined);
+
+      switch (node.quantifier || 'any') {
+        case 'all':
+          return { matched: entries.length > 0 && matchedEntries.length === entries.length, lines: matchedLines };
+        case 'none':
+          return { matched: matchedEntries.length === 0, lines: [] };
+        default:
+          return { matched: matchedEntries.length > 0, lines: matchedLines };
+      }
+    }
+
+    const fieldValue = this.getFieldValue(context, node.field);
+    return { matched: this.evaluateCondition(node, fieldValue, context), lines: [] };
+  }
+
+  private evaluateCondition(condition: PolicyCondition, fieldValue: any, context: PolicyContext): boolean {
     switch (condition.operator) {
       case 'equals':
         return fieldValue === condition.value;
+      case 'not_equals':
+        return fieldValue !== condition.value;
       case 'greater_than':
         return Number(fieldValue) > Number(condition.value);
       case 'less_than':
         return Number(fieldValue) < Number(condition.value);
+      case 'gte':
+        return Number(fieldValue) >= Number(condition.value);
+      case 'lte':
+        return Number(fieldValue) <= Number(condition.value);
+      case 'between': {
+        if (!Array.isArray(condition.value) || condition.value.length !== 2) return false;
+        const value = Number(fieldValue);
+        return value >= Number(condition.value[0]) && value <= Number(condition.value[1]);
+      }
       case 'contains':
         return String(fieldValue).includes(String(condition.value));
       case 'in':
         return Array.isArray(condition.value) && condition.value.includes(fieldValue);
       case 'not_in':
         return Array.isArray(condition.value) && !condition.value.includes(fieldValue);
+      case 'regex':
+        return this.matchesRegex(fieldValue, condition.value);
+      case 'starts_with': {
+        if (fieldValue === undefined || fieldValue === null) return false;
+        const prefixes = Array.isArray(condition.value) ? condition.value : [condition.value];
+        return prefixes.some(prefix => String(fieldValue).startsWith(String(prefix)));
+      }
+      case 'exists': {
+        const present = fieldValue !== undefined && fieldValue !== null && fieldValue !== '';
+        return condition.value === false ? !present : present;
+      }
+      case 'day_of_week_in':
+        return this.isDayOfWeekIn(fieldValue, condition.value, condition.timezone);
+      case 'within_hours_of':
+        return this.isWithinHoursOf(fieldValue, condition.value, context);
       default:
         return false;
     }
   }
 
+  // value is a pattern string or { pattern, flags }
+  private matchesRegex(fieldValue: any, value: any): boolean {
+    if (fieldValue === undefined || fieldValue === null) return false;
+    try {
+      const regex = typeof value === 'string'
+        ? new RegExp(value)
+        : new RegExp(value?.pattern, value?.flags);
+      return regex.test(String(fieldValue));
+    } catch {
+      return false;
+    }
+  }
+
+  // value is a list of day numbers (0 = Sunday) or names (SUN, MON, ...)
+  private isDayOfWeekIn(fieldValue: any, value: any, timezone: string = 'Africa/Lagos'): boolean {
+    if (!fieldValue || !Array.isArray(value)) return false;
+    const date = new Date(fieldValue);
+    if (isNaN(date.getTime())) return false;
+
+    const dayNames = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+    let weekday: string;
+    try {
+      weekday = new Intl.DateTimeFormat('en-US', { weekday: 'short', timeZone: timezone })
+        .format(date)
+        .toUpperCase();
+    } catch {
+      weekday = dayNames[date.getUTCDay()];
+    }
+    const dayIndex = dayNames.indexOf(weekday);
+
+    return value.some(day =>
+      typeof day === 'number' ? day === dayIndex : String(day).toUpperCase().substring(0, 3) === weekday
+    );
+  }
+
+  // value is { hours, of? } where "of" is a field path; defaults to the evaluation timestamp
+  private isWithinHoursOf(fieldValue: any, value: any, context: PolicyContext): boolean {
+    if (!fieldValue) return false;
+    const hours = typeof value === 'number' ? value : Number(value?.hours);
+    if (isNaN(hours)) return false;
+
+    const reference = typeof value === 'object' && value?.of
+      ? this.getFieldValue(context, value.of)
+      : context.timestamp;
+    if (!reference) return false;
+
+    const fieldTime = new Date(fieldValue).getTime();
+    const referenceTime = new Date(reference).getTime();
+    if (isNaN(fieldTime) || isNaN(referenceTime)) return false;
+
+    return Math.abs(fieldTime - referenceTime) <= hours * 60 * 60 * 1000;
+  }
+
   private deduplicateActions(actions: PolicyAction[]): PolicyAction[] {
     const seen = new Set();
     return actions.filter(action => {
@@ -467,4 +749,4 @@ export class PolicyEngine {
     }
     return false;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,380 @@
+import { PolicyCondition, PolicyConditionNode, PolicyPack, PolicyRule } from '@/lib/policy/engine';
+import { policyPackSchema } from '@/lib/validation/schemas';
+
+export type PolicyLintCode =
+  | 'SCHEMA'
+  | 'UNKNOWN_FIELD'
+  | 'DUPLICATE_RULE_ID'
+  | 'UNREACHABLE_RULE'
+  | 'CONTRADICTORY_RULES'
+  | 'NON_NUMERIC_VALUE';
+
+export interface PolicyLintFinding {
+  code: PolicyLintCode;
+  path: string; // location in the pack, e.g. rules[2].conditions[0].value
+  message: string;
+  rule_id?: string;
+}
+
+export interface PolicyLintResult {
+  valid: boolean;
+  findings: PolicyLintFinding[];
+}
+
+// Shape of PolicyContext as built by the decision service. true marks a leaf,
+// '*' marks an open object whose keys are not known in advance.
+type FieldShape = true | '*' | { [key: string]: FieldShape };
+
+const ITEM_FIELDS: FieldShape = {
+  id: true,
+  line_no: true,
+  declared_hs: true,
+  declared_desc: true,
+  qty: true,
+  uom: true,
+  gross_weight_kg: true,
+  net_weight_kg: true,
+  invoice_value_usd: true,
+  invoice_currency: true,
+  invoice_value: true,
+  incoterm: true,
+  country_origin: true,
+  brand: true,
+  model: true,
+  year: true,
+  declaration_id: true,
+  created_at: true,
+  updated_at: true,
+  undervaluation_score: true // from the risk score's item_scores
+};
+
+const CONTEXT_FIELDS: FieldShape = {
+  declaration: {
+    id: true,
+    declaration_id: true,
+    ucms_ref: true,
+    arrival_port: true,
+    lodgement_ts: true,
+    eta: true,
+    channel: true,
+    status: true,
+    released_at: true,
+    consignee_tin: true,
+    consignee_name: true,
+    consignee_addr: true,
+    consignee_phones: true,
+    consignee_emails: true,
+    declarant_license_id: true,
+    declarant_name: true,
+    voyage_bl: true,
+    voyage_vessel: true,
+    voyage_origin: true,
+    transshipment_ports: true,
+    // Nested form accepted by the declarations API and policy evaluate endpoint
+    consignee: { tin: true, name: true, addr: true, phones: true, emails: true },
+    declarant: { license_id: true, name: true },
+    voyage: { bl: true, vessel: true, origin: true, transshipment_ports: true },
+    items: ITEM_FIELDS,
+    risk_scores: '*',
+    created_at: true,
+    updated_at: true
+  },
+  riskScores: {
+    overall: true,
+    undervaluation: true,
+    misclassification: true,
+    origin_fraud: true,
+    doc_forgery: true,
+    network_risk: true,
+    payment_leakage: true,
+    reason_codes: true
+  },
+  items: ITEM_FIELDS,
+  user: { id: true, userId: true, email: true, role: true, permissions: true },
+  timestamp: true
+};
+
+const AGGREGATE_PATTERN = /^(sum|count|max|min|avg)\((.+)\)$/;
+const NUMERIC_OPERATORS = ['greater_than', 'less_than', 'gte', 'lte'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+class PolicyPackLinter {
+  /**
+   * Validate a pack against the schema and run static checks on its rules.
+   * Static checks only run once the pack is structurally valid.
+   */
+  lint(policyPack: unknown): PolicyLintResult {
+    const parsed = policyPackSchema.safeParse(policyPack);
+    if (!parsed.success) {
+      return {
+        valid: false,
+        findings: parsed.error.issues.map(issue => ({
+          code: 'SCHEMA' as const,
+          path: this.formatPath(issue.path),
+          message: issue.message
+        }))
+      };
+    }
+
+    const pack = policyPack as PolicyPack;
+    const findings: PolicyLintFinding[] = [
+      ...this.checkDuplicateIds(pack.rules),
+      ...pack.rules.flatMap((rule, index) => this.checkRule(rule, `rules[${index}]`, pack)),
+      ...this.checkContradictions(pack.rules)
+    ];
+
+    return { valid: findings.length === 0, findings };
+  }
+
+  private checkDuplicateIds(rules: PolicyRule[]): PolicyLintFinding[] {
+    const firstIndex = new Map<string, number>();
+    const findings: PolicyLintFinding[] = [];
+
+    rules.forEach((rule, index) => {
+      const previous = firstIndex.get(rule.id);
+      if (previous !== undefined) {
+        findings.push({
+          code: 'DUPLICATE_RULE_ID',
+          path: `rules[${index}].id`,
+          rule_id: rule.id,
+          message: `Rule id ${rule.id} is already used by rules[${previous}]`
+        });
+      } else {
+        firstIndex.set(rule.id, index);
+      }
+    });
+
+    return findings;
+  }
+
+  private checkRule(rule: PolicyRule, path: string, pack: PolicyPack): PolicyLintFinding[] {
+    const findings: PolicyLintFinding[] = [];
+
+    rule.conditions.forEach((node, index) => {
+      findings.push(...this.checkNode(node, `${path}.conditions[${index}]`, rule.id));
+    });
+
+    if (!rule.enabled) {
+      return findings;
+    }
+
+    // A rule triggers when more than half of its condition weight matches
+    const totalWeight = rule.conditions.reduce((sum, node) => sum + (node.weight || 1.0), 0);
+    const reachableWeight = rule.conditions
+      .filter(node => this.isSatisfiable(node, pack))
+      .reduce((sum, node) => sum + (node.weight || 1.0), 0);
+
+    if (totalWeight === 0) {
+      findings.push({
+        code: 'UNREACHABLE_RULE',
+        path: `${path}.conditions`,
+        rule_id: rule.id,
+        message: `Rule ${rule.id} has no conditions and can never trigger`
+      });
+    } else if (reachableWeight / totalWeight <= 0.5) {
+      findings.push({
+        code: 'UNREACHABLE_RULE',
+        path: `${path}.conditions`,
+        rule_id: rule.id,
+        message: `Rule ${rule.id} can never trigger: at most ${Math.round((reachableWeight / totalWeight) * 100)}% of its condition weight can match (more than 50% required)`
+      });
+    }
+
+    return findings;
+  }
+
+  private checkNode(node: PolicyConditionNode, path: string, ruleId: string): PolicyLintFinding[] {
+    if ('group' in node) {
+      return node.conditions.flatMap((child, index) =>
+        this.checkNode(child, `${path}.conditions[${index}]`, ruleId)
+      );
+    }
+
+    const findings: PolicyLintFinding[] = [];
+
+    if (!this.isKnownField(node.field)) {
+      findings.push({
+        code: 'UNKNOWN_FIELD',
+        path: `${path}.field`,
+        rule_id: ruleId,
+        message: `Field ${node.field} does not resolve against the policy context`
+      });
+    }
+
+    const numericProblem = this.checkNumericValue(node);
+    if (numericProblem) {
+      findings.push({
+        code: 'NON_NUMERIC_VALUE',
+        path: `${path}.value`,
+        rule_id: ruleId,
+        message: numericProblem
+      });
+    }
+
+    return findings;
+  }
+
+  private checkNumericValue(condition: PolicyCondition): string | null {
+    const { operator, value } = condition;
+
+    if (NUMERIC_OPERATORS.includes(operator) && !this.isNumber(value)) {
+      return `Operator ${operator} requires a numeric value, got ${JSON.stringify(value)}`;
+    }
+
+    if (operator === 'between' && (!Array.isArray(value) || value.length !== 2 || !value.every(bound => this.isNumber(bound)))) {
+      return `Operator between requires a [min, max] pair of numbers, got ${JSON.stringify(value)}`;
+    }
+
+    if (operator === 'within_hours_of') {
+      const hours = typeof value === 'object' && value !== null ? value.hours : value;
+      if (!this.isNumber(hours)) {
+        return `Operator within_hours_of requires a numeric hours value, got ${JSON.stringify(value)}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Conservative check for conditions that can never match regardless of the declaration.
+   */
+  private isSatisfiable(node: PolicyConditionNode, pack: PolicyPack): boolean {
+    if ('group' in node) {
+      const satisfiable = node.conditions.map(child => this.isSatisfiable(child, pack));
+      switch (node.group) {
+        case 'AND':
+          return satisfiable.length > 0 && satisfiable.every(Boolean);
+        case 'OR':
+          return satisfiable.some(Boolean);
+        default:
+          return true;
+      }
+    }
+
+    const { operator, value, field } = node;
+
+    switch (operator) {
+      case 'between':
+        return Array.isArray(value) && value.length === 2 && Number(value[0]) <= Number(value[1]);
+      case 'in':
+        return Array.isArray(value) && value.length > 0;
+      case 'not_in':
+        return Array.isArray(value);
+      case 'regex':
+        try {
+          return !!(typeof value === 'string' ? new RegExp(value) : new RegExp(value?.pattern, value?.flags));
+        } catch {
+          return false;
+        }
+      case 'day_of_week_in':
+        return Array.isArray(value) && value.some(day =>
+          typeof day === 'number' ? day >= 0 && day <= 6 : DAY_NAMES.includes(String(day).toUpperCase().substring(0, 3))
+        );
+    }
+
+    // Risk scores are bounded by [0, maxRiskScore]
+    if (field.startsWith('riskScores.') && field !== 'riskScores.reason_codes' && this.isNumber(value)) {
+      const max = pack.globalSettings.maxRiskScore;
+      switch (operator) {
+        case 'greater_than':
+          return value < max;
+        case 'gte':
+          return value <= max;
+        case 'less_than':
+          return value > 0;
+        case 'lte':
+          return value >= 0;
+      }
+    }
+
+    return !NUMERIC_OPERATORS.includes(operator) || this.isNumber(value);
+  }
+
+  /**
+   * Rules with identical conditions but opposing ALLOW and STOP actions.
+   */
+  private checkContradictions(rules: PolicyRule[]): PolicyLintFinding[] {
+    const findings: PolicyLintFinding[] = [];
+    const byConditions = new Map<string, { rule: PolicyRule; index: number }[]>();
+
+    rules.forEach((rule, index) => {
+      if (!rule.enabled || rule.conditions.length === 0) return;
+      const key = this.conditionKey(rule.conditions);
+      byConditions.set(key, [...(byConditions.get(key) || []), { rule, index }]);
+    });
+
+    for (const group of byConditions.values()) {
+      const allowing = group.filter(entry => entry.rule.actions.some(action => action.type === 'ALLOW'));
+      const stopping = group.filter(entry => entry.rule.actions.some(action => action.type === 'STOP'));
+
+      const reported = new Set<string>();
+      for (const stop of stopping) {
+        for (const allow of allowing) {
+          const pair = [stop.index, allow.index].sort((a, b) => a - b).join(':');
+          if (reported.has(pair)) continue;
+          reported.add(pair);
+
+          findings.push({
+            code: 'CONTRADICTORY_RULES',
+            path: stop.index === allow.index ? `rules[${stop.index}].actions` : `rules[${stop.index}]`,
+            rule_id: stop.rule.id,
+            message: stop.index === allow.index
+              ? `Rule ${stop.rule.id} both allows and stops the same declarations`
+              : `Rule ${stop.rule.id} stops and rule ${allow.rule.id} allows declarations matching the same conditions`
+          });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  // Order-insensitive key for a condition list; weights do not change what a condition matches
+  private conditionKey(nodes: PolicyConditionNode[]): string {
+    return nodes
+      .map(node => {
+        if ('group' in node) {
+          return `${node.group}(${this.conditionKey(node.conditions)})`;
+        }
+        return JSON.stringify([node.field, node.operator, node.value, node.quantifier || 'any', node.timezone || null]);
+      })
+      .sort()
+      .join('&');
+  }
+
+  private isKnownField(field: string): boolean {
+    const aggregate = field.match(AGGREGATE_PATTERN);
+    const path = aggregate ? aggregate[2].trim() : field;
+
+    const parts = path
+      .replace(/\[\*\]/g, '')
+      .replace(/\[\d+\]/g, '')
+      .split('.')
+      .filter(part => part.length > 0 && !/^\d+$/.test(part));
+
+    if (parts.length === 0) return false;
+
+    let shape: FieldShape = CONTEXT_FIELDS;
+    for (const part of parts) {
+      if (shape === '*') return true;
+      if (shape === true) return false;
+      if (!Object.prototype.hasOwnProperty.call(shape, part)) return false;
+      shape = shape[part];
+    }
+
+    return true;
+  }
+
+  private isNumber(value: any): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+
+  private formatPath(path: PropertyKey[]): string {
+    return path.reduce<string>((formatted, segment) => {
+      if (typeof segment === 'number') return `${formatted}[${segment}]`;
+      return formatted ? `${formatted}.${String(segment)}` : String(segment);
+    }, '');
+  }
+}
+
+export const policyPackLinter = new PolicyPackLinter();
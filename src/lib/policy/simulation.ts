@@ -0,0 +1,238 @@
+import { db } from '@/lib/db';
+import { PolicyEngine, PolicyPack } from '@/lib/policy/engine';
+import { decisionService, DecisionAction, PolicyDecision } from '@/lib/policy/decision';
+import { policyPackStore, DEFAULT_POLICY_ENVIRONMENT } from '@/lib/policy/store';
+
+export interface SimulationOptions {
+  days?: number;
+  environment?: string;
+  baselineVersion?: string;
+  candidateVersion?: string;
+  candidatePack?: PolicyPack;
+  maxFlips?: number;
+}
+
+export interface PackOutcomeSummary {
+  version: string;
+  decisions: Record<DecisionAction, number>;
+  flagged: number;
+  workload_hours: number;
+  hit_rate: number | null; // share of flagged declarations with a case outcome that were ADVERSE/SETTLED
+  recall: number | null; // share of ADVERSE/SETTLED declarations that were flagged
+  rules_triggered: Record<string, number>;
+}
+
+export interface DecisionFlip {
+  declaration_id: string;
+  lodgement_ts: string;
+  baseline: { action: DecisionAction; rule_ids: string[] };
+  candidate: { action: DecisionAction; rule_ids: string[] };
+  case_outcome: string | null;
+}
+
+export interface SimulationReport {
+  period: { start: string; end: string; days: number };
+  declarations_evaluated: number;
+  declarations_skipped: number;
+  declarations_with_outcome: number;
+  baseline: PackOutcomeSummary;
+  candidate: PackOutcomeSummary;
+  diff: {
+    extra_holds: number;
+    extra_stops: number;
+    extra_escalations: number;
+    flipped: number;
+    workload_hours_delta: number;
+    hit_rate_delta: number | null;
+  };
+  flips: DecisionFlip[];
+  flips_truncated: boolean;
+}
+
+const POSITIVE_OUTCOMES = ['ADVERSE', 'SETTLED'];
+const FLAGGED_ACTIONS: DecisionAction[] = ['HOLD', 'STOP', 'ESCALATE'];
+
+class PolicySimulator {
+  // Average officer effort per decision, used for workload estimates
+  private officerMinutes: Record<DecisionAction, number> = {
+    ALLOW: 0,
+    ESCALATE: 30,
+    HOLD: 45,
+    STOP: 120
+  };
+
+  private batchSize = 500;
+
+  /**
+   * Replay historical declarations through a baseline and a candidate pack and
+   * report how decisions, workload and hit rate would change.
+   */
+  async simulate(options: SimulationOptions): Promise<SimulationReport> {
+    const {
+      days = 30,
+      environment = DEFAULT_POLICY_ENVIRONMENT,
+      baselineVersion,
+      candidateVersion,
+      candidatePack,
+      maxFlips = 200
+    } = options;
+
+    const baselineEngine = baselineVersion
+      ? new PolicyEngine((await policyPackStore.getVersion(baselineVersion, environment)).policyPack)
+      : await policyPackStore.getActiveEngine(environment);
+
+    let candidateEngine: PolicyEngine;
+    if (candidatePack) {
+      candidateEngine = new PolicyEngine(candidatePack);
+    } else if (candidateVersion) {
+      candidateEngine = new PolicyEngine((await policyPackStore.getVersion(candidateVersion, environment)).policyPack);
+    } else {
+      throw new Error('A candidate version or candidate pack is required');
+    }
+
+    const periodEnd = new Date();
+    const periodStart = new Date(periodEnd.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const baseline = this.emptySummary(baselineEngine.getPolicyPack().version || 'baseline');
+    const candidate = this.emptySummary(candidateEngine.getPolicyPack().version || 'candidate');
+    const outcomeCounts = {
+      baseline: { flaggedPositive: 0, flaggedWithOutcome: 0 },
+      candidate: { flaggedPositive: 0, flaggedWithOutcome: 0 }
+    };
+    const flips: DecisionFlip[] = [];
+
+    let evaluated = 0;
+    let skipped = 0;
+    let withOutcome = 0;
+    let positives = 0;
+    let flipped = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const declarations = await db.declaration.findMany({
+        where: { lodgement_ts: { gte: periodStart, lte: periodEnd } },
+        include: {
+          items: true,
+          risk_scores: { orderBy: { created_at: 'desc' }, take: 1 },
+          cases: { where: { outcome: { not: null } }, orderBy: { closed_at: 'desc' } }
+        },
+        orderBy: { id: 'asc' },
+        take: this.batchSize,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      });
+
+      if (declarations.length === 0) break;
+      cursor = declarations[declarations.length - 1].id;
+
+      for (const declaration of declarations) {
+        const riskScore = declaration.risk_scores[0];
+        if (!riskScore) {
+          skipped++;
+          continue;
+        }
+
+        // Evaluate as of lodgement so time-based conditions replay faithfully
+        const context = {
+          ...decisionService.buildContext(declaration, declaration.items, riskScore),
+          timestamp: declaration.lodgement_ts.toISOString()
+        };
+
+        const baselineDecision = await decisionService.evaluate(context, baselineEngine);
+        const candidateDecision = await decisionService.evaluate(context, candidateEngine);
+        evaluated++;
+
+        const outcome = declaration.cases[0]?.outcome || null;
+        const isPositive = !!outcome && POSITIVE_OUTCOMES.includes(outcome);
+        if (outcome) withOutcome++;
+        if (isPositive) positives++;
+
+        this.tally(baseline, baselineDecision, outcome, isPositive, outcomeCounts.baseline);
+        this.tally(candidate, candidateDecision, outcome, isPositive, outcomeCounts.candidate);
+
+        if (baselineDecision.action !== candidateDecision.action) {
+          flipped++;
+          if (flips.length < maxFlips) {
+            flips.push({
+              declaration_id: declaration.declaration_id,
+              lodgement_ts: declaration.lodgement_ts.toISOString(),
+              baseline: { action: baselineDecision.action, rule_ids: baselineDecision.rule_ids },
+              candidate: { action: candidateDecision.action, rule_ids: candidateDecision.rule_ids },
+              case_outcome: outcome
+            });
+          }
+        }
+      }
+
+      if (declarations.length < this.batchSize) break;
+    }
+
+    this.finalise(baseline, outcomeCounts.baseline, positives);
+    this.finalise(candidate, outcomeCounts.candidate, positives);
+
+    return {
+      period: { start: periodStart.toISOString(), end: periodEnd.toISOString(), days },
+      declarations_evaluated: evaluated,
+      declarations_skipped: skipped,
+      declarations_with_outcome: withOutcome,
+      baseline,
+      candidate,
+      diff: {
+        extra_holds: candidate.decisions.HOLD - baseline.decisions.HOLD,
+        extra_stops: candidate.decisions.STOP - baseline.decisions.STOP,
+        extra_escalations: candidate.decisions.ESCALATE - baseline.decisions.ESCALATE,
+        flipped,
+        workload_hours_delta: Math.round((candidate.workload_hours - baseline.workload_hours) * 10) / 10,
+        hit_rate_delta: baseline.hit_rate !== null && candidate.hit_rate !== null
+          ? candidate.hit_rate - baseline.hit_rate
+          : null
+      },
+      flips,
+      flips_truncated: flipped > flips.length
+    };
+  }
+
+  private emptySummary(version: string): PackOutcomeSummary {
+    return {
+      version,
+      decisions: { ALLOW: 0, HOLD: 0, STOP: 0, ESCALATE: 0 },
+      flagged: 0,
+      workload_hours: 0,
+      hit_rate: null,
+      recall: null,
+      rules_triggered: {}
+    };
+  }
+
+  private tally(
+    summary: PackOutcomeSummary,
+    decision: PolicyDecision,
+    outcome: string | null,
+    isPositive: boolean,
+    counts: { flaggedPositive: number; flaggedWithOutcome: number }
+  ): void {
+    summary.decisions[decision.action]++;
+    summary.workload_hours += this.officerMinutes[decision.action] / 60;
+
+    for (const ruleId of decision.rule_ids) {
+      summary.rules_triggered[ruleId] = (summary.rules_triggered[ruleId] || 0) + 1;
+    }
+
+    if (FLAGGED_ACTIONS.includes(decision.action)) {
+      summary.flagged++;
+      if (outcome) counts.flaggedWithOutcome++;
+      if (isPositive) counts.flaggedPositive++;
+    }
+  }
+
+  private finalise(
+    summary: PackOutcomeSummary,
+    counts: { flaggedPositive: number; flaggedWithOutcome: number },
+    positives: number
+  ): void {
+    summary.workload_hours = Math.round(summary.workload_hours * 10) / 10;
+    summary.hit_rate = counts.flaggedWithOutcome > 0 ? counts.flaggedPositive / counts.flaggedWithOutcome : null;
+    summary.recall = positives > 0 ? counts.flaggedPositive / positives : null;
+  }
+}
+
+export const policySimulator = new PolicySimulator();
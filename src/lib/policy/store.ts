@@ -0,0 +1,363 @@
+import { db } from '@/lib/db';
+import { PolicyEngine, PolicyPack, defaultPolicyPack } from '@/lib/policy/engine';
+import { policyPackLinter } from '@/lib/policy/linter';
+
+export type PolicyPackStatus = 'DRAFT' | 'APPROVED' | 'ACTIVE' | 'RETIRED';
+
+export interface PolicyPackVersionSummary {
+  version: string;
+  environment: string;
+  name: string;
+  description?: string | null;
+  status: PolicyPackStatus;
+  based_on?: string | null;
+  created_by?: string | null;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  activated_by?: string | null;
+  activated_at?: string | null;
+  created_at: string;
+}
+
+export interface StoredPolicyPack extends PolicyPackVersionSummary {
+  policyPack: PolicyPack;
+}
+
+export class PolicyPackStoreError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_FOUND' | 'INVALID_TRANSITION' | 'CONFLICT' | 'DUAL_AUTHORISATION_REQUIRED'
+  ) {
+    super(message);
+    this.name = 'PolicyPackStoreError';
+  }
+}
+
+export const DEFAULT_POLICY_ENVIRONMENT = process.env.POLICY_ENVIRONMENT || 'production';
+
+class PolicyPackStore {
+  private cacheTtlMs = 30 * 1000; // other instances pick up activations within this window
+  private engineCache = new Map<string, { engine: PolicyEngine; version: string; loadedAt: number }>();
+
+  /**
+   * Engine for the active pack of an environment. The default pack is seeded as
+   * the first active version so that every decision references a stored version.
+   */
+  async getActiveEngine(environment: string = DEFAULT_POLICY_ENVIRONMENT): Promise<PolicyEngine> {
+    const cached = this.engineCache.get(environment);
+    if (cached && Date.now() - cached.loadedAt < this.cacheTtlMs) {
+      return cached.engine;
+    }
+
+    const active = await this.getActive(environment);
+    const engine = new PolicyEngine(active.policyPack);
+    this.engineCache.set(environment, { engine, version: active.version, loadedAt: Date.now() });
+    return engine;
+  }
+
+  async getActive(environment: string = DEFAULT_POLICY_ENVIRONMENT): Promise<StoredPolicyPack> {
+    let record = await db.policyPackVersion.findFirst({
+      where: { environment, status: 'ACTIVE' },
+      orderBy: { activated_at: 'desc' }
+    });
+
+    if (!record) {
+      record = await this.seedDefault(environment);
+    }
+
+    return this.toStored(record);
+  }
+
+  async getVersion(version: string, environment: string = DEFAULT_POLICY_ENVIRONMENT): Promise<StoredPolicyPack> {
+    const record = await db.policyPackVersion.findUnique({
+      where: { environment_version: { environment, version } }
+    });
+
+    if (!record) {
+      throw new PolicyPackStoreError(`Policy pack version ${version} not found`, 'NOT_FOUND');
+    }
+
+    return this.toStored(record);
+  }
+
+  async listVersions(environment: string = DEFAULT_POLICY_ENVIRONMENT, status?: PolicyPackStatus): Promise<PolicyPackVersionSummary[]> {
+    const records = await db.policyPackVersion.findMany({
+      where: { environment, ...(status ? { status } : {}) },
+      orderBy: { created_at: 'desc' }
+    });
+
+    return records.map(record => this.toSummary(record));
+  }
+
+  /**
+   * Save a pack as a new immutable DRAFT version. Existing versions are never modified.
+   */
+  async createDraft(
+    policyPack: PolicyPack,
+    createdBy: string,
+    options: { environment?: string; basedOn?: string } = {}
+  ): Promise<StoredPolicyPack> {
+    const environment = options.environment || DEFAULT_POLICY_ENVIRONMENT;
+    const version = policyPack.version || await this.nextVersion(environment);
+
+    const existing = await db.policyPackVersion.findUnique({
+      where: { environment_version: { environment, version } }
+    });
+    if (existing) {
+      throw new PolicyPackStoreError(`Policy pack version ${version} already exists`, 'CONFLICT');
+    }
+
+    const now = new Date().toISOString();
+    const content: PolicyPack = {
+      ...policyPack,
+      version,
+      createdAt: policyPack.createdAt || now,
+      updatedAt: now
+    };
+
+    let record;
+    try {
+      record = await db.policyPackVersion.create({
+        data: {
+          environment,
+          version,
+          name: content.name,
+          description: content.description,
+          content: JSON.stringify(content),
+          status: 'DRAFT',
+          based_on: options.basedOn || null,
+          created_by: createdBy
+        }
+      });
+    } catch (error: any) {
+      // Another draft took the version since the check above
+      if (error?.code === 'P2002') {
+        throw new PolicyPackStoreError(`Policy pack version ${version} already exists`, 'CONFLICT');
+      }
+      throw error;
+    }
+
+    await this.audit('CREATED', environment, version, createdBy, { based_on: options.basedOn });
+
+    return this.toStored(record);
+  }
+
+  /**
+   * Derive a new DRAFT from an existing version with one rule enabled or disabled.
+   */
+  async toggleRule(
+    ruleId: string,
+    enabled: boolean,
+    createdBy: string,
+    options: { environment?: string; baseVersion?: string } = {}
+  ): Promise<StoredPolicyPack> {
+    const environment = options.environment || DEFAULT_POLICY_ENVIRONMENT;
+    const base = options.baseVersion
+      ? await this.getVersion(options.baseVersion, environment)
+      : await this.getActive(environment);
+
+    const engine = new PolicyEngine(JSON.parse(JSON.stringify(base.policyPack)));
+    const found = enabled ? engine.enableRule(ruleId) : engine.disableRule(ruleId);
+    if (!found) {
+      throw new PolicyPackStoreError(`Rule ${ruleId} not found in version ${base.version}`, 'NOT_FOUND');
+    }
+
+    const derived = engine.getPolicyPack();
+    return this.createDraft(
+      { ...derived, version: '' },
+      createdBy,
+      { environment, basedOn: base.version }
+    );
+  }
+
+  async approve(version: string, approvedBy: string, environment: string = DEFAULT_POLICY_ENVIRONMENT): Promise<StoredPolicyPack> {
+    const current = await this.getVersion(version, environment);
+    if (current.status !== 'DRAFT') {
+      throw new PolicyPackStoreError(`Only DRAFT versions can be approved (version ${version} is ${current.status})`, 'INVALID_TRANSITION');
+    }
+    if (current.created_by === approvedBy) {
+      throw new PolicyPackStoreError(
+        `Version ${version} must be approved by someone other than its author`,
+        'DUAL_AUTHORISATION_REQUIRED'
+      );
+    }
+
+    const record = await db.policyPackVersion.update({
+      where: { environment_version: { environment, version } },
+      data: {
+        status: 'APPROVED',
+        approved_by: approvedBy,
+        approved_at: new Date()
+      }
+    });
+
+    await this.audit('APPROVED', environment, version, approvedBy, { from: 'DRAFT' });
+
+    return this.toStored(record);
+  }
+
+  async activate(version: string, activatedBy: string, environment: string = DEFAULT_POLICY_ENVIRONMENT): Promise<StoredPolicyPack> {
+    const target = await this.getVersion(version, environment);
+    if (target.status !== 'APPROVED') {
+      throw new PolicyPackStoreError(`Only APPROVED versions can be activated (version ${version} is ${target.status})`, 'INVALID_TRANSITION');
+    }
+
+    return this.switchActive(target, activatedBy, environment, 'ACTIVATED');
+  }
+
+  /**
+   * Re-activate a version that was previously approved, retiring the current one.
+   */
+  async rollback(version: string, activatedBy: string, environment: string = DEFAULT_POLICY_ENVIRONMENT): Promise<StoredPolicyPack> {
+    const target = await this.getVersion(version, environment);
+    if (target.status === 'ACTIVE') {
+      throw new PolicyPackStoreError(`Version ${version} is already active`, 'INVALID_TRANSITION');
+    }
+    if (target.status === 'DRAFT') {
+      throw new PolicyPackStoreError(`Cannot roll back to unapproved version ${version}`, 'INVALID_TRANSITION');
+    }
+
+    return this.switchActive(target, activatedBy, environment, 'ROLLED_BACK');
+  }
+
+  invalidateCache(environment?: string): void {
+    if (environment) {
+      this.engineCache.delete(environment);
+    } else {
+      this.engineCache.clear();
+    }
+  }
+
+  private async switchActive(
+    target: StoredPolicyPack,
+    activatedBy: string,
+    environment: string,
+    transition: 'ACTIVATED' | 'ROLLED_BACK'
+  ): Promise<StoredPolicyPack> {
+    const previous = await db.policyPackVersion.findMany({
+      where: { environment, status: 'ACTIVE' }
+    });
+
+    const [, record] = await db.$transaction([
+      db.policyPackVersion.updateMany({
+        where: { environment, status: 'ACTIVE' },
+        data: { status: 'RETIRED' }
+      }),
+      db.policyPackVersion.update({
+        where: { environment_version: { environment, version: target.version } },
+        data: {
+          status: 'ACTIVE',
+          activated_by: activatedBy,
+          activated_at: new Date()
+        }
+      })
+    ]);
+
+    for (const retired of previous) {
+      await this.audit('RETIRED', environment, retired.version, activatedBy, { replaced_by: target.version });
+    }
+    await this.audit(transition, environment, target.version, activatedBy, {
+      from: target.status,
+      previous_active: previous.map(p => p.version)
+    });
+
+    this.invalidateCache(environment);
+
+    return this.toStored(record);
+  }
+
+  private async seedDefault(environment: string) {
+    // The seeded pack must be one the policy API would accept back, or it could never be re-saved
+    const lint = policyPackLinter.lint(defaultPolicyPack);
+    if (!lint.valid) {
+      throw new Error(`Default policy pack fails lint: ${lint.findings.map(f => `${f.path}: ${f.message}`).join('; ')}`);
+    }
+
+    try {
+      const record = await db.policyPackVersion.create({
+        data: {
+          environment,
+          version: defaultPolicyPack.version,
+          name: defaultPolicyPack.name,
+          description: defaultPolicyPack.description,
+          content: JSON.stringify(defaultPolicyPack),
+          status: 'ACTIVE',
+          created_by: 'system',
+          approved_by: 'system',
+          approved_at: new Date(),
+          activated_by: 'system',
+          activated_at: new Date()
+        }
+      });
+
+      await this.audit('SEEDED', environment, record.version, 'system', {});
+      return record;
+    } catch (error: any) {
+      // Another instance seeded concurrently
+      if (error?.code === 'P2002') {
+        const record = await db.policyPackVersion.findFirst({
+          where: { environment, status: 'ACTIVE' }
+        });
+        if (record) return record;
+      }
+      throw error;
+    }
+  }
+
+  // Versions follow the YYYY-MM-DD-NN convention of the default pack, numbered after the day's highest
+  private async nextVersion(environment: string): Promise<string> {
+    const prefix = new Date().toISOString().substring(0, 10);
+    const existing = await db.policyPackVersion.findMany({
+      where: { environment, version: { startsWith: `${prefix}-` } },
+      select: { version: true }
+    });
+    const highest = existing.reduce((max, { version }) => {
+      const suffix = Number(version.substring(prefix.length + 1));
+      return Number.isInteger(suffix) ? Math.max(max, suffix) : max;
+    }, 0);
+    return `${prefix}-${String(highest + 1).padStart(2, '0')}`;
+  }
+
+  private async audit(
+    transition: string,
+    environment: string,
+    version: string,
+    actor: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    await db.audit.create({
+      data: {
+        event_id: `policy_pack_${transition.toLowerCase()}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        actor,
+        action: `POLICY_PACK_${transition}`,
+        payload_hash: JSON.stringify({ environment, version, ...details })
+      }
+    });
+  }
+
+  private toSummary(record: any): PolicyPackVersionSummary {
+    return {
+      version: record.version,
+      environment: record.environment,
+      name: record.name,
+      description: record.description,
+      status: record.status as PolicyPackStatus,
+      based_on: record.based_on,
+      created_by: record.created_by,
+      approved_by: record.approved_by,
+      approved_at: record.approved_at?.toISOString() || null,
+      activated_by: record.activated_by,
+      activated_at: record.activated_at?.toISOString() || null,
+      created_at: record.created_at.toISOString()
+    };
+  }
+
+  private toStored(record: any): StoredPolicyPack {
+    return {
+      ...this.toSummary(record),
+      policyPack: JSON.parse(record.content)
+    };
+  }
+}
+
+export const policyPackStore = new PolicyPackStore();
@@ -0,0 +1,267 @@
+import { db } from '@/lib/db';
+import { assessmentService } from '@/lib/assessment/service';
+import { fxRateService, FxRateError, BASE_CURRENCY } from '@/lib/fx/rates';
+
+export class PaymentMatchingError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_FOUND' | 'RATE_NOT_FOUND' | 'INVALID_CURRENCY' | 'ASSESSMENT_INCOMPLETE',
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'PaymentMatchingError';
+  }
+}
+
+export type PaymentStatus = 'MATCH' | 'SHORT' | 'OVER' | 'DELAYED';
+
+export type PaymentFlag = 'DUPLICATE_BANK_REF';
+
+export interface PaymentInput {
+  declaration_id: string;
+  bank_ref: string;
+  paid: number;
+  currency?: string; // defaults to naira
+  fx_rate?: number; // units of currency per USD; looked up for the lodgement date when omitted
+  assessed?: number; // only used when the declaration cannot be fully assessed
+  paid_at?: Date;
+}
+
+export interface PaymentMatch {
+  payment_id: string;
+  declaration_id: string;
+  bank_ref: string;
+  status: PaymentStatus;
+  assessed: number;
+  assessment_id: string | null;
+  assessment_status: 'COMPLETE' | 'INCOMPLETE';
+  paid: number;
+  cumulative_paid: number;
+  delta: number; // cumulative_paid - assessed
+  tolerance: number;
+  currency: string;
+  fx_rate: number;
+  paid_at: string;
+  due_at: string;
+  flags: PaymentFlag[];
+  duplicate_declarations: string[]; // other declarations the bank reference was already used against
+  case_id?: string; // PCA case opened for the shortfall
+  created_at: string;
+}
+
+class PaymentMatcher {
+  private config = {
+    toleranceAmount: Number(process.env.PAYMENT_TOLERANCE_AMOUNT) || 1, // in the payment currency
+    tolerancePercent: Number(process.env.PAYMENT_TOLERANCE_PERCENT) || 0.5, // of the amount due
+    dueDays: Number(process.env.PAYMENT_DUE_DAYS) || 7, // after lodgement, or after the latest amendment
+    caseThreshold: 1000 // shortfall above which a PCA case is opened
+  };
+
+  /**
+   * Record a payment and derive its status. Earlier payments against the declaration
+   * count towards the amount due, so a declaration settled in instalments ends up
+   * MATCH. A payment settling or short of the amount due after the due date is DELAYED.
+   */
+  async reconcile(input: PaymentInput, options: { actor: string; idempotencyKey?: string }): Promise<PaymentMatch> {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: input.declaration_id }
+    });
+    if (!declaration) {
+      throw new PaymentMatchingError(`Declaration ${input.declaration_id} not found`, 'NOT_FOUND');
+    }
+
+    let currency: string;
+    let fxRate = input.fx_rate;
+    try {
+      currency = fxRateService.normaliseCurrency(input.currency || BASE_CURRENCY);
+      if (!fxRate) {
+        fxRate = (await fxRateService.convert(1, 'USD', currency, declaration.lodgement_ts)).rate;
+      }
+    } catch (error) {
+      if (!(error instanceof FxRateError)) throw error;
+      throw new PaymentMatchingError(`${error.message}; supply fx_rate`, error.code);
+    }
+
+    // The amount due comes from the declaration's assessment (in USD), converted at the official
+    // rate on lodgement. A caller-supplied amount is only used when some items could not be assessed.
+    const assessment = await assessmentService.getCurrent(input.declaration_id, options.actor);
+    let assessed = input.assessed;
+
+    if (assessment.status === 'COMPLETE') {
+      assessed = roundMoney(assessment.total * fxRate);
+    } else if (assessed === undefined) {
+      throw new PaymentMatchingError(
+        'Declaration could not be fully assessed; supply the assessed amount',
+        'ASSESSMENT_INCOMPLETE',
+        assessment.unresolved
+      );
+    }
+
+    const paidAt = input.paid_at || new Date();
+    const dueAt = await this.getDueDate(declaration);
+    const cumulativePaid = roundMoney(
+      (await this.getPaidToDate(declaration.id, currency, fxRate)) + input.paid
+    );
+    const tolerance = this.getTolerance(assessed);
+    const status = this.deriveStatus(cumulativePaid, assessed, tolerance, paidAt, dueAt);
+    const delta = roundMoney(cumulativePaid - assessed);
+
+    const duplicates = await db.payment.findMany({
+      where: { bank_ref: input.bank_ref, declaration_id: { not: declaration.id } },
+      include: { declaration: { select: { declaration_id: true } } }
+    });
+    const duplicateDeclarations = Array.from(new Set(duplicates.map(payment => payment.declaration.declaration_id)));
+    const flags: PaymentFlag[] = duplicateDeclarations.length > 0 ? ['DUPLICATE_BANK_REF'] : [];
+
+    const payment = await db.payment.create({
+      data: {
+        declaration_id: declaration.id,
+        assessment_id: assessment.id,
+        assessed,
+        paid: input.paid,
+        cumulative_paid: cumulativePaid,
+        currency,
+        fx_rate: fxRate,
+        status,
+        bank_ref: input.bank_ref,
+        paid_at: paidAt,
+        due_at: dueAt,
+        flags: flags.length > 0 ? JSON.stringify(flags) : null
+      }
+    });
+
+    await db.audit.create({
+      data: {
+        event_id: `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        declaration_id: declaration.id,
+        actor: options.actor,
+        action: 'PAYMENT_RECONCILED',
+        payload_hash: options.idempotencyKey || JSON.stringify({ bank_ref: input.bank_ref, status, delta, cumulative_paid: cumulativePaid })
+      }
+    });
+
+    if (flags.includes('DUPLICATE_BANK_REF')) {
+      await db.audit.create({
+        data: {
+          event_id: `payment_dup_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          declaration_id: declaration.id,
+          actor: options.actor,
+          action: 'PAYMENT_DUPLICATE_BANK_REF',
+          payload_hash: JSON.stringify({ bank_ref: input.bank_ref, payment_id: payment.id, other_declarations: duplicateDeclarations })
+        }
+      });
+    }
+
+    const caseId = (status === 'SHORT' || status === 'DELAYED') && Math.abs(delta) > this.config.caseThreshold
+      ? await this.openRecoveryCase(declaration.id, Math.abs(delta))
+      : undefined;
+
+    return {
+      payment_id: payment.id,
+      declaration_id: input.declaration_id,
+      bank_ref: input.bank_ref,
+      status,
+      assessed,
+      assessment_id: assessment.id || null,
+      assessment_status: assessment.status,
+      paid: input.paid,
+      cumulative_paid: cumulativePaid,
+      delta,
+      tolerance,
+      currency,
+      fx_rate: fxRate,
+      paid_at: paidAt.toISOString(),
+      due_at: dueAt.toISOString(),
+      flags,
+      duplicate_declarations: duplicateDeclarations,
+      ...(caseId ? { case_id: caseId } : {}),
+      created_at: payment.created_at.toISOString()
+    };
+  }
+
+  getTolerance(assessed: number): number {
+    return roundMoney(Math.max(this.config.toleranceAmount, assessed * this.config.tolerancePercent / 100));
+  }
+
+  deriveStatus(cumulativePaid: number, assessed: number, tolerance: number, paidAt: Date, dueAt: Date): PaymentStatus {
+    if (cumulativePaid > assessed + tolerance) return 'OVER';
+    if (paidAt > dueAt) return 'DELAYED';
+    return cumulativePaid < assessed - tolerance ? 'SHORT' : 'MATCH';
+  }
+
+  /**
+   * Due a fixed number of days after lodgement. An amendment restarts the clock from the
+   * time it was made, which is when the snapshot of the previous version was written.
+   * Assessments are not used: the first one is often only made when a payment arrives.
+   */
+  private async getDueDate(declaration: { id: string; lodgement_ts: Date; version: number }): Promise<Date> {
+    const amendment = declaration.version > 1
+      ? await db.declarationVersion.findUnique({
+        where: { declaration_id_version: { declaration_id: declaration.id, version: declaration.version - 1 } },
+        select: { created_at: true }
+      })
+      : null;
+    const start = amendment && amendment.created_at > declaration.lodgement_ts
+      ? amendment.created_at
+      : declaration.lodgement_ts;
+
+    return new Date(start.getTime() + this.config.dueDays * 24 * 60 * 60 * 1000);
+  }
+
+  // Earlier payments against the declaration, in the given currency
+  private async getPaidToDate(declarationId: string, currency: string, fxRate: number): Promise<number> {
+    const payments = await db.payment.findMany({
+      where: { declaration_id: declarationId },
+      select: { paid: true, currency: true, fx_rate: true }
+    });
+    return this.sumPayments(payments, currency, fxRate);
+  }
+
+  // Payments made in another currency are converted via USD at their own rates
+  sumPayments(payments: { paid: number; currency: string; fx_rate: number | null }[], currency: string, fxRate: number): number {
+    return payments.reduce((total, payment) => {
+      if (payment.currency === currency) return total + payment.paid;
+      return payment.fx_rate ? total + payment.paid / payment.fx_rate * fxRate : total;
+    }, 0);
+  }
+
+  private async openRecoveryCase(declarationId: string, shortfall: number): Promise<string | undefined> {
+    const existingCase = await db.case.findFirst({
+      where: {
+        declaration_id: declarationId,
+        status: 'OPEN'
+      }
+    });
+    if (existingCase) return undefined;
+
+    const caseId = `CASE-RECON-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+
+    await db.case.create({
+      data: {
+        case_id: caseId,
+        declaration_id: declarationId,
+        type: 'PCA',
+        expected_recovery: shortfall,
+        status: 'OPEN'
+      }
+    });
+
+    await db.audit.create({
+      data: {
+        event_id: `case_auto_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        declaration_id: declarationId,
+        actor: 'system',
+        action: 'CASE_AUTO_CREATED',
+        payload_hash: JSON.stringify({ case_id: caseId, reason: 'Payment reconciliation' })
+      }
+    });
+
+    return caseId;
+  }
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const paymentMatcher = new PaymentMatcher();
@@ -0,0 +1,225 @@
+import { db } from '@/lib/db';
+import { fxRateService, FxRateError } from '@/lib/fx/rates';
+import { paymentMatcher, PaymentMatchingError, PaymentStatus } from './matching';
+import { suspenseQueue, SuspenseReason } from './suspense';
+import { parseStatement, StatementEntry, StatementFormat } from './statements';
+
+export type StatementMatchMethod = 'REFERENCE' | 'AMOUNT_DATE';
+
+export interface StatementEntryMatch {
+  declaration_ids: string[]; // exactly one when matched
+  method?: StatementMatchMethod;
+  reason?: SuspenseReason;
+  detail?: string;
+}
+
+export interface StatementImportResult {
+  format: StatementFormat;
+  statement_ids: string[];
+  entries: number;
+  credits: number;
+  reconciled: Array<{ entry_ref: string; declaration_id: string; method: StatementMatchMethod; status?: PaymentStatus; payment_id?: string }>;
+  suspense: Array<{ entry_ref: string; reason: SuspenseReason; detail?: string; candidates: string[]; suspense_id?: string }>;
+  skipped: Array<{ entry_ref: string; reason: 'ALREADY_RECONCILED' | 'ALREADY_IN_SUSPENSE' }>;
+  dry_run: boolean;
+}
+
+class StatementImportService {
+  private config = {
+    minReferenceLength: 4,
+    amountMatchWindowDays: 30, // how long before the value date a matching declaration may have been lodged
+    maxAmountCandidates: 2000
+  };
+
+  /**
+   * Import a camt.053 or MT940 statement. Each credit is matched to a declaration by a
+   * declaration ID quoted in its remittance information, or failing that by being the
+   * only declaration lodged shortly before whose outstanding amount it settles. Matched
+   * credits are reconciled as payments; the rest go to the suspense queue. Entries whose
+   * bank reference was already imported are skipped, so a statement can be re-imported.
+   */
+  async import(
+    content: string,
+    options: { format?: StatementFormat; dryRun?: boolean; actor: string }
+  ): Promise<StatementImportResult> {
+    const statement = parseStatement(content, options.format);
+    const result: StatementImportResult = {
+      format: statement.format,
+      statement_ids: statement.statement_ids,
+      entries: statement.entries,
+      credits: statement.credits.length,
+      reconciled: [],
+      suspense: [],
+      skipped: [],
+      dry_run: !!options.dryRun
+    };
+
+    for (const entry of statement.credits) {
+      if (await db.payment.findFirst({ where: { bank_ref: entry.entry_ref }, select: { id: true } })) {
+        result.skipped.push({ entry_ref: entry.entry_ref, reason: 'ALREADY_RECONCILED' });
+        continue;
+      }
+      if (await suspenseQueue.findByEntryRef(entry.entry_ref)) {
+        result.skipped.push({ entry_ref: entry.entry_ref, reason: 'ALREADY_IN_SUSPENSE' });
+        continue;
+      }
+
+      const match = await this.matchEntry(entry);
+      if (match.method && options.dryRun) {
+        result.reconciled.push({ entry_ref: entry.entry_ref, declaration_id: match.declaration_ids[0], method: match.method });
+        continue;
+      }
+
+      if (match.method) {
+        try {
+          const payment = await paymentMatcher.reconcile({
+            declaration_id: match.declaration_ids[0],
+            bank_ref: entry.entry_ref,
+            paid: entry.amount,
+            currency: entry.currency,
+            paid_at: entry.value_date
+          }, { actor: options.actor });
+
+          result.reconciled.push({
+            entry_ref: entry.entry_ref,
+            declaration_id: match.declaration_ids[0],
+            method: match.method,
+            status: payment.status,
+            payment_id: payment.payment_id
+          });
+          continue;
+        } catch (error) {
+          if (!(error instanceof PaymentMatchingError)) throw error;
+          match.reason = 'REJECTED';
+          match.detail = error.message;
+        }
+      }
+
+      const reason = match.reason || 'NO_MATCH';
+      const suspense = options.dryRun
+        ? undefined
+        : await suspenseQueue.add(entry, {
+          format: statement.format,
+          reason,
+          detail: match.detail,
+          candidates: match.declaration_ids
+        });
+
+      result.suspense.push({
+        entry_ref: entry.entry_ref,
+        reason,
+        detail: match.detail,
+        candidates: match.declaration_ids,
+        suspense_id: suspense?.id
+      });
+    }
+
+    if (!options.dryRun) {
+      await db.audit.create({
+        data: {
+          event_id: `statement_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          actor: options.actor,
+          action: 'BANK_STATEMENT_IMPORTED',
+          payload_hash: JSON.stringify({
+            format: result.format,
+            statement_ids: result.statement_ids,
+            credits: result.credits,
+            reconciled: result.reconciled.length,
+            suspense: result.suspense.length,
+            skipped: result.skipped.length
+          })
+        }
+      });
+    }
+
+    return result;
+  }
+
+  async matchEntry(entry: StatementEntry): Promise<StatementEntryMatch> {
+    const referenced = await this.matchByReference(entry);
+    if (referenced.length === 1) {
+      return { declaration_ids: referenced, method: 'REFERENCE' };
+    }
+    if (referenced.length > 1) {
+      return { declaration_ids: referenced, reason: 'AMBIGUOUS', detail: 'Remittance information quotes several declarations' };
+    }
+
+    const byAmount = await this.matchByAmount(entry);
+    if (byAmount.length === 1) {
+      return { declaration_ids: byAmount, method: 'AMOUNT_DATE' };
+    }
+    return byAmount.length > 1
+      ? { declaration_ids: byAmount, reason: 'AMBIGUOUS', detail: 'Amount settles more than one recently lodged declaration' }
+      : { declaration_ids: [], reason: 'NO_MATCH' };
+  }
+
+  // Declaration IDs quoted anywhere in the remittance information or end-to-end reference
+  private async matchByReference(entry: StatementEntry): Promise<string[]> {
+    const text = [entry.remittance_info, entry.end_to_end_id].filter(Boolean).join(' ');
+    const tokens = text
+      .split(/[\s,;:()]+/)
+      .map(token => token.replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9]+$/g, ''))
+      .filter(token => token.length >= this.config.minReferenceLength && /\d/.test(token));
+    if (tokens.length === 0) return [];
+
+    const declarations = await db.declaration.findMany({
+      where: { declaration_id: { in: Array.from(new Set([...tokens, ...tokens.map(token => token.toUpperCase())])) } },
+      select: { declaration_id: true }
+    });
+    return declarations.map(declaration => declaration.declaration_id);
+  }
+
+  /**
+   * Declarations lodged within the window before the value date whose current, fully
+   * assessed amount due, less what has been paid, equals the entry amount within tolerance.
+   * Only stored assessments are considered, so matching never assesses anything.
+   */
+  private async matchByAmount(entry: StatementEntry): Promise<string[]> {
+    const earliest = new Date(entry.value_date.getTime() - this.config.amountMatchWindowDays * 24 * 60 * 60 * 1000);
+    const assessments = await db.assessment.findMany({
+      where: {
+        status: 'COMPLETE',
+        declaration: { lodgement_ts: { gte: earliest, lte: entry.value_date } }
+      },
+      include: {
+        declaration: {
+          select: {
+            declaration_id: true,
+            version: true,
+            lodgement_ts: true,
+            payments: { select: { paid: true, currency: true, fx_rate: true } }
+          }
+        }
+      },
+      orderBy: { created_at: 'desc' },
+      take: this.config.maxAmountCandidates
+    });
+
+    const seen = new Set<string>();
+    const candidates: string[] = [];
+
+    for (const assessment of assessments) {
+      const declaration = assessment.declaration;
+      if (seen.has(declaration.declaration_id) || assessment.declaration_version !== declaration.version) continue;
+      seen.add(declaration.declaration_id);
+
+      let fxRate: number;
+      try {
+        fxRate = (await fxRateService.convert(1, 'USD', entry.currency, declaration.lodgement_ts)).rate;
+      } catch (error) {
+        if (error instanceof FxRateError) continue;
+        throw error;
+      }
+
+      const due = Math.round(assessment.total * fxRate * 100) / 100;
+      const outstanding = due - paymentMatcher.sumPayments(declaration.payments, entry.currency, fxRate);
+      if (outstanding > 0 && Math.abs(outstanding - entry.amount) <= paymentMatcher.getTolerance(due)) {
+        candidates.push(declaration.declaration_id);
+      }
+    }
+
+    return candidates;
+  }
+}
+
+export const statementImportService = new StatementImportService();
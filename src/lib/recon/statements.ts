@@ -0,0 +1,296 @@
+import { parseXml, findAll, find, textAt, XmlElement, XmlParseError } from '@/lib/integrations/xml';
+
+export class StatementParseError extends Error {
+  constructor(message: string, public code: 'INVALID_FORMAT' | 'UNKNOWN_FORMAT' | 'NO_STATEMENTS') {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+export type StatementFormat = 'CAMT053' | 'MT940';
+
+export interface StatementEntry {
+  statement_id: string;
+  entry_ref: string; // bank reference; unique per credit, used as the payment bank_ref
+  amount: number;
+  currency: string;
+  value_date: Date;
+  booking_date?: Date;
+  remittance_info?: string; // unstructured remittance text and structured creditor references
+  counterparty?: string;
+  end_to_end_id?: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  statement_ids: string[];
+  entries: number; // all entries in the file, debits included
+  credits: StatementEntry[];
+}
+
+// Reversals of debits are money coming in; reversed credits are not
+const CREDIT_MARKS = ['C', 'RD'];
+
+export function detectStatementFormat(content: string): StatementFormat | null {
+  const text = content.trimStart();
+  if (text.startsWith('<')) return /BkToCstmrStmt/.test(text) ? 'CAMT053' : null;
+  return /(^|\n):20:/.test(text) && /(^|\n):61:/.test(text) ? 'MT940' : null;
+}
+
+/**
+ * Parse a bank statement file and return its credit entries. Debits, reversed credits
+ * and entries not yet booked are counted but not returned.
+ */
+export function parseStatement(content: string, format?: StatementFormat): ParsedStatement {
+  const resolved = format || detectStatementFormat(content);
+  if (!resolved) {
+    throw new StatementParseError('Statement is neither camt.053 XML nor MT940', 'UNKNOWN_FORMAT');
+  }
+
+  const parsed = resolved === 'CAMT053' ? parseCamt053(content) : parseMt940(content);
+  if (parsed.statement_ids.length === 0) {
+    throw new StatementParseError('File contains no statements', 'NO_STATEMENTS');
+  }
+  return parsed;
+}
+
+/**
+ * ISO 20022 BankToCustomerStatement. Namespace prefixes are ignored so every message
+ * version reads the same. A batch entry whose transaction details carry their own
+ * amounts is split into one credit per transaction.
+ */
+export function parseCamt053(xml: string): ParsedStatement {
+  let root: XmlElement;
+  try {
+    root = stripNamespaces(parseXml(xml));
+  } catch (error) {
+    if (error instanceof XmlParseError) {
+      throw new StatementParseError(`Malformed XML: ${error.message}`, 'INVALID_FORMAT');
+    }
+    throw error;
+  }
+
+  const statements = findAll(root, 'BkToCstmrStmt/Stmt');
+  const result: ParsedStatement = { format: 'CAMT053', statement_ids: [], entries: 0, credits: [] };
+
+  for (const [statementIndex, statement] of statements.entries()) {
+    const statementId = textAt(statement, 'Id') || `STMT-${statementIndex + 1}`;
+    const accountCurrency = textAt(statement, 'Acct/Ccy');
+    result.statement_ids.push(statementId);
+
+    for (const [entryIndex, entry] of findAll(statement, 'Ntry').entries()) {
+      result.entries++;
+
+      const status = textAt(entry, 'Sts/Cd') || textAt(entry, 'Sts');
+      const credit = textAt(entry, 'CdtDbtInd') === 'CRDT';
+      const reversal = textAt(entry, 'RvslInd') === 'true';
+      if (status !== 'BOOK' || credit === reversal) continue;
+
+      const amountElement = find(entry, 'Amt');
+      const valueDate = readIsoDate(textAt(entry, 'ValDt/Dt') || textAt(entry, 'ValDt/DtTm'));
+      const bookingDate = readIsoDate(textAt(entry, 'BookgDt/Dt') || textAt(entry, 'BookgDt/DtTm'));
+      const entryRef = textAt(entry, 'AcctSvcrRef') || textAt(entry, 'NtryRef') || `${statementId}-${entryIndex + 1}`;
+      const transactions = findAll(entry, 'NtryDtls/TxDtls');
+
+      const toCredit = (transaction: XmlElement | undefined, amount: XmlElement | undefined, ref: string): StatementEntry | null => {
+        const value = amount ? Number(amount.text) : NaN;
+        const date = valueDate || bookingDate;
+        if (isNaN(value) || !date) return null;
+
+        return {
+          statement_id: statementId,
+          entry_ref: ref,
+          amount: value,
+          currency: (amount?.attributes.Ccy || accountCurrency || '').toUpperCase(),
+          value_date: date,
+          booking_date: bookingDate || undefined,
+          remittance_info: transaction ? readRemittance(transaction) : undefined,
+          counterparty: transaction
+            ? textAt(transaction, 'RltdPties/Dbtr/Nm') || textAt(transaction, 'RltdPties/Dbtr/Pty/Nm')
+            : undefined,
+          end_to_end_id: transaction ? readEndToEndId(transaction) : undefined
+        };
+      };
+
+      const itemised = transactions.length > 1 && transactions.every(transaction => find(transaction, 'Amt') || find(transaction, 'AmtDtls/TxAmt/Amt'));
+      const credits = itemised
+        ? transactions.map((transaction, index) => toCredit(
+          transaction,
+          find(transaction, 'Amt') || find(transaction, 'AmtDtls/TxAmt/Amt'),
+          textAt(transaction, 'Refs/AcctSvcrRef') || `${entryRef}-${index + 1}`
+        ))
+        : [toCredit(transactions[0], amountElement, entryRef)];
+
+      result.credits.push(...credits.filter((credit): credit is StatementEntry => credit !== null));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * SWIFT MT940 customer statement. Each :61: statement line is paired with the :86:
+ * information that follows it; the currency comes from the opening balance.
+ */
+export function parseMt940(content: string): ParsedStatement {
+  const result: ParsedStatement = { format: 'MT940', statement_ids: [], entries: 0, credits: [] };
+  const fields = splitMt940Fields(content);
+
+  let statementId = '';
+  let statementLines = 0;
+  let currency = '';
+  let pending: (StatementEntry & { credit: boolean }) | null = null;
+
+  const flush = () => {
+    if (pending?.credit) {
+      const { credit: _credit, ...entry } = pending;
+      result.credits.push(entry);
+    }
+    pending = null;
+  };
+
+  for (const { tag, value } of fields) {
+    switch (tag) {
+      case '20':
+        flush();
+        statementId = value.trim();
+        statementLines = 0;
+        result.statement_ids.push(statementId);
+        break;
+      case '60F':
+      case '60M': {
+        const balance = /^[CD]\d{6}([A-Z]{3})/.exec(value.trim());
+        if (!balance) throw new StatementParseError(`Invalid opening balance "${value.trim()}"`, 'INVALID_FORMAT');
+        currency = balance[1];
+        break;
+      }
+      case '61': {
+        flush();
+        result.entries++;
+        statementLines++;
+
+        const [line, supplementary] = value.split(/\r?\n/);
+        const match = /^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d*)[NSF][A-Z0-9]{3}([^/]*?)(?:\/\/(.*))?$/.exec(line.trim());
+        if (!match) throw new StatementParseError(`Invalid statement line "${line.trim()}"`, 'INVALID_FORMAT');
+
+        const valueDate = readMt940Date(match[1]);
+        const customerRef = match[5].trim();
+        const bankRef = match[6]?.trim();
+        if (!valueDate) throw new StatementParseError(`Invalid value date in "${line.trim()}"`, 'INVALID_FORMAT');
+
+        pending = {
+          statement_id: statementId,
+          // The customer reference is the payer's own and repeats across instalments, so it is never the key
+          entry_ref: bankRef || `${statementId}-${statementLines}`,
+          amount: Number(match[4].replace(',', '.')),
+          currency,
+          value_date: valueDate,
+          booking_date: match[2] ? readMt940BookingDate(match[2], valueDate) : undefined,
+          remittance_info: [customerRef !== 'NONREF' ? customerRef : '', supplementary?.trim() || ''].filter(Boolean).join(' ') || undefined,
+          credit: CREDIT_MARKS.includes(match[3])
+        };
+        break;
+      }
+      case '86':
+        if (pending) {
+          const info = parseMt940Information(value);
+          pending.remittance_info = [pending.remittance_info, info.remittance].filter(Boolean).join(' ') || undefined;
+          pending.counterparty = info.counterparty;
+          pending.end_to_end_id = info.endToEndId;
+        }
+        break;
+      case '62F':
+      case '62M':
+        flush();
+        break;
+    }
+  }
+  flush();
+
+  return result;
+}
+
+function stripNamespaces(element: XmlElement): XmlElement {
+  return {
+    ...element,
+    name: element.name.substring(element.name.indexOf(':') + 1),
+    children: element.children.map(stripNamespaces)
+  };
+}
+
+function readRemittance(transaction: XmlElement): string | undefined {
+  const parts = [
+    ...findAll(transaction, 'RmtInf/Ustrd').map(element => element.text),
+    ...findAll(transaction, 'RmtInf/Strd/CdtrRefInf/Ref').map(element => element.text)
+  ].filter((part): part is string => !!part);
+
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
+// Payers that send no end-to-end reference get the literal NOTPROVIDED
+function readEndToEndId(transaction: XmlElement): string | undefined {
+  const id = textAt(transaction, 'Refs/EndToEndId');
+  return id && id !== 'NOTPROVIDED' ? id : undefined;
+}
+
+function readIsoDate(text?: string): Date | null {
+  if (!text) return null;
+  const date = new Date(text.length === 10 ? `${text}T00:00:00Z` : text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function readMt940Date(yymmdd: string): Date | null {
+  const [year, month, day] = [2000 + Number(yymmdd.substring(0, 2)), Number(yymmdd.substring(2, 4)) - 1, Number(yymmdd.substring(4, 6))];
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
+
+// Booking dates carry no year; a booking in January for a December value date is in the next year
+function readMt940BookingDate(mmdd: string, valueDate: Date): Date | undefined {
+  const month = Number(mmdd.substring(0, 2)) - 1;
+  let year = valueDate.getUTCFullYear();
+  if (month < valueDate.getUTCMonth() - 6) year++;
+  if (month > valueDate.getUTCMonth() + 6) year--;
+  return readMt940Date(`${String(year % 100).padStart(2, '0')}${mmdd}`) || undefined;
+}
+
+// Fields start with :tag: at the beginning of a line and run until the next one or the end-of-message "-"
+function splitMt940Fields(content: string): { tag: string; value: string }[] {
+  const fields: { tag: string; value: string }[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const field = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (field) {
+      fields.push({ tag: field[1], value: field[2] });
+    } else if (fields.length > 0 && line.trim() !== '-' && !line.startsWith('{')) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+// Structured :86: uses ?nn subfields (?20-?29 remittance, ?32/?33 payer); anything else is free text
+function parseMt940Information(value: string): { remittance?: string; counterparty?: string; endToEndId?: string } {
+  const text = value.replace(/\r?\n/g, '');
+  if (!/\?\d{2}/.test(text)) {
+    return { remittance: value.replace(/\r?\n/g, ' ').trim() || undefined };
+  }
+
+  const subfields = new Map<number, string>();
+  for (const match of text.matchAll(/\?(\d{2})([^?]*)/g)) {
+    subfields.set(Number(match[1]), (subfields.get(Number(match[1])) || '') + match[2]);
+  }
+
+  const remittance = Array.from(subfields.entries())
+    .filter(([code]) => code >= 20 && code <= 29)
+    .map(([, part]) => part)
+    .join('');
+  const endToEndId = /EREF\+(\S+)/.exec(remittance)?.[1];
+  const counterparty = [subfields.get(32), subfields.get(33)].filter(Boolean).join('');
+
+  return {
+    remittance: remittance.trim() || undefined,
+    counterparty: counterparty || undefined,
+    endToEndId
+  };
+}
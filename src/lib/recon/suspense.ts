@@ -0,0 +1,210 @@
+import { db } from '@/lib/db';
+import { paymentMatcher, PaymentMatch } from './matching';
+import type { StatementEntry, StatementFormat } from './statements';
+
+export class SuspenseError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND' | 'INVALID_STATE') {
+    super(message);
+    this.name = 'SuspenseError';
+  }
+}
+
+export type SuspenseReason = 'NO_MATCH' | 'AMBIGUOUS' | 'REJECTED';
+export type SuspenseStatus = 'OPEN' | 'RESOLVED' | 'DISMISSED';
+
+export interface SuspenseItem {
+  id: string;
+  entry_ref: string;
+  statement_id: string;
+  format: StatementFormat;
+  amount: number;
+  currency: string;
+  value_date: string;
+  booking_date?: string;
+  remittance_info?: string;
+  counterparty?: string;
+  reason: SuspenseReason;
+  reason_detail?: string;
+  candidates: string[];
+  status: SuspenseStatus;
+  declaration_id?: string;
+  payment_id?: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_notes?: string;
+  created_at: string;
+}
+
+/**
+ * Statement credits that could not be matched to a declaration. A reviewer either
+ * assigns an entry to a declaration, which reconciles it as a payment, or dismisses it,
+ * e.g. when the money is not a customs payment.
+ */
+class SuspenseQueue {
+  async add(
+    entry: StatementEntry,
+    details: { format: StatementFormat; reason: SuspenseReason; detail?: string; candidates: string[] }
+  ): Promise<SuspenseItem> {
+    const record = await db.suspenseEntry.create({
+      data: {
+        entry_ref: entry.entry_ref,
+        statement_id: entry.statement_id,
+        format: details.format,
+        amount: entry.amount,
+        currency: entry.currency,
+        value_date: entry.value_date,
+        booking_date: entry.booking_date,
+        remittance_info: entry.remittance_info,
+        counterparty: entry.counterparty,
+        reason: details.reason,
+        reason_detail: details.detail,
+        candidates: details.candidates.length > 0 ? JSON.stringify(details.candidates) : null
+      }
+    });
+    return this.toItem(record);
+  }
+
+  async findByEntryRef(entryRef: string): Promise<SuspenseItem | null> {
+    const record = await db.suspenseEntry.findUnique({ where: { entry_ref: entryRef } });
+    return record ? this.toItem(record) : null;
+  }
+
+  async get(id: string): Promise<SuspenseItem> {
+    const record = await db.suspenseEntry.findUnique({ where: { id } });
+    if (!record) {
+      throw new SuspenseError(`Suspense entry ${id} not found`, 'NOT_FOUND');
+    }
+    return this.toItem(record);
+  }
+
+  async list(filters: { status?: SuspenseStatus; reason?: SuspenseReason; limit?: number; offset?: number } = {}) {
+    const where: any = { status: filters.status || 'OPEN' };
+    if (filters.reason) where.reason = filters.reason;
+
+    const [records, total, amounts] = await Promise.all([
+      db.suspenseEntry.findMany({
+        where,
+        orderBy: { value_date: 'asc' },
+        take: Math.min(filters.limit || 50, 500),
+        skip: filters.offset || 0
+      }),
+      db.suspenseEntry.count({ where }),
+      db.suspenseEntry.groupBy({ by: ['currency'], where, _sum: { amount: true } })
+    ]);
+
+    return {
+      entries: records.map(record => this.toItem(record)),
+      total,
+      amount_by_currency: Object.fromEntries(amounts.map(group => [group.currency, group._sum.amount || 0]))
+    };
+  }
+
+  async assign(
+    id: string,
+    declarationId: string,
+    reviewer: string,
+    notes?: string
+  ): Promise<{ entry: SuspenseItem; payment: PaymentMatch }> {
+    const record = await this.getOpen(id);
+
+    const payment = await paymentMatcher.reconcile({
+      declaration_id: declarationId,
+      bank_ref: record.entry_ref,
+      paid: record.amount,
+      currency: record.currency,
+      paid_at: record.value_date
+    }, { actor: reviewer });
+
+    const updated = await db.suspenseEntry.update({
+      where: { id },
+      data: {
+        status: 'RESOLVED',
+        declaration_id: declarationId,
+        payment_id: payment.payment_id,
+        reviewed_by: reviewer,
+        reviewed_at: new Date(),
+        review_notes: notes
+      }
+    });
+
+    await db.audit.create({
+      data: {
+        event_id: `suspense_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        actor: reviewer,
+        action: 'SUSPENSE_ENTRY_ASSIGNED',
+        payload_hash: JSON.stringify({
+          suspense_id: id,
+          entry_ref: record.entry_ref,
+          declaration_id: declarationId,
+          payment_id: payment.payment_id,
+          status: payment.status
+        })
+      }
+    });
+
+    return { entry: this.toItem(updated), payment };
+  }
+
+  async dismiss(id: string, reviewer: string, notes: string): Promise<SuspenseItem> {
+    const record = await this.getOpen(id);
+
+    const updated = await db.suspenseEntry.update({
+      where: { id },
+      data: {
+        status: 'DISMISSED',
+        reviewed_by: reviewer,
+        reviewed_at: new Date(),
+        review_notes: notes
+      }
+    });
+
+    await db.audit.create({
+      data: {
+        event_id: `suspense_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        actor: reviewer,
+        action: 'SUSPENSE_ENTRY_DISMISSED',
+        payload_hash: JSON.stringify({ suspense_id: id, entry_ref: record.entry_ref, amount: record.amount, currency: record.currency, notes })
+      }
+    });
+
+    return this.toItem(updated);
+  }
+
+  private async getOpen(id: string) {
+    const record = await db.suspenseEntry.findUnique({ where: { id } });
+    if (!record) {
+      throw new SuspenseError(`Suspense entry ${id} not found`, 'NOT_FOUND');
+    }
+    if (record.status !== 'OPEN') {
+      throw new SuspenseError(`Suspense entry ${id} is already ${record.status.toLowerCase()}`, 'INVALID_STATE');
+    }
+    return record;
+  }
+
+  private toItem(record: any): SuspenseItem {
+    return {
+      id: record.id,
+      entry_ref: record.entry_ref,
+      statement_id: record.statement_id,
+      format: record.format,
+      amount: record.amount,
+      currency: record.currency,
+      value_date: record.value_date.toISOString(),
+      booking_date: record.booking_date?.toISOString() ?? undefined,
+      remittance_info: record.remittance_info ?? undefined,
+      counterparty: record.counterparty ?? undefined,
+      reason: record.reason,
+      reason_detail: record.reason_detail ?? undefined,
+      candidates: record.candidates ? JSON.parse(record.candidates) : [],
+      status: record.status,
+      declaration_id: record.declaration_id ?? undefined,
+      payment_id: record.payment_id ?? undefined,
+      reviewed_by: record.reviewed_by ?? undefined,
+      reviewed_at: record.reviewed_at?.toISOString() ?? undefined,
+      review_notes: record.review_notes ?? undefined,
+      created_at: record.created_at.toISOString()
+    };
+  }
+}
+
+export const suspenseQueue = new SuspenseQueue();
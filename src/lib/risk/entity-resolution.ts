@@ -0,0 +1,176 @@
+export type NetworkNodeType = 'TIN' | 'NAME' | 'ADDRESS' | 'PHONE' | 'EMAIL' | 'LICENSE' | 'VESSEL' | 'BL';
+
+export interface EntityIdentifier {
+  type: NetworkNodeType;
+  key: string; // normalised value; equal keys are the same node
+  label: string;
+  block?: string; // only fuzzy-matched types have one
+}
+
+// Node types resolved by similarity as well as by exact key, with the similarity required
+export const FUZZY_THRESHOLDS: Partial<Record<NetworkNodeType, number>> = {
+  NAME: 0.88,
+  ADDRESS: 0.8
+};
+
+// Legal forms and filler words that do not tell two companies apart
+const NAME_NOISE = new Set([
+  'THE', 'LTD', 'LIMITED', 'PLC', 'CO', 'COMPANY', 'INC', 'LLC', 'NIG', 'NIGERIA',
+  'ENT', 'ENTERPRISE', 'ENTERPRISES', 'INTL', 'INTERNATIONAL', 'VENTURES', 'AND'
+]);
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  RD: 'ROAD',
+  ST: 'STREET',
+  STR: 'STREET',
+  AVE: 'AVENUE',
+  AV: 'AVENUE',
+  CRES: 'CRESCENT',
+  CL: 'CLOSE',
+  CLS: 'CLOSE',
+  EXPY: 'EXPRESSWAY',
+  EST: 'ESTATE',
+  IND: 'INDUSTRIAL'
+};
+
+const ADDRESS_NOISE = new Set(['NO', 'PLOT', 'BLOCK', 'OFF', 'BY', 'ALONG']);
+
+export function normaliseTin(tin: string): string {
+  return tin.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function normaliseName(name: string): string {
+  return tokenise(name.replace(/&/g, ' AND '))
+    .filter(token => !NAME_NOISE.has(token))
+    .join(' ');
+}
+
+export function normaliseAddress(address: string): string {
+  return tokenise(address)
+    .map(token => ADDRESS_ABBREVIATIONS[token] || token)
+    .filter(token => !ADDRESS_NOISE.has(token))
+    .join(' ');
+}
+
+// Nigerian numbers are written with +234, 234 or a trunk 0; the last ten digits identify the line
+export function normalisePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length > 10 ? digits.substring(digits.length - 10) : digits;
+}
+
+// Sub-addresses (name+tag@) reach the same mailbox
+export function normaliseEmail(email: string): string {
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  return domain ? `${local.split('+')[0]}@${domain}` : local;
+}
+
+export function normaliseReference(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * The identifiers a declaration contributes to the entity graph. A bill of lading number
+ * is only unique per carrier, so it is keyed together with the vessel when known.
+ */
+export function extractIdentifiers(declaration: any): EntityIdentifier[] {
+  const identifiers: EntityIdentifier[] = [];
+  const add = (type: NetworkNodeType, key: string, label: string, block?: string) => {
+    if (key && !identifiers.some(identifier => identifier.type === type && identifier.key === key)) {
+      identifiers.push({ type, key, label: label.trim(), ...(block !== undefined ? { block } : {}) });
+    }
+  };
+
+  if (declaration.consignee_tin) add('TIN', normaliseTin(declaration.consignee_tin), declaration.consignee_tin);
+
+  if (declaration.consignee_name) {
+    const name = normaliseName(declaration.consignee_name);
+    add('NAME', name, declaration.consignee_name, name.substring(0, 3));
+  }
+
+  if (declaration.consignee_addr) {
+    const address = normaliseAddress(declaration.consignee_addr);
+    add('ADDRESS', address, declaration.consignee_addr, addressBlock(address));
+  }
+
+  for (const phone of parseList(declaration.consignee_phones)) {
+    const key = normalisePhone(phone);
+    if (key.length >= 7) add('PHONE', key, phone);
+  }
+  for (const email of parseList(declaration.consignee_emails)) {
+    add('EMAIL', normaliseEmail(email), email);
+  }
+
+  if (declaration.declarant_license_id) {
+    add('LICENSE', normaliseReference(declaration.declarant_license_id), declaration.declarant_license_id);
+  }
+
+  const vessel = declaration.voyage_vessel ? normaliseReference(declaration.voyage_vessel) : '';
+  if (vessel) add('VESSEL', vessel, declaration.voyage_vessel);
+  if (declaration.voyage_bl) {
+    const bl = normaliseReference(declaration.voyage_bl);
+    add('BL', vessel ? `${bl}@${vessel}` : bl, declaration.voyage_bl);
+  }
+
+  return identifiers;
+}
+
+/**
+ * Similarity between two normalised values: the better of edit-distance similarity,
+ * which catches typos, and token overlap, which catches added or reordered words.
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const editSimilarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  const tokensA = new Set(a.split(' '));
+  const tokensB = new Set(b.split(' '));
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  const tokenSimilarity = shared / (tokensA.size + tokensB.size - shared);
+
+  return Math.max(editSimilarity, tokenSimilarity);
+}
+
+function tokenise(value: string): string[] {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Addresses are compared within the same house number, or the same first word when there is none
+function addressBlock(address: string): string {
+  const number = address.split(' ').find(token => /^\d+[A-Z]?$/.test(token));
+  return number || address.substring(0, 3);
+}
+
+function parseList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((entry): entry is string => typeof entry === 'string');
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [value];
+  }
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,329 @@
+import { db } from '@/lib/db';
+import { extractIdentifiers, similarity, normaliseTin, EntityIdentifier, NetworkNodeType, FUZZY_THRESHOLDS } from './entity-resolution';
+
+export interface NetworkRiskFactor {
+  code: string; // reason code added to the risk score
+  score: number;
+  description: string;
+  evidence: string[]; // declaration IDs and identifiers behind the factor
+}
+
+export interface NetworkRiskAssessment {
+  score: number;
+  reason_codes: string[];
+  factors: NetworkRiskFactor[];
+  entity: {
+    tins: string[]; // TINs resolved to the same consignee through shared names and contacts
+    first_seen: string | null;
+    declarations: number;
+    linked_declarations: number;
+  };
+}
+
+export interface NetworkNeighbour {
+  declaration_id: string;
+  consignee_tin: string | null;
+  consignee_name: string | null;
+  lodgement_ts: string;
+  shared: { node_id: string; type: NetworkNodeType; label: string }[];
+  adverse_cases: string[];
+}
+
+interface ResolvedNode {
+  id: string;
+  type: NetworkNodeType;
+  key: string;
+  label: string;
+  first_seen: Date;
+}
+
+const CONTACT_TYPES: NetworkNodeType[] = ['PHONE', 'EMAIL'];
+
+class NetworkRiskService {
+  private config = {
+    // Strength of a link to an adverse case, by the kind of identifier shared
+    adverseLinkWeights: {
+      TIN: 0.8,
+      PHONE: 0.65,
+      EMAIL: 0.65,
+      BL: 0.6,
+      NAME: 0.45,
+      ADDRESS: 0.4,
+      LICENSE: 0.3
+    } as Partial<Record<NetworkNodeType, number>>,
+    sharedContactMinTins: 2,
+    sharedAddressMinTins: 3,
+    surgeWindowDays: 30,
+    surgeMinDeclarations: 5,
+    maxNeighbours: 5000,
+    maxFuzzyCandidates: 500
+  };
+
+  /**
+   * Resolve the declaration's identifiers to graph nodes and replace its links, so an
+   * amended declaration moves to its new nodes. Names and addresses close enough to an
+   * existing node are linked to that node instead of creating a new one.
+   */
+  async indexDeclaration(declaration: any): Promise<ResolvedNode[]> {
+    const lodgement = new Date(declaration.lodgement_ts);
+    const nodes: ResolvedNode[] = [];
+
+    for (const identifier of extractIdentifiers(declaration)) {
+      const existing = await this.findNode(identifier);
+      const node = existing
+        ? await db.networkNode.update({
+          where: { id: existing.id },
+          data: {
+            first_seen: existing.first_seen < lodgement ? existing.first_seen : lodgement,
+            last_seen: existing.last_seen > lodgement ? existing.last_seen : lodgement
+          }
+        })
+        : await db.networkNode.upsert({
+          where: { type_key: { type: identifier.type, key: identifier.key } },
+          create: {
+            type: identifier.type,
+            key: identifier.key,
+            label: identifier.label,
+            block: identifier.block,
+            first_seen: lodgement,
+            last_seen: lodgement
+          },
+          update: {}
+        });
+
+      nodes.push({ id: node.id, type: node.type as NetworkNodeType, key: node.key, label: node.label, first_seen: node.first_seen });
+    }
+
+    await db.$transaction([
+      db.networkLink.deleteMany({ where: { declaration_id: declaration.id } }),
+      db.networkLink.createMany({
+        data: nodes.map(node => ({ node_id: node.id, declaration_id: declaration.id })),
+        skipDuplicates: true
+      })
+    ]);
+
+    return nodes;
+  }
+
+  /**
+   * Index the declaration and score its position in the graph. Factors combine as
+   * independent signals: the score is the chance that at least one of them is real.
+   */
+  async assess(declaration: any): Promise<NetworkRiskAssessment> {
+    const nodes = await this.indexDeclaration(declaration);
+    const lodgement = new Date(declaration.lodgement_ts);
+    const ownTin = nodes.find(node => node.type === 'TIN')?.key;
+    const neighbours = await this.loadNeighbours(declaration.id, nodes.map(node => node.id));
+    const factors: NetworkRiskFactor[] = [];
+
+    // Links to declarations with an adverse case outcome, scored by the strongest shared identifier
+    const adverse = neighbours.filter(neighbour => neighbour.adverse_cases.length > 0);
+    if (adverse.length > 0) {
+      const strongest = adverse.map(neighbour => ({
+        neighbour,
+        weight: Math.max(...neighbour.shared.map(shared => this.config.adverseLinkWeights[shared.type] || 0))
+      })).sort((a, b) => b.weight - a.weight);
+
+      const score = Math.min(strongest[0].weight + 0.05 * (adverse.length - 1), 0.95);
+      if (score > 0) {
+        factors.push({
+          code: 'Linked_To_Adverse_Case',
+          score,
+          description: `Shares identifiers with ${adverse.length} declaration(s) that ended in an adverse case`,
+          evidence: strongest.slice(0, 5).map(({ neighbour }) =>
+            `${neighbour.declaration_id} via ${neighbour.shared.map(shared => shared.type).join('+')} (${neighbour.adverse_cases.join(', ')})`
+          )
+        });
+      }
+    }
+
+    // Shell-company indicators
+    if (!ownTin) {
+      factors.push({
+        code: 'Missing_Consignee_TIN',
+        score: 0.25,
+        description: 'Consignee has no tax identification number',
+        evidence: []
+      });
+    }
+
+    const sharedContact = nodes
+      .filter(node => CONTACT_TYPES.includes(node.type))
+      .map(node => ({ node, tins: this.otherTins(neighbours, node, ownTin) }))
+      .sort((a, b) => b.tins.length - a.tins.length)[0];
+    if (sharedContact && sharedContact.tins.length >= this.config.sharedContactMinTins) {
+      const { node, tins } = sharedContact;
+      factors.push({
+        code: 'Shared_Contact_Multiple_TINs',
+        score: Math.min(0.35 + 0.1 * (tins.length - this.config.sharedContactMinTins), 0.6),
+        description: `${node.type === 'PHONE' ? 'Phone number' : 'Email address'} ${node.label} is used by ${tins.length} other consignees`,
+        evidence: tins.slice(0, 5)
+      });
+    }
+
+    const address = nodes.find(node => node.type === 'ADDRESS');
+    const addressTins = address ? this.otherTins(neighbours, address, ownTin) : [];
+    if (address && addressTins.length >= this.config.sharedAddressMinTins) {
+      factors.push({
+        code: 'Shared_Address_Multiple_TINs',
+        score: 0.3,
+        description: `Address ${address.label} is shared with ${addressTins.length} other consignees`,
+        evidence: addressTins.slice(0, 5)
+      });
+    }
+
+    const name = nodes.find(node => node.type === 'NAME');
+    const nameTins = name && ownTin ? this.otherTins(neighbours, name, ownTin) : [];
+    if (name && nameTins.length > 0) {
+      factors.push({
+        code: 'Name_Multiple_TINs',
+        score: 0.3,
+        description: `Consignee name ${name.label} also appears under ${nameTins.length} other TIN(s)`,
+        evidence: nameTins.slice(0, 5)
+      });
+    }
+
+    const bl = nodes.find(node => node.type === 'BL');
+    if (bl) {
+      const reusedBy = neighbours.filter(neighbour =>
+        neighbour.shared.some(shared => shared.type === 'BL')
+        && !neighbour.shared.some(shared => shared.type === 'TIN' || shared.type === 'NAME')
+      );
+      if (reusedBy.length > 0) {
+        factors.push({
+          code: 'BL_Reused_Across_Consignees',
+          score: 0.55,
+          description: `Bill of lading ${bl.label} was also declared by ${reusedBy.length} other consignee(s)`,
+          evidence: reusedBy.slice(0, 5).map(neighbour => neighbour.declaration_id)
+        });
+      }
+    }
+
+    // New-importer surge: many declarations soon after the consignee first appeared
+    const entityNodes = nodes.filter(node => node.type === (ownTin ? 'TIN' : 'NAME'));
+    const firstSeen = entityNodes.length > 0 ? entityNodes[0].first_seen : lodgement;
+    const entityDeclarations = 1 + neighbours.filter(neighbour =>
+      entityNodes.some(node => neighbour.shared.some(shared => shared.node_id === node.id))
+      && new Date(neighbour.lodgement_ts) <= lodgement
+    ).length;
+    const ageDays = (lodgement.getTime() - firstSeen.getTime()) / (24 * 60 * 60 * 1000);
+
+    if (ageDays <= this.config.surgeWindowDays && entityDeclarations >= this.config.surgeMinDeclarations) {
+      factors.push({
+        code: 'New_Importer_Surge',
+        score: entityDeclarations >= this.config.surgeMinDeclarations * 2 ? 0.55 : 0.4,
+        description: `${entityDeclarations} declarations within ${Math.ceil(ageDays)} day(s) of the consignee's first appearance`,
+        evidence: [`First seen ${firstSeen.toISOString().substring(0, 10)}`]
+      });
+    }
+
+    const score = 1 - factors.reduce((remaining, factor) => remaining * (1 - factor.score), 1);
+    const tins = new Set<string>(ownTin ? [ownTin] : []);
+    for (const neighbour of neighbours) {
+      if (neighbour.consignee_tin && neighbour.shared.some(shared => shared.type === 'NAME' || CONTACT_TYPES.includes(shared.type))) {
+        tins.add(normaliseTin(neighbour.consignee_tin));
+      }
+    }
+
+    return {
+      score: Math.round(score * 1000) / 1000,
+      reason_codes: factors.map(factor => factor.code),
+      factors,
+      entity: {
+        tins: Array.from(tins),
+        first_seen: entityNodes.length > 0 ? firstSeen.toISOString() : null,
+        declarations: entityDeclarations,
+        linked_declarations: neighbours.length
+      }
+    };
+  }
+
+  // Declarations sharing at least one node with the given declaration, as indexed
+  async getNeighbours(declarationId: string): Promise<NetworkNeighbour[]> {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: declarationId },
+      select: { id: true, network_links: { select: { node_id: true } } }
+    });
+    if (!declaration) return [];
+
+    return this.loadNeighbours(declaration.id, declaration.network_links.map(link => link.node_id));
+  }
+
+  private async loadNeighbours(declarationKey: string, nodeIds: string[]): Promise<NetworkNeighbour[]> {
+    if (nodeIds.length === 0) return [];
+
+    const links = await db.networkLink.findMany({
+      where: {
+        node_id: { in: nodeIds },
+        declaration_id: { not: declarationKey },
+        node: { type: { not: 'VESSEL' } } // a vessel carries many unrelated importers
+      },
+      include: {
+        node: { select: { type: true, label: true } },
+        declaration: {
+          select: {
+            declaration_id: true,
+            consignee_tin: true,
+            consignee_name: true,
+            lodgement_ts: true,
+            cases: { where: { outcome: 'ADVERSE' }, select: { case_id: true } }
+          }
+        }
+      },
+      take: this.config.maxNeighbours
+    });
+
+    const neighbours = new Map<string, NetworkNeighbour>();
+    for (const link of links) {
+      const neighbour = neighbours.get(link.declaration_id) || {
+        declaration_id: link.declaration.declaration_id,
+        consignee_tin: link.declaration.consignee_tin,
+        consignee_name: link.declaration.consignee_name,
+        lodgement_ts: link.declaration.lodgement_ts.toISOString(),
+        shared: [],
+        adverse_cases: link.declaration.cases.map(caseRecord => caseRecord.case_id)
+      };
+      neighbour.shared.push({ node_id: link.node_id, type: link.node.type as NetworkNodeType, label: link.node.label });
+      neighbours.set(link.declaration_id, neighbour);
+    }
+    return Array.from(neighbours.values());
+  }
+
+  private async findNode(identifier: EntityIdentifier) {
+    const exact = await db.networkNode.findUnique({
+      where: { type_key: { type: identifier.type, key: identifier.key } }
+    });
+    const threshold = FUZZY_THRESHOLDS[identifier.type];
+    if (exact || !threshold || !identifier.block) return exact;
+
+    const candidates = await db.networkNode.findMany({
+      where: { type: identifier.type, block: identifier.block },
+      take: this.config.maxFuzzyCandidates
+    });
+
+    let best: (typeof candidates)[number] | null = null;
+    let bestSimilarity = threshold;
+    for (const candidate of candidates) {
+      const score = similarity(identifier.key, candidate.key);
+      if (score >= bestSimilarity) {
+        best = candidate;
+        bestSimilarity = score;
+      }
+    }
+    return best;
+  }
+
+  // Other consignee TINs among the declarations linked through the node
+  private otherTins(neighbours: NetworkNeighbour[], node: ResolvedNode, ownTin?: string): string[] {
+    const tins = new Set<string>();
+    for (const neighbour of neighbours) {
+      if (!neighbour.consignee_tin || !neighbour.shared.some(shared => shared.node_id === node.id)) continue;
+
+      const tin = normaliseTin(neighbour.consignee_tin);
+      if (tin !== ownTin) tins.add(tin);
+    }
+    return Array.from(tins);
+  }
+}
+
+export const networkRiskService = new NetworkRiskService();
@@ -0,0 +1,102 @@
+import { db } from '@/lib/db';
+import { priceBandService } from '@/lib/valuation/price-bands';
+import { networkRiskService } from '@/lib/risk/network';
+
+export interface RiskScores {
+  overall: number;
+  undervaluation: number;
+  misclassification: number;
+  origin_fraud: number;
+  doc_forgery: number;
+  network_risk: number;
+  payment_leakage: number;
+}
+
+class RiskScoringService {
+  // Risk scoring engine with ML and rules
+  async calculate(declaration: any, items: any[]): Promise<{ scores: RiskScores; reasonCodes: string[]; itemScores: Record<number, number> }> {
+    // Initialize scores
+    const scores: RiskScores = {
+      overall: 0.0,
+      undervaluation: 0.0,
+      misclassification: 0.0,
+      origin_fraud: 0.0,
+      doc_forgery: 0.0,
+      network_risk: 0.0,
+      payment_leakage: 0.0
+    };
+
+    const reasonCodes: string[] = [];
+    const itemScores: Record<number, number> = {}; // undervaluation score by item line
+
+    // Rule 1: Check for undervaluation against reference price bands
+    const asOf = new Date(declaration.lodgement_ts);
+    let unbanded = 0;
+    for (const item of items) {
+      const assessment = await priceBandService.assessItem(item, asOf);
+      if (!assessment) continue;
+
+      itemScores[assessment.line_no] = assessment.score;
+      scores.undervaluation = Math.max(scores.undervaluation, assessment.score);
+      if (assessment.grade === 'NO_BAND') unbanded++;
+      if (assessment.reason_code) {
+        reasonCodes.push(assessment.reason_code);
+      }
+    }
+    // One code for the declaration, not one per line, so missing bands do not crowd out real findings
+    if (unbanded > 0) {
+      reasonCodes.push('No_Price_Band');
+    }
+
+    // Rule 2: Check for high-risk origins
+    const highRiskOrigins = ['CN', 'HK', 'SG'];
+    if (items.some(item => highRiskOrigins.includes(item.country_origin || ''))) {
+      scores.origin_fraud = 0.6;
+      reasonCodes.push('High_Risk_Origin');
+    }
+
+    // Rule 3: Check the consignee's links in the entity graph
+    const network = await networkRiskService.assess(declaration);
+    scores.network_risk = network.score;
+    reasonCodes.push(...network.reason_codes);
+
+    // Rule 4: Check for high-value shipments
+    const totalValue = items.reduce((sum, item) => sum + item.invoice_value_usd, 0);
+    if (totalValue > 100000) {
+      scores.undervaluation = Math.max(scores.undervaluation, 0.5);
+      reasonCodes.push('High_Value_Shipment');
+    }
+
+    // Calculate overall score (weighted average)
+    scores.overall = Math.max(
+      scores.undervaluation * 0.3,
+      scores.misclassification * 0.2,
+      scores.origin_fraud * 0.2,
+      scores.doc_forgery * 0.1,
+      scores.network_risk * 0.1,
+      scores.payment_leakage * 0.1
+    );
+
+    return { scores, reasonCodes, itemScores };
+  }
+
+  /**
+   * Score a declaration and store the result as a new entry in its score history.
+   */
+  async scoreDeclaration(declaration: any, items: any[]) {
+    const { scores, reasonCodes, itemScores } = await this.calculate(declaration, items);
+
+    const riskScore = await db.riskScore.create({
+      data: {
+        declaration_id: declaration.id,
+        ...scores,
+        reason_codes: reasonCodes,
+        item_scores: JSON.stringify(itemScores)
+      }
+    });
+
+    return { riskScore, scores, reasonCodes };
+  }
+}
+
+export const riskScoringService = new RiskScoringService();
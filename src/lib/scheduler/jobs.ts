@@ -0,0 +1,44 @@
+import { jobScheduler, WORKFLOW_EXPIRY_JOB, DRIFT_CHECK_JOB, IDEMPOTENCY_CLEANUP_JOB } from '@/lib/scheduler/scheduler';
+import { holdStopWorkflowManager } from '@/lib/workflow/manager';
+import { driftMonitor } from '@/lib/monitoring/drift';
+import { cleanupExpiredIdempotencyKeys } from '@/lib/middleware/idempotency';
+
+function intervalFromEnv(variable: string, fallbackSeconds: number): number {
+  const value = Number(process.env[variable]);
+  return value > 0 ? value : fallbackSeconds;
+}
+
+let registered = false;
+
+/**
+ * Register the built-in jobs. Safe to call more than once; route handlers call it
+ * so that jobs can be triggered from the admin API in any instance.
+ */
+export function registerDefaultJobs(): void {
+  if (registered) return;
+  registered = true;
+
+  jobScheduler.register({
+    name: WORKFLOW_EXPIRY_JOB,
+    description: 'Expire hold/stop workflows past their SLA and send SLA warnings',
+    intervalSeconds: intervalFromEnv('WORKFLOW_EXPIRY_INTERVAL_SECONDS', 60),
+    handler: () => holdStopWorkflowManager.checkExpiredWorkflows()
+  });
+
+  jobScheduler.register({
+    name: DRIFT_CHECK_JOB,
+    description: 'Check price band, model performance and data quality drift',
+    intervalSeconds: intervalFromEnv('DRIFT_CHECK_INTERVAL_SECONDS', 6 * 60 * 60),
+    leaseSeconds: 30 * 60,
+    handler: () => driftMonitor.runDriftCheck()
+  });
+
+  jobScheduler.register({
+    name: IDEMPOTENCY_CLEANUP_JOB,
+    description: 'Delete expired idempotency cache entries',
+    intervalSeconds: intervalFromEnv('IDEMPOTENCY_CLEANUP_INTERVAL_SECONDS', 60 * 60),
+    handler: async () => {
+      await cleanupExpiredIdempotencyKeys();
+    }
+  });
+}
@@ -0,0 +1,326 @@
+import { hostname } from 'os';
+import { db } from '@/lib/db';
+
+// Built-in jobs, registered in jobs.ts
+export const WORKFLOW_EXPIRY_JOB = 'workflow-expiry';
+export const DRIFT_CHECK_JOB = 'drift-check';
+export const IDEMPOTENCY_CLEANUP_JOB = 'idempotency-cleanup';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalSeconds: number;
+  maxAttempts?: number;
+  leaseSeconds?: number; // how long a run may take before another instance can take the job over
+  handler: () => Promise<void>;
+}
+
+export interface JobStatus {
+  name: string;
+  description?: string | null;
+  enabled: boolean;
+  interval_seconds: number;
+  next_run_at: string;
+  running: boolean;
+  lease_owner?: string | null;
+  lease_expires_at?: string | null;
+  attempts: number;
+  max_attempts: number;
+  last_started_at?: string | null;
+  last_finished_at?: string | null;
+  last_status?: string | null;
+  last_error?: string | null;
+  last_duration_ms?: number | null;
+  run_count: number;
+  failure_count: number;
+  registered: boolean; // whether this instance has a handler for the job
+}
+
+export class JobNotFoundError extends Error {
+  constructor(public jobName: string) {
+    super(`Job ${jobName} not found`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+class JobScheduler {
+  private definitions = new Map<string, JobDefinition>();
+  private instanceId = `${hostname()}_${process.pid}_${Math.random().toString(36).substr(2, 6)}`;
+  private pollIntervalMs = Number(process.env.JOB_POLL_INTERVAL_MS) || 15 * 1000;
+  private defaultLeaseSeconds = 5 * 60;
+  private retryBaseSeconds = 30;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  register(definition: JobDefinition): void {
+    this.definitions.set(definition.name, definition);
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.syncDefinitions();
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Job scheduler tick failed:', error));
+    }, this.pollIntervalMs);
+
+    console.log(`Job scheduler started on ${this.instanceId} with ${this.definitions.size} jobs`);
+  }
+
+  /**
+   * Make sure every registered job has a row. Intervals changed through the admin
+   * API are kept; definitions only seed new rows.
+   */
+  async syncDefinitions(): Promise<void> {
+    for (const definition of this.definitions.values()) {
+      await db.scheduledJob.upsert({
+        where: { name: definition.name },
+        create: {
+          name: definition.name,
+          description: definition.description,
+          interval_seconds: definition.intervalSeconds,
+          max_attempts: definition.maxAttempts || 3,
+          next_run_at: new Date()
+        },
+        update: {
+          description: definition.description
+        }
+      });
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every registered job that is due and not leased by another instance.
+   */
+  async tick(): Promise<string[]> {
+    if (this.ticking) return [];
+    this.ticking = true;
+
+    try {
+      const due = await db.scheduledJob.findMany({
+        where: {
+          enabled: true,
+          next_run_at: { lte: new Date() },
+          name: { in: Array.from(this.definitions.keys()) }
+        },
+        orderBy: { next_run_at: 'asc' }
+      });
+
+      const ran: string[] = [];
+      for (const job of due) {
+        if (await this.runJob(job.name)) {
+          ran.push(job.name);
+        }
+      }
+      return ran;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Claim the job lease and run it. Returns false if the job is not due or another
+   * instance holds the lease.
+   */
+  async runJob(name: string, options: { force?: boolean } = {}): Promise<boolean> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new JobNotFoundError(name);
+    }
+
+    const now = new Date();
+    const leaseSeconds = definition.leaseSeconds || this.defaultLeaseSeconds;
+
+    // Single conditional update so only one instance can take the lease
+    const claimed = await db.scheduledJob.updateMany({
+      where: {
+        name,
+        ...(options.force ? {} : { enabled: true, next_run_at: { lte: now } }),
+        OR: [
+          { lease_expires_at: null },
+          { lease_expires_at: { lt: now } }
+        ]
+      },
+      data: {
+        lease_owner: this.instanceId,
+        lease_expires_at: new Date(now.getTime() + leaseSeconds * 1000),
+        last_started_at: now,
+        attempts: { increment: 1 }
+      }
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const startedAt = Date.now();
+    try {
+      await definition.handler();
+      await this.completeJob(name, startedAt);
+    } catch (error) {
+      await this.failJob(name, startedAt, error);
+    }
+
+    return true;
+  }
+
+  /**
+   * Bring a job's next run forward, e.g. when a workflow expires before the next poll.
+   * Later times are ignored so the regular interval is never pushed back. While the job
+   * runs, next_run_at still holds the due time it was claimed at, so the first call during
+   * the run always records its time; finishing the run keeps it if it is the earlier one.
+   */
+  async runAt(name: string, runAt: Date): Promise<void> {
+    await db.scheduledJob.updateMany({
+      where: {
+        name,
+        OR: [
+          { next_run_at: { gt: runAt } },
+          { lease_expires_at: { gt: new Date() }, next_run_at: { lte: db.scheduledJob.fields.last_started_at } }
+        ]
+      },
+      data: { next_run_at: runAt }
+    });
+  }
+
+  async updateJob(
+    name: string,
+    changes: { enabled?: boolean; intervalSeconds?: number; maxAttempts?: number },
+    updatedBy: string
+  ): Promise<JobStatus> {
+    const existing = await db.scheduledJob.findUnique({ where: { name } });
+    if (!existing) {
+      throw new JobNotFoundError(name);
+    }
+
+    const record = await db.scheduledJob.update({
+      where: { name },
+      data: {
+        ...(changes.enabled !== undefined ? { enabled: changes.enabled } : {}),
+        ...(changes.intervalSeconds !== undefined ? { interval_seconds: changes.intervalSeconds } : {}),
+        ...(changes.maxAttempts !== undefined ? { max_attempts: changes.maxAttempts } : {})
+      }
+    });
+
+    await db.audit.create({
+      data: {
+        event_id: `job_updated_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        actor: updatedBy,
+        action: 'SCHEDULED_JOB_UPDATED',
+        payload_hash: JSON.stringify({ job: name, ...changes })
+      }
+    });
+
+    return this.toStatus(record);
+  }
+
+  async getJobStatuses(): Promise<JobStatus[]> {
+    const records = await db.scheduledJob.findMany({
+      orderBy: { name: 'asc' }
+    });
+
+    return records.map(record => this.toStatus(record));
+  }
+
+  // The run's own next time, unless runAt brought it further forward while the job was running
+  private nextRunAt(job: { next_run_at: Date; last_started_at: Date | null }, delaySeconds: number): Date {
+    const computed = new Date(Date.now() + delaySeconds * 1000);
+    const broughtForward = !!job.last_started_at && job.next_run_at > job.last_started_at;
+    return broughtForward && job.next_run_at < computed ? job.next_run_at : computed;
+  }
+
+  private async completeJob(name: string, startedAt: number): Promise<void> {
+    const job = await db.scheduledJob.findUnique({ where: { name } });
+    if (!job) return;
+
+    await db.scheduledJob.updateMany({
+      where: { name, lease_owner: this.instanceId },
+      data: {
+        lease_owner: null,
+        lease_expires_at: null,
+        attempts: 0,
+        next_run_at: this.nextRunAt(job, job.interval_seconds),
+        last_finished_at: new Date(),
+        last_status: 'SUCCEEDED',
+        last_error: null,
+        last_duration_ms: Date.now() - startedAt,
+        run_count: { increment: 1 }
+      }
+    });
+  }
+
+  // Retry with exponential backoff until max_attempts, then wait for the next interval
+  private async failJob(name: string, startedAt: number, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${name} failed:`, error);
+
+    const job = await db.scheduledJob.findUnique({ where: { name } });
+    if (!job) return;
+
+    const exhausted = job.attempts >= job.max_attempts;
+    const delaySeconds = exhausted
+      ? job.interval_seconds
+      : Math.min(this.retryBaseSeconds * Math.pow(2, job.attempts - 1), job.interval_seconds);
+
+    await db.scheduledJob.updateMany({
+      where: { name, lease_owner: this.instanceId },
+      data: {
+        lease_owner: null,
+        lease_expires_at: null,
+        attempts: exhausted ? 0 : job.attempts,
+        next_run_at: this.nextRunAt(job, delaySeconds),
+        last_finished_at: new Date(),
+        last_status: 'FAILED',
+        last_error: message.substring(0, 1000),
+        last_duration_ms: Date.now() - startedAt,
+        run_count: { increment: 1 },
+        failure_count: { increment: 1 }
+      }
+    });
+
+    if (exhausted) {
+      await db.audit.create({
+        data: {
+          event_id: `job_failed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          actor: 'system',
+          action: 'SCHEDULED_JOB_FAILED',
+          payload_hash: JSON.stringify({ job: name, attempts: job.attempts, error: message })
+        }
+      });
+    }
+  }
+
+  private toStatus(record: any): JobStatus {
+    const now = new Date();
+    return {
+      name: record.name,
+      description: record.description,
+      enabled: record.enabled,
+      interval_seconds: record.interval_seconds,
+      next_run_at: record.next_run_at.toISOString(),
+      running: !!record.lease_expires_at && record.lease_expires_at > now,
+      lease_owner: record.lease_owner,
+      lease_expires_at: record.lease_expires_at?.toISOString() || null,
+      attempts: record.attempts,
+      max_attempts: record.max_attempts,
+      last_started_at: record.last_started_at?.toISOString() || null,
+      last_finished_at: record.last_finished_at?.toISOString() || null,
+      last_status: record.last_status,
+      last_error: record.last_error,
+      last_duration_ms: record.last_duration_ms,
+      run_count: record.run_count,
+      failure_count: record.failure_count,
+      registered: this.definitions.has(record.name)
+    };
+  }
+}
+
+export const jobScheduler = new JobScheduler();
@@ -1,29 +1,162 @@
-import { Server } from 'socket.io';
+import { Namespace, Server, Socket } from 'socket.io';
+import { verifyToken, getUserPermissions, JWTPayload } from '@/lib/auth/jwt';
+
+export const CONSOLE_NAMESPACE = '/console';
+
+export type ConsoleEventType =
+  | 'action.created'
+  | 'workflow.updated'
+  | 'workflow.sla_warning'
+  | 'case.assigned'
+  | 'drift.alert';
+
+// Who an event is relevant to; it reaches every socket subscribed to any of these
+export interface ConsoleEventTarget {
+  port?: string | null;
+  roles?: string[];
+  assignees?: (string | null | undefined)[];
+}
+
+export interface ConsoleSubscription {
+  ports?: string[];
+  roles?: string[];
+  assignees?: string[];
+}
+
+export interface ConsoleEvent<T = any> {
+  type: ConsoleEventType;
+  port?: string | null;
+  data: T;
+  timestamp: string;
+}
+
+// Roles that work the live HOLD/STOP queue
+export const OPERATIONS_ROLES = ['ADMIN', 'VALUATION', 'ENFORCEMENT'];
+
+// API routes and the custom server are bundled separately, so the server instance lives on globalThis
+const globalForSocket = globalThis as unknown as {
+  consoleNamespace: Namespace | undefined
+};
+
+const portRoom = (port: string) => `port:${port.toUpperCase()}`;
+const roleRoom = (role: string) => `role:${role.toUpperCase()}`;
+const assigneeRoom = (email: string) => `assignee:${email.toLowerCase()}`;
+
+class ConsoleEventPublisher {
+  /**
+   * Push an event to the officer console. Publishing is fire-and-forget: when no
+   * socket server is running (scripts, tests, API-only deployments) it does nothing.
+   */
+  publish<T>(type: ConsoleEventType, data: T, target: ConsoleEventTarget): void {
+    const namespace = globalForSocket.consoleNamespace;
+    if (!namespace) return;
+
+    const rooms = [
+      ...(target.port ? [portRoom(target.port)] : []),
+      ...(target.roles || []).map(roleRoom),
+      ...(target.assignees || [])
+        .filter((email): email is string => !!email && email !== 'system')
+        .map(assigneeRoom)
+    ];
+    if (rooms.length === 0) return;
+
+    const event: ConsoleEvent<T> = {
+      type,
+      port: target.port,
+      data,
+      timestamp: new Date().toISOString()
+    };
+
+    // A single emit to several rooms reaches each socket once
+    namespace.to(rooms).emit(type, event);
+  }
+}
+
+export const consoleEvents = new ConsoleEventPublisher();
+
+/**
+ * Officers may follow any port, their own role and their own assignments.
+ * Administrators may follow any role or assignee.
+ */
+function authoriseSubscription(user: JWTPayload, subscription: ConsoleSubscription) {
+  const permissions = getUserPermissions(user.role);
+  const isAdmin = user.role === 'ADMIN';
+  const rooms: string[] = [];
+  const rejected: string[] = [];
+
+  for (const port of subscription.ports || []) {
+    if (permissions.canReadDeclarations) {
+      rooms.push(portRoom(port));
+    } else {
+      rejected.push(`port:${port}`);
+    }
+  }
+
+  for (const role of subscription.roles || []) {
+    if (isAdmin || role.toUpperCase() === user.role.toUpperCase()) {
+      rooms.push(roleRoom(role));
+    } else {
+      rejected.push(`role:${role}`);
+    }
+  }
+
+  for (const email of subscription.assignees || []) {
+    if (isAdmin || email.toLowerCase() === user.email.toLowerCase()) {
+      rooms.push(assigneeRoom(email));
+    } else {
+      rejected.push(`assignee:${email}`);
+    }
+  }
+
+  return { rooms, rejected };
+}
+
+function authenticate(socket: Socket, next: (error?: Error) => void) {
+  const header = socket.handshake.headers.authorization;
+  const token = socket.handshake.auth?.token
+    || (header?.startsWith('Bearer ') ? header.substring(7) : undefined);
+
+  const user = token ? verifyToken(token) : null;
+  if (!user) {
+    return next(new Error('Unauthorized'));
+  }
+
+  socket.data.user = user;
+  next();
+}
 
 export const setupSocket = (io: Server) => {
-  io.on('connection', (socket) => {
-    console.log('Client connected:', socket.id);
-    
-    // Handle messages
-    socket.on('message', (msg: { text: string; senderId: string }) => {
-      // Echo: broadcast message only the client who send the message
-      socket.emit('message', {
-        text: `Echo: ${msg.text}`,
-        senderId: 'system',
-        timestamp: new Date().toISOString(),
-      });
+  const namespace = io.of(CONSOLE_NAMESPACE);
+  namespace.use(authenticate);
+
+  namespace.on('connection', (socket) => {
+    const user = socket.data.user as JWTPayload;
+
+    // Everyone follows their own role and assignments by default
+    socket.join([roleRoom(user.role), assigneeRoom(user.email)]);
+
+    socket.on('subscribe', (subscription: ConsoleSubscription, ack?: (result: any) => void) => {
+      const { rooms, rejected } = authoriseSubscription(user, subscription || {});
+      socket.join(rooms);
+      ack?.({ subscribed: rooms, rejected });
     });
 
-    // Handle disconnect
-    socket.on('disconnect', () => {
-      console.log('Client disconnected:', socket.id);
+    socket.on('unsubscribe', (subscription: ConsoleSubscription, ack?: (result: any) => void) => {
+      const rooms = [
+        ...(subscription?.ports || []).map(portRoom),
+        ...(subscription?.roles || []).map(roleRoom),
+        ...(subscription?.assignees || []).map(assigneeRoom)
+      ];
+      rooms.forEach(room => socket.leave(room));
+      ack?.({ unsubscribed: rooms });
     });
 
-    // Send welcome message
-    socket.emit('message', {
-      text: 'Welcome to WebSocket Echo Server!',
-      senderId: 'system',
-      timestamp: new Date().toISOString(),
+    socket.emit('ready', {
+      user: { email: user.email, role: user.role },
+      rooms: Array.from(socket.rooms).filter(room => room !== socket.id),
+      timestamp: new Date().toISOString()
     });
   });
-};
\ No newline at end of file
+
+  globalForSocket.consoleNamespace = namespace;
+};
@@ -0,0 +1,251 @@
+import { db } from '@/lib/db';
+import { parseCsvRows } from '@/lib/csv';
+import { hsNomenclature, getHsLevel, normaliseHsCode, HsLevel, RateField, HS_PARENT_COLUMN } from '@/lib/tariff/nomenclature';
+
+export interface NomenclatureLoadOptions {
+  effectiveFrom?: string; // default for rows without an effective_from column value
+  dryRun?: boolean;
+  loadedBy: string;
+}
+
+export interface NomenclatureRowError {
+  row: number; // 1-based data row
+  code?: string;
+  field?: string;
+  message: string;
+}
+
+export interface NomenclatureLoadResult {
+  rows: number;
+  chapters: number;
+  headings: number;
+  subheadings: number;
+  tariff_lines: number;
+  superseded: number; // open rows closed by a newer version
+  errors: NomenclatureRowError[];
+  dry_run: boolean;
+}
+
+interface NomenclatureRow {
+  row: number;
+  level: HsLevel;
+  code: string;
+  parent_code: string | null;
+  description: string;
+  unit: string | null;
+  duty_rate: number | null;
+  levy_rate: number | null;
+  vat_rate: number | null;
+  effective_from: Date;
+  effective_to: Date | null;
+}
+
+const REQUIRED_COLUMNS = ['code', 'description'];
+const RATE_COLUMNS: RateField[] = ['duty_rate', 'levy_rate', 'vat_rate'];
+const LOAD_ORDER: HsLevel[] = ['CHAPTER', 'HEADING', 'SUBHEADING', 'TARIFF_LINE'];
+const PARENT_DIGITS: Record<HsLevel, number> = { CHAPTER: 0, HEADING: 2, SUBHEADING: 4, TARIFF_LINE: 6 };
+
+class HsNomenclatureLoader {
+  /**
+   * Load a tariff book CSV with columns code, description, duty_rate, levy_rate,
+   * vat_rate, unit, effective_from and effective_to. The level follows from the number
+   * of digits in the code (2, 4, 6 or 10; dots are ignored). Rates are percentages and
+   * may be left empty to inherit from the parent. The load is all-or-nothing: any row
+   * error means nothing is written.
+   */
+  async loadCsv(content: string, options: NomenclatureLoadOptions): Promise<NomenclatureLoadResult> {
+    const { rows, errors, total } = this.parse(content, options.effectiveFrom);
+    errors.push(...(await this.checkParents(rows)));
+
+    const count = (level: HsLevel) => rows.filter(row => row.level === level).length;
+    const result: NomenclatureLoadResult = {
+      rows: total,
+      chapters: count('CHAPTER'),
+      headings: count('HEADING'),
+      subheadings: count('SUBHEADING'),
+      tariff_lines: count('TARIFF_LINE'),
+      superseded: 0,
+      errors,
+      dry_run: !!options.dryRun
+    };
+
+    if (errors.length > 0 || options.dryRun || rows.length === 0) {
+      return result;
+    }
+
+    const operations: any[] = [];
+    for (const level of LOAD_ORDER) {
+      for (const row of rows.filter(candidate => candidate.level === level)) {
+        operations.push(...this.writeOperations(row));
+      }
+    }
+
+    const outcomes = await db.$transaction(operations);
+    // Every row contributes an updateMany (closing the previous version) followed by an upsert
+    result.superseded = outcomes
+      .filter((_outcome: any, index: number) => index % 2 === 0)
+      .reduce((total: number, outcome: any) => total + outcome.count, 0);
+
+    hsNomenclature.invalidate();
+
+    await db.audit.create({
+      data: {
+        event_id: `hs_load_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        actor: options.loadedBy,
+        action: 'HS_NOMENCLATURE_LOADED',
+        payload_hash: JSON.stringify({
+          chapters: result.chapters,
+          headings: result.headings,
+          subheadings: result.subheadings,
+          tariff_lines: result.tariff_lines,
+          superseded: result.superseded
+        })
+      }
+    });
+
+    return result;
+  }
+
+  private parse(content: string, defaultEffectiveFrom?: string): { rows: NomenclatureRow[]; errors: NomenclatureRowError[]; total: number } {
+    const [header, ...dataRows] = parseCsvRows(content).filter(row => row.some(cell => cell.trim() !== ''));
+    const errors: NomenclatureRowError[] = [];
+    const rows: NomenclatureRow[] = [];
+
+    const columns = (header || []).map(column => column.trim().toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      errors.push({ row: 0, message: `Missing required columns: ${missing.join(', ')}` });
+      return { rows, errors, total: dataRows.length };
+    }
+
+    const seen = new Set<string>();
+
+    dataRows.forEach((cells, index) => {
+      const rowNo = index + 1;
+      const row: Record<string, string> = {};
+      columns.forEach((column, position) => {
+        row[column] = (cells[position] || '').trim();
+      });
+
+      const rowErrors: NomenclatureRowError[] = [];
+      const fail = (message: string, field?: string) => rowErrors.push({ row: rowNo, code: row.code, field, message });
+
+      const code = normaliseHsCode(row.code || '');
+      const level = getHsLevel(code);
+      if (!level) fail(`HS code "${row.code}" must have 2, 4, 6 or 10 digits`, 'code');
+      if (!row.description) fail('Description is required', 'description');
+
+      const rates: Partial<Record<RateField, number | null>> = {};
+      for (const field of RATE_COLUMNS) {
+        if (!row[field]) {
+          rates[field] = null;
+          continue;
+        }
+        const value = Number(row[field].replace('%', ''));
+        if (isNaN(value) || value < 0 || value > 100) {
+          fail(`${field} must be a percentage between 0 and 100`, field);
+        } else {
+          rates[field] = value;
+        }
+      }
+
+      const effectiveFromText = row.effective_from || defaultEffectiveFrom;
+      const effectiveFrom = effectiveFromText ? new Date(effectiveFromText) : null;
+      if (!effectiveFrom || isNaN(effectiveFrom.getTime())) {
+        fail(effectiveFromText ? `Invalid effective_from "${effectiveFromText}"` : 'effective_from is required', 'effective_from');
+      }
+
+      const effectiveTo = row.effective_to ? new Date(row.effective_to) : null;
+      if (effectiveTo && isNaN(effectiveTo.getTime())) {
+        fail(`Invalid effective_to "${row.effective_to}"`, 'effective_to');
+      } else if (effectiveTo && effectiveFrom && effectiveTo <= effectiveFrom) {
+        fail('effective_to must be after effective_from', 'effective_to');
+      }
+
+      const key = `${code}|${effectiveFrom?.getTime()}`;
+      if (seen.has(key)) fail(`Duplicate row for ${code} effective ${effectiveFromText}`, 'code');
+      seen.add(key);
+
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors);
+        return;
+      }
+
+      rows.push({
+        row: rowNo,
+        level: level!,
+        code,
+        parent_code: PARENT_DIGITS[level!] ? code.substring(0, PARENT_DIGITS[level!]) : null,
+        description: row.description,
+        unit: row.unit || null,
+        duty_rate: rates.duty_rate ?? null,
+        levy_rate: rates.levy_rate ?? null,
+        vat_rate: rates.vat_rate ?? null,
+        effective_from: effectiveFrom!,
+        effective_to: effectiveTo
+      });
+    });
+
+    return { rows, errors, total: dataRows.length };
+  }
+
+  // Every parent must be in the same file or already loaded
+  private async checkParents(rows: NomenclatureRow[]): Promise<NomenclatureRowError[]> {
+    const inFile = new Set(rows.map(row => row.code));
+    const wanted = Array.from(new Set(
+      rows.map(row => row.parent_code).filter((code): code is string => !!code && !inFile.has(code))
+    ));
+    if (wanted.length === 0) return [];
+
+    const found = new Set<string>();
+    const lookups = await Promise.all([
+      db.hsChapter.findMany({ where: { code: { in: wanted } }, select: { code: true } }),
+      db.hsHeading.findMany({ where: { code: { in: wanted } }, select: { code: true } }),
+      db.hsSubheading.findMany({ where: { code: { in: wanted } }, select: { code: true } })
+    ]);
+    lookups.flat().forEach(row => found.add(row.code));
+
+    return rows
+      .filter(row => row.parent_code && !inFile.has(row.parent_code) && !found.has(row.parent_code))
+      .map(row => ({
+        row: row.row,
+        code: row.code,
+        field: 'code',
+        message: `Parent ${row.parent_code} is neither in the file nor already loaded`
+      }));
+  }
+
+  private writeOperations(row: NomenclatureRow): any[] {
+    const table: any = {
+      CHAPTER: db.hsChapter,
+      HEADING: db.hsHeading,
+      SUBHEADING: db.hsSubheading,
+      TARIFF_LINE: db.hsTariffLine
+    }[row.level];
+    const parentColumn = HS_PARENT_COLUMN[row.level];
+
+    const data = {
+      description: row.description,
+      duty_rate: row.duty_rate,
+      levy_rate: row.levy_rate,
+      vat_rate: row.vat_rate,
+      effective_to: row.effective_to,
+      ...(parentColumn ? { [parentColumn]: row.parent_code } : {}),
+      ...(row.level === 'TARIFF_LINE' ? { unit: row.unit } : {})
+    };
+
+    return [
+      table.updateMany({
+        where: { code: row.code, effective_to: null, effective_from: { lt: row.effective_from } },
+        data: { effective_to: row.effective_from }
+      }),
+      table.upsert({
+        where: { code_effective_from: { code: row.code, effective_from: row.effective_from } },
+        create: { code: row.code, effective_from: row.effective_from, ...data },
+        update: data
+      })
+    ];
+  }
+}
+
+export const hsNomenclatureLoader = new HsNomenclatureLoader();
@@ -0,0 +1,278 @@
+import { db } from '@/lib/db';
+
+export type HsLevel = 'CHAPTER' | 'HEADING' | 'SUBHEADING' | 'TARIFF_LINE';
+
+export type RateField = 'duty_rate' | 'levy_rate' | 'vat_rate';
+
+export interface HsEntry {
+  level: HsLevel;
+  code: string;
+  parent_code: string | null;
+  description: string;
+  unit?: string | null;
+  duty_rate: number | null;
+  levy_rate: number | null;
+  vat_rate: number | null;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+// Percentages, each resolved from the most specific level that defines it
+export interface TariffRates {
+  duty_rate: number;
+  levy_rate: number;
+  vat_rate: number;
+  defined_at: Record<RateField, HsLevel>;
+}
+
+export interface HsLookup {
+  entry: HsEntry;
+  hierarchy: HsEntry[]; // chapter first, ending with the entry itself
+  rates: TariffRates | null; // null when some rate is not defined at any level
+}
+
+export const HS_LEVEL_DIGITS: Record<HsLevel, number> = {
+  CHAPTER: 2,
+  HEADING: 4,
+  SUBHEADING: 6,
+  TARIFF_LINE: 10
+};
+
+const LEVELS: HsLevel[] = ['CHAPTER', 'HEADING', 'SUBHEADING', 'TARIFF_LINE'];
+const RATE_FIELDS: RateField[] = ['duty_rate', 'levy_rate', 'vat_rate'];
+
+// Column holding the parent code on each level's table
+export const HS_PARENT_COLUMN: Record<HsLevel, string | null> = {
+  CHAPTER: null,
+  HEADING: 'chapter_code',
+  SUBHEADING: 'heading_code',
+  TARIFF_LINE: 'subheading_code'
+};
+
+export function normaliseHsCode(code: string): string {
+  return code.replace(/\D/g, '');
+}
+
+export function getHsLevel(code: string): HsLevel | null {
+  return LEVELS.find(level => HS_LEVEL_DIGITS[level] === code.length) || null;
+}
+
+class HsNomenclatureService {
+  private loadedCheckedAt = 0;
+  private loaded = false;
+  private loadedCacheMs = 5 * 60 * 1000;
+
+  /**
+   * Whether any nomenclature has been loaded. Code validation is skipped until it
+   * has, so a fresh installation still accepts declarations.
+   */
+  async isLoaded(): Promise<boolean> {
+    if (this.loaded && Date.now() - this.loadedCheckedAt < this.loadedCacheMs) {
+      return true;
+    }
+
+    this.loaded = !!(await db.hsSubheading.findFirst({ select: { id: true } }));
+    this.loadedCheckedAt = Date.now();
+    return this.loaded;
+  }
+
+  // Called by the loader so new nomenclature is picked up without waiting for the cache
+  invalidate(): void {
+    this.loaded = false;
+    this.loadedCheckedAt = 0;
+  }
+
+  async getEntry(code: string, asOf: Date = new Date()): Promise<HsEntry | null> {
+    const normalised = normaliseHsCode(code);
+    const level = getHsLevel(normalised);
+    if (!level) return null;
+
+    const row = await this.table(level).findFirst({
+      where: { code: normalised, ...this.effectiveAt(asOf) },
+      orderBy: { effective_from: 'desc' }
+    });
+
+    return row ? this.toEntry(level, row) : null;
+  }
+
+  async lookup(code: string, asOf: Date = new Date()): Promise<HsLookup | null> {
+    const entry = await this.getEntry(code, asOf);
+    if (!entry) return null;
+
+    const hierarchy: HsEntry[] = [entry];
+    for (let current = entry; current.parent_code; ) {
+      const parent = await this.getEntry(current.parent_code, asOf);
+      if (!parent) break;
+      hierarchy.unshift(parent);
+      current = parent;
+    }
+
+    return {
+      entry,
+      hierarchy,
+      rates: await this.resolveRates(hierarchy, asOf)
+    };
+  }
+
+  // Entries one level below the code; without a code, the chapters
+  async getChildren(code: string | null, asOf: Date = new Date()): Promise<HsEntry[]> {
+    const parentCode = code ? normaliseHsCode(code) : null;
+    const parentLevel = parentCode ? getHsLevel(parentCode) : null;
+    if (parentCode && (!parentLevel || parentLevel === 'TARIFF_LINE')) return [];
+
+    const level = parentLevel ? LEVELS[LEVELS.indexOf(parentLevel) + 1] : 'CHAPTER';
+    const parentColumn = HS_PARENT_COLUMN[level];
+
+    const rows = await this.table(level).findMany({
+      where: {
+        ...(parentColumn && parentCode ? { [parentColumn]: parentCode } : {}),
+        ...this.effectiveAt(asOf)
+      },
+      orderBy: { code: 'asc' }
+    });
+
+    return rows.map((row: any) => this.toEntry(level, row));
+  }
+
+  // Digits search by code prefix, anything else by description
+  async search(query: string, options: { level?: HsLevel; limit?: number; asOf?: Date } = {}): Promise<HsEntry[]> {
+    const asOf = options.asOf || new Date();
+    const limit = Math.min(options.limit || 50, 200);
+    const digits = /^[\d.\s]+$/.test(query) ? normaliseHsCode(query) : null;
+    const levels = options.level ? [options.level] : LEVELS;
+
+    const results: HsEntry[] = [];
+    for (const level of levels) {
+      if (results.length >= limit) break;
+
+      const rows = await this.table(level).findMany({
+        where: {
+          ...(digits
+            ? { code: { startsWith: digits } }
+            : { description: { contains: query, mode: 'insensitive' } }),
+          ...this.effectiveAt(asOf)
+        },
+        orderBy: { code: 'asc' },
+        take: limit - results.length
+      });
+      results.push(...rows.map((row: any) => this.toEntry(level, row)));
+    }
+
+    return results;
+  }
+
+  async getRates(code: string, asOf: Date = new Date()): Promise<TariffRates | null> {
+    return (await this.lookup(code, asOf))?.rates || null;
+  }
+
+  /**
+   * Check declared HS codes against the nomenclature in force on the given date.
+   * Returns messages in the same form as validateBusinessRules.
+   */
+  async validateDeclaredCodes(
+    items: { line_no?: number; declared_hs: string }[],
+    asOf: Date = new Date()
+  ): Promise<string[]> {
+    if (!(await this.isLoaded())) return [];
+
+    const codes = Array.from(new Set(items.map(item => normaliseHsCode(item.declared_hs))));
+    const known = new Set<string>();
+
+    for (const level of ['SUBHEADING', 'TARIFF_LINE'] as HsLevel[]) {
+      const levelCodes = codes.filter(code => getHsLevel(code) === level);
+      if (levelCodes.length === 0) continue;
+
+      const rows = await this.table(level).findMany({
+        where: { code: { in: levelCodes }, ...this.effectiveAt(asOf) },
+        select: { code: true }
+      });
+      rows.forEach((row: { code: string }) => known.add(row.code));
+    }
+
+    const errors: string[] = [];
+    items.forEach((item, index) => {
+      const code = normaliseHsCode(item.declared_hs);
+      if (!known.has(code)) {
+        errors.push(`Item ${item.line_no || index + 1}: HS code ${item.declared_hs} is not in the tariff nomenclature in force on ${asOf.toISOString().substring(0, 10)}`);
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Each rate comes from the most specific level that sets it. A subheading whose
+   * rates are only set on its national lines takes the highest line rate, since the
+   * declaration does not say which line applies.
+   */
+  private async resolveRates(hierarchy: HsEntry[], asOf: Date): Promise<TariffRates | null> {
+    const resolved: Partial<Record<RateField, number>> = {};
+    const definedAt: Partial<Record<RateField, HsLevel>> = {};
+
+    for (const field of RATE_FIELDS) {
+      for (let i = hierarchy.length - 1; i >= 0; i--) {
+        const value = hierarchy[i][field];
+        if (value !== null && value !== undefined) {
+          resolved[field] = value;
+          definedAt[field] = hierarchy[i].level;
+          break;
+        }
+      }
+    }
+
+    const entry = hierarchy[hierarchy.length - 1];
+    const missing = RATE_FIELDS.filter(field => resolved[field] === undefined);
+    if (missing.length > 0 && entry.level === 'SUBHEADING') {
+      const lines = await this.getChildren(entry.code, asOf);
+      for (const field of missing) {
+        const values = lines.map(line => line[field]).filter((value): value is number => value !== null);
+        if (values.length > 0) {
+          resolved[field] = Math.max(...values);
+          definedAt[field] = 'TARIFF_LINE';
+        }
+      }
+    }
+
+    if (RATE_FIELDS.some(field => resolved[field] === undefined)) return null;
+
+    return {
+      duty_rate: resolved.duty_rate!,
+      levy_rate: resolved.levy_rate!,
+      vat_rate: resolved.vat_rate!,
+      defined_at: definedAt as Record<RateField, HsLevel>
+    };
+  }
+
+  private effectiveAt(asOf: Date) {
+    return {
+      effective_from: { lte: asOf },
+      OR: [{ effective_to: null }, { effective_to: { gt: asOf } }]
+    };
+  }
+
+  private table(level: HsLevel): any {
+    switch (level) {
+      case 'CHAPTER': return db.hsChapter;
+      case 'HEADING': return db.hsHeading;
+      case 'SUBHEADING': return db.hsSubheading;
+      case 'TARIFF_LINE': return db.hsTariffLine;
+    }
+  }
+
+  private toEntry(level: HsLevel, row: any): HsEntry {
+    const parentColumn = HS_PARENT_COLUMN[level];
+    return {
+      level,
+      code: row.code,
+      parent_code: parentColumn ? row[parentColumn] : null,
+      description: row.description,
+      ...(level === 'TARIFF_LINE' ? { unit: row.unit } : {}),
+      duty_rate: row.duty_rate,
+      levy_rate: row.levy_rate,
+      vat_rate: row.vat_rate,
+      effective_from: row.effective_from.toISOString(),
+      effective_to: row.effective_to ? row.effective_to.toISOString() : null
+    };
+  }
+}
+
+export const hsNomenclature = new HsNomenclatureService();
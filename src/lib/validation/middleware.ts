@@ -4,11 +4,26 @@ import { logger } from '@/lib/observability';
 
 export function withValidation<T>(
   schema: any, 
-  handler: (req: NextRequest, validatedData: T) => Promise<NextResponse>
+  handler: (req: NextRequest, validatedData: T) => Promise<NextResponse>,
+  options: {
+    // Runs before schema validation, e.g. to derive fields; returning an error rejects the request with 422
+    preprocess?: (body: any) => Promise<{ data: any } | { error: string }>;
+  } = {}
 ) {
   return async (req: NextRequest) => {
     try {
-      const body = await req.json();
+      let body = await req.json();
+
+      if (options.preprocess) {
+        const preprocessed = await options.preprocess(body);
+        if ('error' in preprocessed) {
+          return NextResponse.json(
+            { error: preprocessed.error },
+            { status: 422 }
+          );
+        }
+        body = preprocessed.data;
+      }
       
       // Validate schema
       const validationResult = validateData(schema, body);
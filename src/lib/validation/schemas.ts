@@ -1,9 +1,10 @@
 import { z } from 'zod';
+import type { PolicyConditionNode } from '@/lib/policy/engine';
 
-// HS Code validation (6-digit format)
+// HS Code validation (6-digit subheading, or 10-digit national tariff line)
 const hsCodeSchema = z.string()
-  .length(6, 'HS code must be exactly 6 digits')
-  .regex(/^\d{6}$/, 'HS code must contain only digits');
+  .regex(/^\d+$/, 'HS code must contain only digits')
+  .refine(code => code.length === 6 || code.length === 10, 'HS code must be 6 digits, or 10 for a national tariff line');
 
 // Country code validation (ISO 3166-1 alpha-2)
 const countryCodeSchema = z.string()
@@ -30,6 +31,10 @@ const valueSchema = z.number()
   .positive('Value must be positive')
   .max(100000000, 'Value seems unreasonably large (USD)');
 
+// Currency validation (ISO 4217)
+const currencyCodeSchema = z.string()
+  .regex(/^[A-Z]{3}$/i, 'Currency must be a 3-letter ISO code');
+
 // Date validation
 const dateSchema = z.string()
   .refine((date) => !isNaN(Date.parse(date)), 'Invalid date format')
@@ -91,6 +96,8 @@ export const declarationSchema = z.object({
     gross_weight_kg: weightSchema.optional(),
     net_weight_kg: weightSchema.optional(),
     invoice_value_usd: valueSchema,
+    invoice_currency: currencyCodeSchema.optional(),
+    invoice_value: z.number().positive('Invoice value must be positive').optional(),
     incoterm: incotermSchema.optional(),
     country_origin: countryCodeSchema.optional(),
     brand: z.string().max(50).optional(),
@@ -103,6 +110,14 @@ export const declarationSchema = z.object({
   })).min(1, 'At least one item is required')
 });
 
+// Declaration amendment: any header field or a full replacement item list, plus a reason
+export const declarationAmendmentSchema = declarationSchema
+  .omit({ declaration_id: true, status: true })
+  .partial()
+  .extend({
+    reason: z.string().min(1, 'An amendment reason is required').max(500)
+  });
+
 // Risk scoring validation schema
 export const riskScoreSchema = z.object({
   declaration_id: z.string().min(1, 'Declaration ID is required'),
@@ -122,10 +137,11 @@ export const riskScoreSchema = z.object({
 export const paymentSchema = z.object({
   declaration_id: z.string().min(1, 'Declaration ID is required'),
   bank_ref: z.string().min(1, 'Bank reference is required').max(100),
-  assessed: z.number().min(0, 'Assessed amount cannot be negative'),
+  assessed: z.number().min(0, 'Assessed amount cannot be negative').optional(),
   paid: z.number().min(0, 'Paid amount cannot be negative'),
+  currency: currencyCodeSchema.optional(),
   fx_rate: z.number().positive('Exchange rate must be positive').optional(),
-  status: z.enum(['MATCH', 'SHORT', 'OVER', 'DELAYED'])
+  paid_at: dateSchema.optional()
 });
 
 // Case validation schema
@@ -136,11 +152,74 @@ export const caseSchema = z.object({
   assigned_to: z.string().max(100).optional()
 });
 
+// Policy pack validation schemas
+const policyOperatorSchema = z.enum([
+  'equals', 'not_equals', 'greater_than', 'less_than', 'gte', 'lte', 'between',
+  'contains', 'in', 'not_in', 'regex', 'starts_with', 'exists', 'day_of_week_in', 'within_hours_of'
+]);
+
+const conditionWeightSchema = z.number()
+  .positive('Condition weight must be positive')
+  .max(10, 'Condition weight seems unreasonably large');
+
+export const policyConditionSchema = z.object({
+  field: z.string().min(1, 'Condition field is required').max(200),
+  operator: policyOperatorSchema,
+  value: z.any(),
+  weight: conditionWeightSchema.optional(),
+  quantifier: z.enum(['any', 'all', 'none']).optional(),
+  timezone: z.string().max(50).optional()
+});
+
+export const policyConditionNodeSchema: z.ZodType<PolicyConditionNode> = z.lazy(() =>
+  z.union([policyConditionGroupSchema, policyConditionSchema])
+);
+
+export const policyConditionGroupSchema = z.object({
+  group: z.enum(['AND', 'OR', 'NOT']),
+  conditions: z.array(policyConditionNodeSchema).min(1, 'Condition group must contain at least one condition'),
+  weight: conditionWeightSchema.optional()
+});
+
+export const policyActionSchema = z.object({
+  type: z.enum(['HOLD', 'STOP', 'ALLOW', 'ESCALATE', 'NOTIFY']),
+  parameters: z.record(z.string(), z.any()).optional()
+});
+
+export const policyRuleSchema = z.object({
+  id: z.string()
+    .min(1, 'Rule ID is required')
+    .max(50, 'Rule ID too long')
+    .regex(/^[A-Z0-9_]+$/, 'Rule ID must be upper case letters, digits and underscores'),
+  name: z.string().min(1, 'Rule name is required').max(100),
+  description: z.string().max(500),
+  enabled: z.boolean(),
+  priority: z.number().int('Priority must be an integer').min(0, 'Priority cannot be negative'),
+  conditions: z.array(policyConditionNodeSchema),
+  actions: z.array(policyActionSchema).min(1, 'At least one action is required'),
+  metadata: z.record(z.string(), z.any()).optional()
+});
+
+export const policyPackSchema = z.object({
+  version: z.string().max(50, 'Version too long').optional(),
+  name: z.string().min(1, 'Policy pack name is required').max(100),
+  description: z.string().max(500),
+  rules: z.array(policyRuleSchema).min(1, 'At least one rule is required'),
+  globalSettings: z.object({
+    defaultHoldTtl: z.number().int().positive('Default hold TTL must be positive'),
+    defaultStopTtl: z.number().int().positive('Default stop TTL must be positive'),
+    maxRiskScore: z.number().positive().max(1, 'Max risk score cannot exceed 1'),
+    enableMLScoring: z.boolean()
+  }),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional()
+});
+
 // Validation result type
 export interface ValidationResult<T> {
   success: boolean;
   data?: T;
-  errors?: z.ZodError['errors'];
+  errors?: z.ZodError['issues'];
 }
 
 // Validation function
@@ -156,7 +235,7 @@ export function validateData<T>(schema: z.ZodSchema<T>, data: unknown): Validati
   
   return {
     success: false,
-    errors: result.error.errors
+    errors: result.error.issues
   };
 }
 
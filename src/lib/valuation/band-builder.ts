@@ -0,0 +1,237 @@
+import { db } from '@/lib/db';
+import { priceBandService, ANY, UnitValueBasis } from '@/lib/valuation/price-bands';
+
+export interface PriceBandBuildOptions {
+  windowDays?: number;
+  minSampleCount?: number;
+  winsorLower?: number; // percentile (0-1) below which values are clipped
+  winsorUpper?: number; // percentile (0-1) above which values are clipped
+  dryRun?: boolean;
+  builtBy?: string;
+}
+
+export interface PriceBandBuildResult {
+  version: string;
+  period_start: string;
+  period_end: string;
+  items_scanned: number;
+  items_used: number;
+  declarations_excluded: number;
+  groups_considered: number;
+  bands_written: number;
+  groups_below_min_samples: number;
+  dry_run: boolean;
+  bands: {
+    hs6: string;
+    origin: string;
+    incoterm: string;
+    basis: UnitValueBasis;
+    p10: number;
+    p50: number;
+    p90: number;
+    sample_count: number;
+  }[];
+}
+
+class PriceBandBuilder {
+  private defaults = {
+    windowDays: 90,
+    winsorLower: 0.025,
+    winsorUpper: 0.975,
+    batchSize: 5000
+  };
+
+  /**
+   * Aggregate released items over a rolling window into p10/p50/p90 bands at
+   * each fallback level used by the scorer (hs6+origin, hs6 any origin, hs4).
+   */
+  async buildBands(options: PriceBandBuildOptions = {}): Promise<PriceBandBuildResult> {
+    const {
+      windowDays = this.defaults.windowDays,
+      minSampleCount = priceBandService.getMinSampleCount(),
+      winsorLower = this.defaults.winsorLower,
+      winsorUpper = this.defaults.winsorUpper,
+      dryRun = false,
+      builtBy = 'system'
+    } = options;
+
+    const periodEnd = new Date();
+    const periodStart = new Date(periodEnd.getTime() - windowDays * 24 * 60 * 60 * 1000);
+    const version = `PB-${periodEnd.toISOString().replace(/[-:]/g, '').substring(0, 15)}`;
+
+    const releasedInWindow = {
+      status: 'RELEASED',
+      released_at: { gte: periodStart, lte: periodEnd }
+    };
+
+    // Declarations with adverse findings or short payments would pollute the reference prices
+    const excludedCount = await db.declaration.count({
+      where: {
+        ...releasedInWindow,
+        OR: [
+          { cases: { some: { outcome: 'ADVERSE' } } },
+          { payments: { some: { status: 'SHORT' } } }
+        ]
+      }
+    });
+
+    const groups = new Map<string, { hs6: string; origin: string; incoterm: string; basis: UnitValueBasis; values: number[] }>();
+    const addValue = (hs6: string, origin: string, incoterm: string, basis: UnitValueBasis, value: number) => {
+      const key = `${hs6}|${origin}|${incoterm}|${basis}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { hs6, origin, incoterm, basis, values: [] };
+        groups.set(key, group);
+      }
+      group.values.push(value);
+    };
+
+    let itemsScanned = 0;
+    let itemsUsed = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const items = await db.item.findMany({
+        where: {
+          declaration: {
+            ...releasedInWindow,
+            cases: { none: { outcome: 'ADVERSE' } },
+            payments: { none: { status: 'SHORT' } }
+          }
+        },
+        select: {
+          id: true,
+          declared_hs: true,
+          qty: true,
+          net_weight_kg: true,
+          invoice_value_usd: true,
+          incoterm: true,
+          country_origin: true
+        },
+        orderBy: { id: 'asc' },
+        take: this.defaults.batchSize,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      });
+
+      if (items.length === 0) break;
+      cursor = items[items.length - 1].id;
+      itemsScanned += items.length;
+
+      for (const item of items) {
+        const hs6 = item.declared_hs.replace(/\D/g, '').substring(0, 6);
+        const unitValue = priceBandService.getUnitValue(item);
+        if (hs6.length !== 6 || !unitValue || !(unitValue.value > 0)) continue;
+
+        const incoterm = item.incoterm || ANY;
+        if (item.country_origin) {
+          addValue(hs6, item.country_origin.toUpperCase(), incoterm, unitValue.basis, unitValue.value);
+        }
+        addValue(hs6, ANY, incoterm, unitValue.basis, unitValue.value);
+        addValue(hs6.substring(0, 4), ANY, ANY, unitValue.basis, unitValue.value);
+        itemsUsed++;
+      }
+
+      if (items.length < this.defaults.batchSize) break;
+    }
+
+    const bands: PriceBandBuildResult['bands'] = [];
+    let belowMinSamples = 0;
+
+    for (const group of groups.values()) {
+      if (group.values.length < minSampleCount) {
+        belowMinSamples++;
+        continue;
+      }
+
+      const sorted = [...group.values].sort((a, b) => a - b);
+      const winsorised = this.winsorise(sorted, winsorLower, winsorUpper);
+
+      bands.push({
+        hs6: group.hs6,
+        origin: group.origin,
+        incoterm: group.incoterm,
+        basis: group.basis,
+        p10: this.percentile(winsorised, 0.1),
+        p50: this.percentile(winsorised, 0.5),
+        p90: this.percentile(winsorised, 0.9),
+        sample_count: sorted.length
+      });
+    }
+
+    if (!dryRun && bands.length > 0) {
+      const chunkSize = 500;
+      for (let i = 0; i < bands.length; i += chunkSize) {
+        await db.priceBand.createMany({
+          data: bands.slice(i, i + chunkSize).map(band => ({
+            ...band,
+            period_start: periodStart,
+            period_end: periodEnd,
+            version
+          })),
+          skipDuplicates: true
+        });
+      }
+
+      await db.audit.create({
+        data: {
+          event_id: `price_band_build_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          actor: builtBy,
+          action: 'PRICE_BANDS_BUILT',
+          payload_hash: JSON.stringify({
+            version,
+            period_start: periodStart.toISOString(),
+            period_end: periodEnd.toISOString(),
+            bands_written: bands.length,
+            items_used: itemsUsed
+          })
+        }
+      });
+    }
+
+    return {
+      version,
+      period_start: periodStart.toISOString(),
+      period_end: periodEnd.toISOString(),
+      items_scanned: itemsScanned,
+      items_used: itemsUsed,
+      declarations_excluded: excludedCount,
+      groups_considered: groups.size,
+      bands_written: dryRun ? 0 : bands.length,
+      groups_below_min_samples: belowMinSamples,
+      dry_run: dryRun,
+      bands
+    };
+  }
+
+  async listBands(filters: { hs6?: string; origin?: string; version?: string; limit?: number } = {}) {
+    const where: any = {};
+    if (filters.hs6) where.hs6 = { startsWith: filters.hs6 };
+    if (filters.origin) where.origin = filters.origin.toUpperCase();
+    if (filters.version) where.version = filters.version;
+
+    return db.priceBand.findMany({
+      where,
+      orderBy: [{ period_end: 'desc' }, { hs6: 'asc' }],
+      take: Math.min(filters.limit || 100, 1000)
+    });
+  }
+
+  // Clip values outside the given percentiles so single extreme invoices cannot stretch the band
+  private winsorise(sorted: number[], lower: number, upper: number): number[] {
+    const low = this.percentile(sorted, lower);
+    const high = this.percentile(sorted, upper);
+    return sorted.map(value => Math.min(Math.max(value, low), high));
+  }
+
+  // Linear interpolation between closest ranks; expects sorted input
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = (sorted.length - 1) * p;
+    const lowerIndex = Math.floor(rank);
+    const upperIndex = Math.ceil(rank);
+    const fraction = rank - lowerIndex;
+    return sorted[lowerIndex] + (sorted[upperIndex] - sorted[lowerIndex]) * fraction;
+  }
+}
+
+export const priceBandBuilder = new PriceBandBuilder();
@@ -0,0 +1,203 @@
+import { db } from '@/lib/db';
+
+export type PriceBandLevel = 'HS6_ORIGIN' | 'HS6' | 'HS4';
+
+export type UnitValueBasis = 'KG' | 'UNIT';
+
+export interface UnitValue {
+  value: number;
+  basis: UnitValueBasis;
+}
+
+export interface PriceBandMatch {
+  id: string;
+  level: PriceBandLevel;
+  hs6: string;
+  origin: string;
+  incoterm: string;
+  basis: UnitValueBasis;
+  p10: number;
+  p50: number;
+  p90: number;
+  sample_count: number;
+  period_start: string;
+  period_end: string;
+  version: string;
+}
+
+export interface UndervaluationAssessment {
+  line_no: number;
+  unit_value: number;
+  basis: UnitValueBasis;
+  band: PriceBandMatch | null;
+  deviation_pct: number | null;
+  grade: 'NONE' | 'MILD' | 'MODERATE' | 'HIGH' | 'SEVERE' | 'NO_BAND';
+  score: number;
+  reason_code: string | null;
+}
+
+// Wildcard used for origin/incoterm on aggregated (fallback) bands
+export const ANY = 'ANY';
+
+class PriceBandService {
+  private config = {
+    minSampleCount: 30,
+    maxBandAgeDays: 180 // bands whose period ended longer ago are considered stale
+  };
+
+  // Coarser bands carry less certainty, so their scores are discounted
+  private levelConfidence: Record<PriceBandLevel, number> = {
+    HS6_ORIGIN: 1.0,
+    HS6: 0.9,
+    HS4: 0.75
+  };
+
+  // Grades are evaluated in order; ratio is unit value / p10
+  private grades: { grade: UndervaluationAssessment['grade']; maxRatioToP10: number; score: number }[] = [
+    { grade: 'SEVERE', maxRatioToP10: 0.5, score: 0.95 },
+    { grade: 'HIGH', maxRatioToP10: 0.75, score: 0.85 },
+    { grade: 'MODERATE', maxRatioToP10: 1.0, score: 0.65 }
+  ];
+
+  getMinSampleCount(): number {
+    return this.config.minSampleCount;
+  }
+
+  /**
+   * Normalise an item's invoice value to a unit value. Net weight is preferred
+   * because it is comparable across packaging; quantity is used otherwise.
+   */
+  getUnitValue(item: { invoice_value_usd: number; qty: number; net_weight_kg?: number | null }): UnitValue | null {
+    if (item.net_weight_kg && item.net_weight_kg > 0) {
+      return { value: item.invoice_value_usd / item.net_weight_kg, basis: 'KG' };
+    }
+    if (item.qty > 0) {
+      return { value: item.invoice_value_usd / item.qty, basis: 'UNIT' };
+    }
+    return null;
+  }
+
+  /**
+   * Find the most specific active band with enough samples, falling back
+   * hs6+origin -> hs6 any origin -> hs4.
+   */
+  async findBand(
+    declaredHs: string,
+    origin: string | null | undefined,
+    incoterm: string | null | undefined,
+    basis: UnitValueBasis,
+    asOf: Date
+  ): Promise<PriceBandMatch | null> {
+    const hs6 = declaredHs.replace(/\D/g, '').substring(0, 6);
+    if (hs6.length < 4) return null;
+
+    const normalisedIncoterm = incoterm || ANY;
+    const candidates: { level: PriceBandLevel; hs6: string; origin: string; incoterm: string }[] = [];
+
+    if (hs6.length === 6 && origin) {
+      candidates.push({ level: 'HS6_ORIGIN', hs6, origin: origin.toUpperCase(), incoterm: normalisedIncoterm });
+    }
+    if (hs6.length === 6) {
+      candidates.push({ level: 'HS6', hs6, origin: ANY, incoterm: normalisedIncoterm });
+    }
+    candidates.push({ level: 'HS4', hs6: hs6.substring(0, 4), origin: ANY, incoterm: ANY });
+
+    const staleBefore = new Date(asOf.getTime() - this.config.maxBandAgeDays * 24 * 60 * 60 * 1000);
+
+    for (const candidate of candidates) {
+      const band = await db.priceBand.findFirst({
+        where: {
+          hs6: candidate.hs6,
+          origin: candidate.origin,
+          incoterm: candidate.incoterm,
+          basis,
+          period_start: { lte: asOf },
+          period_end: { gte: staleBefore },
+          sample_count: { gte: this.config.minSampleCount }
+        },
+        orderBy: [{ period_end: 'desc' }, { created_at: 'desc' }]
+      });
+
+      if (band) {
+        return {
+          id: band.id,
+          level: candidate.level,
+          hs6: band.hs6,
+          origin: band.origin,
+          incoterm: band.incoterm,
+          basis: band.basis as UnitValueBasis,
+          p10: band.p10,
+          p50: band.p50,
+          p90: band.p90,
+          sample_count: band.sample_count,
+          period_start: band.period_start.toISOString(),
+          period_end: band.period_end.toISOString(),
+          version: band.version
+        };
+      }
+    }
+
+    return null;
+  }
+
+  async assessItem(
+    item: {
+      line_no: number;
+      declared_hs: string;
+      qty: number;
+      net_weight_kg?: number | null;
+      invoice_value_usd: number;
+      incoterm?: string | null;
+      country_origin?: string | null;
+    },
+    asOf: Date
+  ): Promise<UndervaluationAssessment | null> {
+    const unitValue = this.getUnitValue(item);
+    if (!unitValue) return null;
+
+    const band = await this.findBand(item.declared_hs, item.country_origin, item.incoterm, unitValue.basis, asOf);
+
+    if (!band) {
+      return {
+        line_no: item.line_no,
+        unit_value: unitValue.value,
+        basis: unitValue.basis,
+        band: null,
+        deviation_pct: null,
+        grade: 'NO_BAND',
+        score: 0,
+        reason_code: null
+      };
+    }
+
+    const deviationPct = band.p50 > 0 ? Math.round((unitValue.value - band.p50) / band.p50 * 100) : null;
+    const ratioToP10 = band.p10 > 0 ? unitValue.value / band.p10 : Infinity;
+    const matchedGrade = this.grades.find(g => ratioToP10 < g.maxRatioToP10);
+
+    let grade: UndervaluationAssessment['grade'] = 'NONE';
+    let score = 0;
+
+    if (matchedGrade) {
+      grade = matchedGrade.grade;
+      score = matchedGrade.score * this.levelConfidence[band.level];
+    } else if (unitValue.value < band.p50) {
+      grade = 'MILD';
+      score = 0.3 * this.levelConfidence[band.level];
+    }
+
+    return {
+      line_no: item.line_no,
+      unit_value: unitValue.value,
+      basis: unitValue.basis,
+      band,
+      deviation_pct: deviationPct,
+      grade,
+      score,
+      reason_code: grade === 'NONE' || grade === 'MILD'
+        ? null
+        : `Undervaluation_${grade}_L${item.line_no}_${deviationPct}%_vs_P50_band_${band.level}:${band.hs6}/${band.origin}/${band.incoterm}/${band.basis}`
+    };
+  }
+}
+
+export const priceBandService = new PriceBandService();
@@ -0,0 +1,138 @@
+import { db } from '@/lib/db';
+import type { HoldStopWorkflow, SLAConfig } from '@/lib/workflow/manager';
+
+export interface EscalationStep {
+  threshold: number;
+  from_level: number;
+  to_level: number;
+  to_role: string;
+}
+
+export interface EscalationPlan {
+  sla_percent: number;
+  fired_thresholds: number[]; // thresholds crossed since the last check
+  escalations: EscalationStep[]; // one step per threshold that still has a level to move to
+  warnings: number[]; // thresholds crossed with no higher level left in the path
+}
+
+export interface DutyAssignment {
+  id: string;
+  level: string;
+  user_email: string;
+  starts_at: string;
+  ends_at: string;
+  created_by?: string | null;
+}
+
+class EscalationEngine {
+  /**
+   * Work out which SLA thresholds a workflow has crossed that have not fired yet.
+   * Each crossed threshold moves the workflow one level up its escalation path
+   * until the path runs out; later thresholds only produce warnings.
+   */
+  planEscalation(workflow: HoldStopWorkflow, slaConfig: SLAConfig, now: Date = new Date()): EscalationPlan {
+    const slaMs = workflow.sla_minutes * 60 * 1000;
+    const elapsedMs = slaMs - (new Date(workflow.expires_at).getTime() - now.getTime());
+    const slaPercent = slaMs > 0 ? (elapsedMs / slaMs) * 100 : 100;
+
+    const fired = new Set(workflow.sla_thresholds_fired || []);
+    const crossed = [...slaConfig.notification_rules.escalation_thresholds]
+      .sort((a, b) => a - b)
+      .filter(threshold => slaPercent >= threshold && !fired.has(threshold));
+
+    const escalations: EscalationStep[] = [];
+    const warnings: number[] = [];
+    let level = workflow.escalation_level || 0;
+    const topLevel = slaConfig.escalation_path.length - 1;
+
+    for (const threshold of crossed) {
+      if (level < topLevel) {
+        escalations.push({
+          threshold,
+          from_level: level,
+          to_level: level + 1,
+          to_role: slaConfig.escalation_path[level + 1]
+        });
+        level++;
+      } else {
+        warnings.push(threshold);
+      }
+    }
+
+    return {
+      sla_percent: slaPercent,
+      fired_thresholds: crossed,
+      escalations,
+      warnings
+    };
+  }
+
+  // Escalation path role for a level, clamped to the top of the path
+  getLevelRole(slaConfig: SLAConfig, level: number = 0): string {
+    const path = slaConfig.escalation_path;
+    return path[Math.min(Math.max(level, 0), path.length - 1)];
+  }
+
+  /**
+   * Officer on duty for an escalation level; the most recently started shift wins
+   * when shifts overlap.
+   */
+  async findOnDutyHolder(level: string, at: Date = new Date()): Promise<string | null> {
+    const shift = await db.dutyRoster.findFirst({
+      where: {
+        level,
+        starts_at: { lte: at },
+        ends_at: { gt: at }
+      },
+      orderBy: { starts_at: 'desc' }
+    });
+
+    return shift?.user_email || null;
+  }
+
+  async assignDuty(
+    level: string,
+    userEmail: string,
+    startsAt: Date,
+    endsAt: Date,
+    createdBy: string
+  ): Promise<DutyAssignment> {
+    const record = await db.dutyRoster.create({
+      data: {
+        level,
+        user_email: userEmail,
+        starts_at: startsAt,
+        ends_at: endsAt,
+        created_by: createdBy
+      }
+    });
+
+    return this.toAssignment(record);
+  }
+
+  async getRoster(options: { level?: string; at?: Date } = {}): Promise<DutyAssignment[]> {
+    const at = options.at || new Date();
+    const records = await db.dutyRoster.findMany({
+      where: {
+        ...(options.level ? { level: options.level } : {}),
+        ends_at: { gt: at }
+      },
+      orderBy: [{ level: 'asc' }, { starts_at: 'asc' }]
+    });
+
+    return records.map(record => this.toAssignment(record));
+  }
+
+  private toAssignment(record: any): DutyAssignment {
+    return {
+      id: record.id,
+      level: record.level,
+      user_email: record.user_email,
+      starts_at: record.starts_at.toISOString(),
+      ends_at: record.ends_at.toISOString(),
+      created_by: record.created_by
+    };
+  }
+}
+
+export const escalationEngine = new EscalationEngine();
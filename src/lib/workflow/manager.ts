@@ -1,5 +1,12 @@
 import { db } from '@/lib/db';
 import { moneySavedCalculator } from '@/lib/attribution/calculator';
+import { jobScheduler, WORKFLOW_EXPIRY_JOB } from '@/lib/scheduler/scheduler';
+import { escalationEngine } from '@/lib/workflow/escalation';
+import { notificationService } from '@/lib/notifications/service';
+import { consoleEvents, OPERATIONS_ROLES } from '@/lib/socket';
+import type { NotificationEventType } from '@/lib/notifications/templates';
+import { defaultPolicyPack } from '@/lib/policy/engine';
+import { workflowStateMachine, WorkflowActor, WorkflowTransitionError, SYSTEM_ACTOR } from '@/lib/workflow/state-machine';
 
 export interface HoldStopWorkflow {
   id: string;
@@ -16,6 +23,7 @@ export interface HoldStopWorkflow {
   rule_ids: string[];
   sla_minutes: number;
   escalation_level?: number;
+  sla_thresholds_fired: number[];
   review_required: boolean;
   review_notes?: string;
   reviewed_by?: string;
@@ -23,18 +31,33 @@ export interface HoldStopWorkflow {
   release_authorized_by?: string;
   release_authorized_at?: string;
   metadata?: Record<string, any>;
+  version: number; // concurrency token; updates fail if the stored version has moved on
 }
 
 export interface WorkflowAction {
   id: string;
   workflow_id: string;
-  action_type: 'CREATE' | 'ESCALATE' | 'REVIEW' | 'RELEASE' | 'EXPIRE' | 'OVERRIDE';
+  action_type: 'CREATE' | 'ESCALATE' | 'REVIEW' | 'RELEASE' | 'EXPIRE' | 'OVERRIDE' | 'NOTE';
   performed_by: string;
   performed_at: string;
   notes?: string;
   metadata?: Record<string, any>;
 }
 
+export class WorkflowConcurrencyError extends Error {
+  constructor(public workflowId: string) {
+    super(`Workflow ${workflowId} was modified concurrently; reload and retry`);
+    this.name = 'WorkflowConcurrencyError';
+  }
+}
+
+export class WorkflowNotFoundError extends Error {
+  constructor(public workflowId: string) {
+    super(`Workflow ${workflowId} not found`);
+    this.name = 'WorkflowNotFoundError';
+  }
+}
+
 export interface SLAConfig {
   action_type: 'HOLD' | 'STOP';
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
@@ -109,7 +132,7 @@ class HoldStopWorkflowManager {
       slaMinutes,
       assignedTo,
       ruleIds = [],
-      policyVersion = '2025-11-02-01',
+      policyVersion = defaultPolicyPack.version,
       metadata = {}
     } = options;
 
@@ -121,134 +144,126 @@ class HoldStopWorkflowManager {
     const finalSlaMinutes = slaMinutes || slaConfig?.default_sla_minutes || 480;
     const expiresAt = new Date(Date.now() + finalSlaMinutes * 60 * 1000);
 
-    // Create workflow
-    const workflow: HoldStopWorkflow = {
-      id: `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      declaration_id: declarationId,
-      action_type: actionType,
-      status: 'ACTIVE',
-      created_at: new Date().toISOString(),
-      expires_at: expiresAt.toISOString(),
-      created_by: createdBy,
-      assigned_to: assignedTo,
-      priority,
-      reason,
-      policy_version: policyVersion,
-      rule_ids: ruleIds,
-      sla_minutes: finalSlaMinutes,
-      review_required: actionType === 'STOP',
-      metadata
-    };
-
-    // Store workflow in database (would create a workflow table in production)
-    await this.storeWorkflow(workflow);
+    // Unassigned workflows go to whoever is on duty at the first level of the path
+    const escalationConfig = this.getSlaConfig(actionType, priority);
+    const assignee = assignedTo || (escalationConfig
+      ? await escalationEngine.findOnDutyHolder(escalationEngine.getLevelRole(escalationConfig, 0))
+      : null);
 
-    // Log workflow creation
-    await this.logWorkflowAction(workflow.id, 'CREATE', createdBy, 'Workflow created');
+    // Create workflow together with its CREATE action
+    const record = await db.holdStopWorkflow.create({
+      data: {
+        declaration_id: declarationId,
+        action_type: actionType,
+        status: 'ACTIVE',
+        expires_at: expiresAt,
+        created_by: createdBy,
+        assigned_to: assignee,
+        priority,
+        reason,
+        policy_version: policyVersion,
+        rule_ids: ruleIds,
+        sla_minutes: finalSlaMinutes,
+        review_required: actionType === 'STOP',
+        metadata: JSON.stringify(metadata),
+        actions: {
+          create: {
+            action_type: 'CREATE',
+            performed_by: createdBy,
+            notes: 'Workflow created'
+          }
+        }
+      }
+    });
+    const workflow = this.toWorkflow(record);
 
     // Send notifications
     await this.sendNotifications(workflow, 'created');
 
     // Schedule expiration check
-    this.scheduleExpirationCheck(workflow.id, expiresAt);
+    await this.scheduleExpirationCheck(expiresAt);
 
     return workflow;
   }
 
+  /**
+   * Release a workflow. CRITICAL workflows need two different officers: the first
+   * call records an authorisation and leaves the workflow in place.
+   */
   async releaseWorkflow(
     workflowId: string,
-    authorizedBy: string,
+    actor: WorkflowActor,
     reason: string,
     notes?: string
-  ): Promise<boolean> {
-    const workflow = await this.getWorkflow(workflowId);
-    if (!workflow) {
-      throw new Error('Workflow not found');
-    }
-
-    if (workflow.status !== 'ACTIVE') {
-      throw new Error('Workflow is not active and cannot be released');
-    }
-
-    // Update workflow status
-    workflow.status = 'RELEASED';
-    workflow.release_authorized_by = authorizedBy;
-    workflow.release_authorized_at = new Date().toISOString();
-    workflow.review_notes = notes;
-
-    await this.updateWorkflow(workflow);
-
-    // Log release action
-    await this.logWorkflowAction(workflow.id, 'RELEASE', authorizedBy, reason, { notes });
-
-    // Send notifications
-    await this.sendNotifications(workflow, 'released');
-
-    // Update declaration status
-    await this.updateDeclarationStatus(workflow.declaration_id, 'RELEASED');
+  ): Promise<HoldStopWorkflow> {
+    const workflow = await this.loadWorkflow(workflowId);
+    workflowStateMachine.assertTransition(workflow, 'RELEASE', actor, { reason, notes });
 
-    return true;
+    return this.applyRelease(workflow, 'RELEASE', actor, reason, notes);
   }
 
   async escalateWorkflow(
     workflowId: string,
-    escalatedBy: string,
+    actor: WorkflowActor,
     reason: string,
     newLevel?: number
-  ): Promise<boolean> {
-    const workflow = await this.getWorkflow(workflowId);
-    if (!workflow) {
-      throw new Error('Workflow not found');
-    }
-
-    if (workflow.status !== 'ACTIVE') {
-      throw new Error('Workflow is not active and cannot be escalated');
+  ): Promise<HoldStopWorkflow> {
+    const workflow = await this.loadWorkflow(workflowId);
+
+    // Update escalation level and hand over to the on-duty holder of that level
+    workflow.status = workflowStateMachine.assertTransition(workflow, 'ESCALATE', actor, { reason });
+    const fromLevel = workflow.escalation_level || 0;
+    workflow.escalation_level = newLevel || fromLevel + 1;
+
+    const slaConfig = this.getSlaConfig(workflow.action_type, workflow.priority);
+    const role = slaConfig ? escalationEngine.getLevelRole(slaConfig, workflow.escalation_level) : undefined;
+    const holder = role ? await escalationEngine.findOnDutyHolder(role) : null;
+    if (holder) {
+      workflow.assigned_to = holder;
     }
 
-    // Update escalation level
-    workflow.escalation_level = newLevel || (workflow.escalation_level || 0) + 1;
-    workflow.status = 'ESCALATED';
-
     await this.updateWorkflow(workflow);
 
     // Log escalation action
-    await this.logWorkflowAction(workflow.id, 'ESCALATE', escalatedBy, reason, {
-      escalation_level: workflow.escalation_level
+    await this.logWorkflowAction(workflow.id, 'ESCALATE', actor.id, reason, {
+      from_level: fromLevel,
+      escalation_level: workflow.escalation_level,
+      escalation_role: role,
+      assigned_to: workflow.assigned_to
     });
 
     // Send escalation notifications
     await this.sendNotifications(workflow, 'escalated');
 
-    return true;
+    return workflow;
   }
 
   async reviewWorkflow(
     workflowId: string,
-    reviewedBy: string,
+    actor: WorkflowActor,
     outcome: 'APPROVED' | 'REJECTED' | 'NEEDS_MORE_INFO',
     notes: string
-  ): Promise<boolean> {
-    const workflow = await this.getWorkflow(workflowId);
-    if (!workflow) {
-      throw new Error('Workflow not found');
-    }
+  ): Promise<HoldStopWorkflow> {
+    const workflow = await this.loadWorkflow(workflowId);
+    const transition = outcome === 'APPROVED'
+      ? 'REVIEW_APPROVE'
+      : outcome === 'REJECTED' ? 'REVIEW_REJECT' : 'REVIEW_MORE_INFO';
+    const nextStatus = workflowStateMachine.assertTransition(workflow, transition, actor, { notes });
 
-    workflow.reviewed_by = reviewedBy;
+    workflow.reviewed_by = actor.id;
     workflow.reviewed_at = new Date().toISOString();
     workflow.review_notes = notes;
 
-    if (outcome === 'APPROVED') {
-      workflow.status = 'ACTIVE';
-    } else if (outcome === 'REJECTED') {
-      workflow.status = 'RELEASED';
-      workflow.release_authorized_by = reviewedBy;
-      workflow.release_authorized_at = new Date().toISOString();
+    // A rejected hold is released, subject to the same dual authorisation as a release
+    if (nextStatus === 'RELEASED') {
+      return this.applyRelease(workflow, 'REVIEW', actor, `Review outcome: ${outcome}`, notes);
     }
 
+    workflow.status = nextStatus;
     await this.updateWorkflow(workflow);
 
     // Log review action
-    await this.logWorkflowAction(workflow.id, 'REVIEW', reviewedBy, `Review outcome: ${outcome}`, {
+    await this.logWorkflowAction(workflow.id, 'REVIEW', actor.id, `Review outcome: ${outcome}`, {
       outcome,
       notes
     });
@@ -256,163 +271,378 @@ class HoldStopWorkflowManager {
     // Send notifications
     await this.sendNotifications(workflow, 'reviewed');
 
-    return true;
+    return workflow;
+  }
+
+  private async applyRelease(
+    workflow: HoldStopWorkflow,
+    actionType: 'RELEASE' | 'REVIEW',
+    actor: WorkflowActor,
+    reason: string,
+    notes?: string
+  ): Promise<HoldStopWorkflow> {
+    if (workflowStateMachine.requiresDualAuthorisation(workflow, actor)) {
+      const authorisations: { by: string; at: string; reason: string }[] =
+        workflow.metadata?.release_authorizations || [];
+
+      if (authorisations.some(authorisation => authorisation.by === actor.id)) {
+        throw new WorkflowTransitionError(
+          'Release of a CRITICAL workflow must be authorised by a second officer',
+          'DUAL_AUTHORISATION_REQUIRED',
+          workflow.id,
+          actionType === 'RELEASE' ? 'RELEASE' : 'REVIEW_REJECT'
+        );
+      }
+
+      if (authorisations.length === 0) {
+        workflow.metadata = {
+          ...workflow.metadata,
+          release_authorizations: [{ by: actor.id, at: new Date().toISOString(), reason }]
+        };
+        await this.updateWorkflow(workflow);
+
+        await this.logWorkflowAction(workflow.id, actionType, actor.id, reason, {
+          notes,
+          authorisation: 'FIRST',
+          awaiting_second_authorisation: true
+        });
+
+        return workflow;
+      }
+    }
+
+    // Update workflow status
+    workflow.status = 'RELEASED';
+    workflow.release_authorized_by = actor.id;
+    workflow.release_authorized_at = new Date().toISOString();
+    workflow.review_notes = notes || workflow.review_notes;
+
+    await this.updateWorkflow(workflow);
+
+    // Log release action
+    await this.logWorkflowAction(workflow.id, actionType, actor.id, reason, { notes });
+
+    // Send notifications
+    await this.sendNotifications(workflow, 'released');
+
+    // Update declaration status
+    await this.updateDeclarationStatus(workflow.declaration_id, 'RELEASED');
+
+    return workflow;
   }
 
   async checkExpiredWorkflows(): Promise<void> {
     const now = new Date();
     const activeWorkflows = await this.getActiveWorkflows();
 
+    // One workflow failing must not stop the others from expiring or being released
     for (const workflow of activeWorkflows) {
-      const expiresAt = new Date(workflow.expires_at);
-      
-      if (expiresAt <= now) {
-        // Workflow has expired
-        workflow.status = 'EXPIRED';
-        await this.updateWorkflow(workflow);
+      try {
+        await this.checkWorkflow(workflow, now);
+      } catch (error) {
+        if (error instanceof WorkflowConcurrencyError) continue;
+        console.error(`SLA check failed for workflow ${workflow.id}:`, error);
+      }
+    }
+  }
 
-        // Log expiration
-        await this.logWorkflowAction(workflow.id, 'EXPIRE', 'system', 'Workflow expired due to SLA');
-
-        // Send expiration notifications
-        await this.sendNotifications(workflow, 'expired');
-
-        // Auto-release if no adverse findings (for HOLD actions only)
-        if (workflow.action_type === 'HOLD') {
-          const hasAdverseFindings = await this.checkForAdverseFindings(workflow.declaration_id);
-          
-          if (!hasAdverseFindings) {
-            await this.releaseWorkflow(
-              workflow.id,
-              'system',
-              'Auto-released: No adverse findings found within SLA period',
-              'Automatically released due to SLA expiration with no adverse findings'
-            );
-          }
-        }
-      } else {
-        // Check for SLA warnings
-        const timeUntilExpiration = expiresAt.getTime() - now.getTime();
-        const slaPercent = ((workflow.sla_minutes * 60 * 1000 - timeUntilExpiration) / (workflow.sla_minutes * 60 * 1000)) * 100;
+  private async checkWorkflow(workflow: HoldStopWorkflow, now: Date): Promise<void> {
+    const expiresAt = new Date(workflow.expires_at);
 
-        const slaConfig = this.slaConfigs.find(
-          config => config.action_type === workflow.action_type && config.priority === workflow.priority
-        );
+    if (expiresAt > now) {
+      await this.applySlaEscalation(workflow, now);
+      return;
+    }
 
-        if (slaConfig) {
-          for (const threshold of slaConfig.notification_rules.escalation_thresholds) {
-            if (slaPercent >= threshold && slaPercent < threshold + 5) {
-              // Send SLA warning notification
-              await this.sendSlaWarning(workflow, slaPercent, threshold);
-              break;
-            }
-          }
-        }
+    // Workflow has expired; another instance may have expired it first
+    workflow.status = workflowStateMachine.assertTransition(workflow, 'EXPIRE', SYSTEM_ACTOR);
+    await this.updateWorkflow(workflow);
+
+    // Log expiration
+    await this.logWorkflowAction(workflow.id, 'EXPIRE', SYSTEM_ACTOR.id, 'Workflow expired due to SLA');
+
+    // Send expiration notifications
+    await this.sendNotifications(workflow, 'expired');
+
+    // Auto-release if no adverse findings (for HOLD actions only; CRITICAL needs two officers)
+    if (workflow.action_type === 'HOLD' && workflow.priority !== 'CRITICAL') {
+      const hasAdverseFindings = await this.checkForAdverseFindings(workflow.declaration_id);
+
+      if (!hasAdverseFindings) {
+        await this.releaseWorkflow(
+          workflow.id,
+          SYSTEM_ACTOR,
+          'Auto-released: No adverse findings found within SLA period',
+          'Automatically released due to SLA expiration with no adverse findings'
+        );
       }
     }
   }
 
-  private async storeWorkflow(workflow: HoldStopWorkflow): Promise<void> {
-    // In production, this would store in a workflow table
-    // For now, we'll store in the audit table
-    await db.audit.create({
-      data: {
-        event_id: workflow.id,
-        declaration_id: workflow.declaration_id,
-        actor: workflow.created_by,
-        action: `WORKFLOW_${workflow.action_type}_CREATED`,
-        payload_hash: JSON.stringify(workflow)
+  /**
+   * Act on SLA thresholds crossed since the last check: each one fires once and
+   * moves the workflow to the next level of its escalation path, or only warns
+   * once the top of the path is reached.
+   */
+  private async applySlaEscalation(workflow: HoldStopWorkflow, now: Date): Promise<void> {
+    const slaConfig = this.getSlaConfig(workflow.action_type, workflow.priority);
+    if (!slaConfig) return;
+
+    const plan = escalationEngine.planEscalation(workflow, slaConfig, now);
+    if (plan.fired_thresholds.length === 0) return;
+
+    workflow.sla_thresholds_fired = [...workflow.sla_thresholds_fired, ...plan.fired_thresholds];
+
+    const finalStep = plan.escalations[plan.escalations.length - 1];
+    if (finalStep) {
+      const reason = `SLA ${finalStep.threshold}% threshold crossed`;
+      workflow.status = workflowStateMachine.assertTransition(workflow, 'ESCALATE', SYSTEM_ACTOR, { reason });
+      workflow.escalation_level = finalStep.to_level;
+
+      const holder = await escalationEngine.findOnDutyHolder(finalStep.to_role, now);
+      if (holder) {
+        workflow.assigned_to = holder;
       }
+    }
+
+    // Claim the thresholds before acting so a concurrent check cannot fire them again
+    await this.updateWorkflow(workflow);
+
+    for (const step of plan.escalations) {
+      await this.logWorkflowAction(workflow.id, 'ESCALATE', SYSTEM_ACTOR.id, `SLA ${step.threshold}% threshold crossed`, {
+        threshold: step.threshold,
+        sla_percent: Math.round(plan.sla_percent * 10) / 10,
+        from_level: step.from_level,
+        escalation_level: step.to_level,
+        escalation_role: step.to_role,
+        assigned_to: step === finalStep ? workflow.assigned_to : undefined
+      });
+    }
+
+    if (finalStep) {
+      await this.sendNotifications(workflow, 'escalated');
+    }
+
+    for (const threshold of plan.warnings) {
+      await this.sendSlaWarning(workflow, plan.sla_percent, threshold);
+    }
+  }
+
+  // Exact action type and priority match first, otherwise the first config for the action type
+  private getSlaConfig(actionType: HoldStopWorkflow['action_type'], priority: HoldStopWorkflow['priority']): SLAConfig | undefined {
+    return this.slaConfigs.find(config => config.action_type === actionType && config.priority === priority)
+      || this.slaConfigs.find(config => config.action_type === actionType);
+  }
+
+  private async loadWorkflow(workflowId: string): Promise<HoldStopWorkflow> {
+    const workflow = await this.getWorkflow(workflowId);
+    if (!workflow) {
+      throw new WorkflowNotFoundError(workflowId);
+    }
+    return workflow;
+  }
+
+  async getWorkflow(workflowId: string): Promise<HoldStopWorkflow | null> {
+    const record = await db.holdStopWorkflow.findUnique({
+      where: { id: workflowId }
     });
+
+    return record ? this.toWorkflow(record) : null;
   }
 
-  private async getWorkflow(workflowId: string): Promise<HoldStopWorkflow | null> {
-    // In production, this would query the workflow table
-    // For now, we'll retrieve from audit table
-    const auditRecord = await db.audit.findFirst({
+  // Unresolved workflows on a declaration, which constrain amendments and cancellation
+  async getOpenWorkflowsForDeclaration(declarationId: string): Promise<HoldStopWorkflow[]> {
+    const records = await db.holdStopWorkflow.findMany({
       where: {
-        event_id: workflowId,
-        action: {
-          contains: 'WORKFLOW_'
-        }
-      }
+        declaration_id: declarationId,
+        status: { in: ['PENDING', 'ACTIVE', 'ESCALATED', 'EXPIRED'] }
+      },
+      orderBy: { created_at: 'asc' }
     });
 
-    if (auditRecord && auditRecord.payload_hash) {
-      try {
-        return JSON.parse(auditRecord.payload_hash);
-      } catch {
-        return null;
-      }
-    }
+    return records.map(record => this.toWorkflow(record));
+  }
 
-    return null;
+  // Record something that happened outside the workflow, e.g. an amendment to the held declaration
+  async addNote(workflowId: string, performedBy: string, notes: string, metadata?: Record<string, any>): Promise<void> {
+    await this.logWorkflowAction(workflowId, 'NOTE', performedBy, notes, metadata);
   }
 
+  async getWorkflowActions(workflowId: string): Promise<WorkflowAction[]> {
+    const records = await db.workflowAction.findMany({
+      where: { workflow_id: workflowId },
+      orderBy: { performed_at: 'asc' }
+    });
+
+    return records.map(record => ({
+      id: record.id,
+      workflow_id: record.workflow_id,
+      action_type: record.action_type as WorkflowAction['action_type'],
+      performed_by: record.performed_by,
+      performed_at: record.performed_at.toISOString(),
+      notes: record.notes || undefined,
+      metadata: record.metadata ? JSON.parse(record.metadata) : undefined
+    }));
+  }
+
+  /**
+   * Persist changes made to a workflow loaded earlier. The update only applies if
+   * nobody else changed the workflow since it was read.
+   */
   private async updateWorkflow(workflow: HoldStopWorkflow): Promise<void> {
-    // In production, this would update the workflow table
-    await db.audit.create({
+    const result = await db.holdStopWorkflow.updateMany({
+      where: { id: workflow.id, version: workflow.version },
       data: {
-        event_id: `${workflow.id}_update_${Date.now()}`,
-        declaration_id: workflow.declaration_id,
-        actor: 'system',
-        action: `WORKFLOW_${workflow.action_type}_UPDATED`,
-        payload_hash: JSON.stringify(workflow)
+        status: workflow.status,
+        assigned_to: workflow.assigned_to || null,
+        escalation_level: workflow.escalation_level ?? null,
+        sla_thresholds_fired: workflow.sla_thresholds_fired,
+        review_notes: workflow.review_notes || null,
+        reviewed_by: workflow.reviewed_by || null,
+        reviewed_at: workflow.reviewed_at ? new Date(workflow.reviewed_at) : null,
+        release_authorized_by: workflow.release_authorized_by || null,
+        release_authorized_at: workflow.release_authorized_at ? new Date(workflow.release_authorized_at) : null,
+        metadata: JSON.stringify(workflow.metadata || {}),
+        version: { increment: 1 }
       }
     });
+
+    if (result.count === 0) {
+      throw new WorkflowConcurrencyError(workflow.id);
+    }
+
+    workflow.version++;
   }
 
+  // Workflows still running against their SLA
   private async getActiveWorkflows(): Promise<HoldStopWorkflow[]> {
-    // In production, this would query active workflows from the workflow table
-    // For now, return empty array as this is a placeholder
-    return [];
+    const records = await db.holdStopWorkflow.findMany({
+      where: { status: { in: ['ACTIVE', 'ESCALATED'] } },
+      orderBy: { expires_at: 'asc' }
+    });
+
+    return records.map(record => this.toWorkflow(record));
   }
 
   private async logWorkflowAction(
     workflowId: string,
-    actionType: string,
+    actionType: WorkflowAction['action_type'],
     performedBy: string,
     notes: string,
     metadata?: Record<string, any>
   ): Promise<void> {
-    await db.audit.create({
+    await db.workflowAction.create({
       data: {
-        event_id: `${workflowId}_${actionType}_${Date.now()}`,
-        action: `WORKFLOW_ACTION_${actionType}`,
-        actor: performedBy,
-        payload_hash: JSON.stringify({
-          workflow_id: workflowId,
-          action_type: actionType,
-          notes,
-          metadata,
-          timestamp: new Date().toISOString()
-        })
+        workflow_id: workflowId,
+        action_type: actionType,
+        performed_by: performedBy,
+        notes,
+        metadata: metadata ? JSON.stringify(metadata) : null
       }
     });
   }
 
-  private async sendNotifications(workflow: HoldStopWorkflow, eventType: string): Promise<void> {
-    // In production, this would send actual notifications via email, SMS, etc.
-    console.log(`Notification: ${eventType} for workflow ${workflow.id}`);
-    console.log(`Action: ${workflow.action_type}, Priority: ${workflow.priority}`);
-    console.log(`Assigned to: ${workflow.assigned_to || 'Unassigned'}`);
+  private toWorkflow(record: any): HoldStopWorkflow {
+    return {
+      id: record.id,
+      declaration_id: record.declaration_id,
+      action_type: record.action_type,
+      status: record.status,
+      created_at: record.created_at.toISOString(),
+      expires_at: record.expires_at.toISOString(),
+      created_by: record.created_by,
+      assigned_to: record.assigned_to || undefined,
+      priority: record.priority,
+      reason: record.reason,
+      policy_version: record.policy_version,
+      rule_ids: record.rule_ids,
+      sla_minutes: record.sla_minutes,
+      escalation_level: record.escalation_level ?? undefined,
+      sla_thresholds_fired: record.sla_thresholds_fired || [],
+      review_required: record.review_required,
+      review_notes: record.review_notes || undefined,
+      reviewed_by: record.reviewed_by || undefined,
+      reviewed_at: record.reviewed_at?.toISOString(),
+      release_authorized_by: record.release_authorized_by || undefined,
+      release_authorized_at: record.release_authorized_at?.toISOString(),
+      metadata: record.metadata ? JSON.parse(record.metadata) : {},
+      version: record.version
+    };
+  }
+
+  private async sendNotifications(
+    workflow: HoldStopWorkflow,
+    eventType: 'created' | 'escalated' | 'reviewed' | 'released' | 'expired'
+  ): Promise<void> {
+    const events: Record<typeof eventType, NotificationEventType> = {
+      created: 'WORKFLOW_CREATED',
+      escalated: 'WORKFLOW_ESCALATED',
+      reviewed: 'WORKFLOW_REVIEWED',
+      released: 'WORKFLOW_RELEASED',
+      expired: 'WORKFLOW_EXPIRED'
+    };
+
+    await this.publishConsoleEvent(workflow, 'workflow.updated', { event: eventType });
+
+    await notificationService.notify(events[eventType], {
+      recipients: [workflow.assigned_to, workflow.created_by],
+      data: { ...workflow },
+      entityId: workflow.id,
+      // Each escalation level is a separate event for the same workflow
+      dedupDiscriminator: eventType === 'escalated' ? workflow.escalation_level : undefined
+    });
   }
 
   private async sendSlaWarning(workflow: HoldStopWorkflow, slaPercent: number, threshold: number): Promise<void> {
-    // In production, this would send SLA warning notifications
-    console.log(`SLA Warning: Workflow ${workflow.id} at ${slaPercent.toFixed(1)}% of SLA`);
-    console.log(`Threshold: ${threshold}%, Action: ${workflow.action_type}`);
+    await this.publishConsoleEvent(workflow, 'workflow.sla_warning', {
+      sla_percent: Math.round(slaPercent),
+      threshold
+    });
+
+    await notificationService.notify('SLA_WARNING', {
+      recipients: [workflow.assigned_to, workflow.created_by],
+      data: { ...workflow, sla_percent: Math.round(slaPercent), threshold },
+      entityId: workflow.id,
+      dedupDiscriminator: threshold
+    });
   }
 
-  private scheduleExpirationCheck(workflowId: string, expiresAt: Date): void {
-    // In production, this would schedule a job to check expiration
-    const timeUntilExpiration = expiresAt.getTime() - Date.now();
-    
-    if (timeUntilExpiration > 0) {
-      setTimeout(async () => {
-        await this.checkExpiredWorkflows();
-      }, timeUntilExpiration);
-    }
+  private async publishConsoleEvent(
+    workflow: HoldStopWorkflow,
+    type: 'workflow.updated' | 'workflow.sla_warning',
+    details: Record<string, any>
+  ): Promise<void> {
+    const declaration = await db.declaration.findUnique({
+      where: { declaration_id: workflow.declaration_id },
+      select: { arrival_port: true }
+    });
+    const slaConfig = this.getSlaConfig(workflow.action_type, workflow.priority);
+    const escalationRole = slaConfig
+      ? escalationEngine.getLevelRole(slaConfig, workflow.escalation_level || 0)
+      : undefined;
+
+    consoleEvents.publish(type, {
+      workflow: {
+        id: workflow.id,
+        declaration_id: workflow.declaration_id,
+        action_type: workflow.action_type,
+        status: workflow.status,
+        priority: workflow.priority,
+        assigned_to: workflow.assigned_to,
+        escalation_level: workflow.escalation_level,
+        expires_at: workflow.expires_at
+      },
+      ...details
+    }, {
+      port: declaration?.arrival_port,
+      roles: escalationRole ? [...OPERATIONS_ROLES, escalationRole] : OPERATIONS_ROLES,
+      assignees: [workflow.assigned_to, workflow.created_by]
+    });
+  }
+
+  private async scheduleExpirationCheck(expiresAt: Date): Promise<void> {
+    // Pull the expiry job forward if it would otherwise run after this workflow expires
+    await jobScheduler.runAt(WORKFLOW_EXPIRY_JOB, expiresAt);
   }
 
   private async updateDeclarationStatus(declarationId: string, status: string): Promise<void> {
@@ -443,24 +673,66 @@ class HoldStopWorkflowManager {
   }
 
   async getWorkflowStats(periodStart: string, periodEnd: string): Promise<any> {
-    // In production, this would query workflow statistics
-    return {
-      total_workflows: 0,
-      active_workflows: 0,
-      expired_workflows: 0,
-      released_workflows: 0,
-      escalated_workflows: 0,
-      average_sla_compliance: 0,
-      by_priority: {
-        LOW: { total: 0, released: 0, expired: 0 },
-        MEDIUM: { total: 0, released: 0, expired: 0 },
-        HIGH: { total: 0, released: 0, expired: 0 },
-        CRITICAL: { total: 0, released: 0, expired: 0 }
+    const workflows = await db.holdStopWorkflow.findMany({
+      where: {
+        created_at: {
+          gte: new Date(periodStart),
+          lte: new Date(periodEnd)
+        }
       },
-      by_action_type: {
-        HOLD: { total: 0, released: 0, expired: 0 },
-        STOP: { total: 0, released: 0, expired: 0 }
+      select: {
+        action_type: true,
+        status: true,
+        priority: true,
+        expires_at: true,
+        release_authorized_at: true
       }
+    });
+
+    const emptyBucket = () => ({ total: 0, released: 0, expired: 0 });
+    const byPriority: Record<string, { total: number; released: number; expired: number }> = {
+      LOW: emptyBucket(),
+      MEDIUM: emptyBucket(),
+      HIGH: emptyBucket(),
+      CRITICAL: emptyBucket()
+    };
+    const byActionType: Record<string, { total: number; released: number; expired: number }> = {
+      HOLD: emptyBucket(),
+      STOP: emptyBucket()
+    };
+
+    let released = 0;
+    let releasedWithinSla = 0;
+    let expired = 0;
+
+    for (const workflow of workflows) {
+      const buckets = [byPriority[workflow.priority], byActionType[workflow.action_type]].filter(Boolean);
+      buckets.forEach(bucket => bucket.total++);
+
+      if (workflow.status === 'RELEASED') {
+        released++;
+        buckets.forEach(bucket => bucket.released++);
+        if (workflow.release_authorized_at && workflow.release_authorized_at <= workflow.expires_at) {
+          releasedWithinSla++;
+        }
+      } else if (workflow.status === 'EXPIRED') {
+        expired++;
+        buckets.forEach(bucket => bucket.expired++);
+      }
+    }
+
+    // Share of concluded workflows that were released before their SLA ran out
+    const concluded = released + expired;
+
+    return {
+      total_workflows: workflows.length,
+      active_workflows: workflows.filter(w => w.status === 'ACTIVE').length,
+      expired_workflows: expired,
+      released_workflows: released,
+      escalated_workflows: workflows.filter(w => w.status === 'ESCALATED').length,
+      average_sla_compliance: concluded > 0 ? Math.round((releasedWithinSla / concluded) * 1000) / 10 : 0,
+      by_priority: byPriority,
+      by_action_type: byActionType
     };
   }
 }
@@ -0,0 +1,173 @@
+import { getUserPermissions, UserPermissions } from '@/lib/auth/jwt';
+import type { HoldStopWorkflow } from '@/lib/workflow/manager';
+
+export type WorkflowStatus = HoldStopWorkflow['status'];
+
+export type WorkflowTransition =
+  | 'ACTIVATE'
+  | 'ESCALATE'
+  | 'REVIEW_APPROVE'
+  | 'REVIEW_REJECT'
+  | 'REVIEW_MORE_INFO'
+  | 'RELEASE'
+  | 'EXPIRE';
+
+export interface WorkflowActor {
+  id: string; // email for officers, 'system' for scheduled jobs
+  role: string;
+}
+
+export const SYSTEM_ACTOR: WorkflowActor = { id: 'system', role: 'SYSTEM' };
+
+export class WorkflowTransitionError extends Error {
+  constructor(
+    message: string,
+    public code: 'ILLEGAL_TRANSITION' | 'FORBIDDEN' | 'MISSING_REQUIRED_FIELD' | 'DUAL_AUTHORISATION_REQUIRED',
+    public workflowId: string,
+    public transition: WorkflowTransition
+  ) {
+    super(message);
+    this.name = 'WorkflowTransitionError';
+  }
+}
+
+interface TransitionDefinition {
+  verb: string; // used in error messages
+  from: WorkflowStatus[];
+  to?: WorkflowStatus; // omitted when the transition keeps the current status
+  permission?: keyof UserPermissions; // omitted for system-only transitions
+  allowSystem: boolean;
+  // Returns a reason when a required field is missing
+  guard?: (workflow: HoldStopWorkflow, input: TransitionInput) => string | null;
+}
+
+export interface TransitionInput {
+  notes?: string;
+  reason?: string;
+}
+
+const requireNotes = (_workflow: HoldStopWorkflow, input: TransitionInput) =>
+  input.notes && input.notes.trim().length > 0 ? null : 'Review notes are required';
+
+class WorkflowStateMachine {
+  private transitions: Record<WorkflowTransition, TransitionDefinition> = {
+    ACTIVATE: {
+      verb: 'activate',
+      from: ['PENDING'],
+      to: 'ACTIVE',
+      permission: 'canMakeDecisions',
+      allowSystem: true
+    },
+    ESCALATE: {
+      verb: 'escalate',
+      from: ['ACTIVE', 'ESCALATED'],
+      to: 'ESCALATED',
+      permission: 'canMakeDecisions',
+      allowSystem: true,
+      guard: (_workflow, input) => (input.reason ? null : 'An escalation reason is required')
+    },
+    REVIEW_APPROVE: {
+      verb: 'approve',
+      from: ['ACTIVE', 'ESCALATED'],
+      to: 'ACTIVE',
+      permission: 'canMakeDecisions',
+      allowSystem: false,
+      guard: requireNotes
+    },
+    REVIEW_REJECT: {
+      verb: 'reject',
+      from: ['ACTIVE', 'ESCALATED', 'EXPIRED'],
+      to: 'RELEASED',
+      permission: 'canOverrideActions',
+      allowSystem: false,
+      guard: requireNotes
+    },
+    REVIEW_MORE_INFO: {
+      verb: 'request more information on',
+      from: ['ACTIVE', 'ESCALATED'],
+      permission: 'canMakeDecisions',
+      allowSystem: false,
+      guard: requireNotes
+    },
+    RELEASE: {
+      verb: 'release',
+      from: ['ACTIVE', 'ESCALATED', 'EXPIRED'],
+      to: 'RELEASED',
+      permission: 'canOverrideActions',
+      allowSystem: true,
+      guard: (workflow) =>
+        workflow.action_type === 'STOP' && (!workflow.reviewed_by || !workflow.review_notes)
+          ? 'STOP workflows must be reviewed with notes before release'
+          : null
+    },
+    EXPIRE: {
+      verb: 'expire',
+      from: ['ACTIVE', 'ESCALATED'],
+      to: 'EXPIRED',
+      allowSystem: true
+    }
+  };
+
+  /**
+   * Check that the actor may apply the transition to the workflow in its current
+   * state and return the resulting status.
+   */
+  assertTransition(
+    workflow: HoldStopWorkflow,
+    transition: WorkflowTransition,
+    actor: WorkflowActor,
+    input: TransitionInput = {}
+  ): WorkflowStatus {
+    const definition = this.transitions[transition];
+
+    if (!definition.from.includes(workflow.status)) {
+      throw new WorkflowTransitionError(
+        `Cannot ${definition.verb} a workflow in status ${workflow.status}`,
+        'ILLEGAL_TRANSITION',
+        workflow.id,
+        transition
+      );
+    }
+
+    if (!this.isPermitted(definition, actor)) {
+      throw new WorkflowTransitionError(
+        `Role ${actor.role} is not permitted to ${definition.verb} workflows`,
+        'FORBIDDEN',
+        workflow.id,
+        transition
+      );
+    }
+
+    const missing = definition.guard?.(workflow, input);
+    if (missing) {
+      throw new WorkflowTransitionError(missing, 'MISSING_REQUIRED_FIELD', workflow.id, transition);
+    }
+
+    return definition.to || workflow.status;
+  }
+
+  canTransition(workflow: HoldStopWorkflow, transition: WorkflowTransition, actor: WorkflowActor): boolean {
+    const definition = this.transitions[transition];
+    return definition.from.includes(workflow.status) && this.isPermitted(definition, actor);
+  }
+
+  // Transitions the actor could apply now, e.g. for rendering console buttons
+  availableTransitions(workflow: HoldStopWorkflow, actor: WorkflowActor): WorkflowTransition[] {
+    return (Object.keys(this.transitions) as WorkflowTransition[])
+      .filter(transition => this.canTransition(workflow, transition, actor));
+  }
+
+  // Releasing CRITICAL workflows needs two different officers
+  requiresDualAuthorisation(workflow: HoldStopWorkflow, actor: WorkflowActor): boolean {
+    return workflow.priority === 'CRITICAL' && actor.role !== SYSTEM_ACTOR.role;
+  }
+
+  private isPermitted(definition: TransitionDefinition, actor: WorkflowActor): boolean {
+    if (actor.role === SYSTEM_ACTOR.role) {
+      return definition.allowSystem;
+    }
+    return !!definition.permission && getUserPermissions(actor.role)[definition.permission];
+  }
+}
+
+export const workflowStateMachine = new WorkflowStateMachine();